@@ -0,0 +1,68 @@
+/**
+ * Express 应用 - 中间件和路由，启动监听见 index.ts
+ */
+
+import express from 'express';
+import cors from 'cors';
+import authRoutes from './routes/auth.js';
+import projectRoutes from './routes/projects.js';
+import imageRoutes from './routes/images.js';
+import scriptRoutes from './routes/scripts.js';
+import generateRoutes from './routes/generate.js';
+import fileRoutes from './routes/files.js';
+import workspaceRoutes from './routes/workspaces.js';
+import adminRoutes from './routes/admin.js';
+import usageRoutes from './routes/usage.js';
+import promptRoutes from './routes/prompts.js';
+import brandKitRoutes from './routes/brandKits.js';
+import complianceRoutes from './routes/compliance.js';
+import { STORAGE_DRIVER } from './utils/d1Client.js';
+import { requireStoreFeature } from './middleware/storeFeature.js';
+
+const app = express();
+
+// 中间件
+app.use(cors({
+  origin: process.env.FRONTEND_URL || '*',
+  credentials: true,
+}));
+app.use(express.json({ limit: '50mb' }));
+app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+
+// 健康检查
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// API 路由（新功能的路由需要数据后端支持，旧版 Worker 上返回 501）
+app.use('/api/auth', authRoutes);
+app.use('/api/projects', projectRoutes);
+app.use('/api/images', imageRoutes);
+app.use('/api/scripts', scriptRoutes);
+app.use('/api/generate', generateRoutes);
+app.use('/api/workspaces', requireStoreFeature('workspaces'), workspaceRoutes);
+app.use('/api/usage', requireStoreFeature('aiUsage'), usageRoutes);
+app.use('/api/prompts', requireStoreFeature('promptTemplates'), promptRoutes);
+app.use('/api/brand-kits', requireStoreFeature('brandKits'), brandKitRoutes);
+app.use('/api/compliance', requireStoreFeature('compliance'), complianceRoutes);
+app.use('/api/admin', requireStoreFeature('userAdmin'), adminRoutes);
+
+// 本地存储文件访问
+if (STORAGE_DRIVER === 'local') {
+  app.use('/files', fileRoutes);
+}
+
+// 错误处理
+app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  console.error('Error:', err);
+  res.status(err.status || 500).json({
+    error: err.message || 'Internal Server Error',
+  });
+});
+
+// 404 处理
+app.use((req, res) => {
+  res.status(404).json({ error: 'Not Found' });
+});
+
+export default app;
@@ -1,49 +1,16 @@
-import express from 'express';
-import cors from 'cors';
-import dotenv from 'dotenv';
-import authRoutes from './routes/auth.js';
-import projectRoutes from './routes/projects.js';
-import imageRoutes from './routes/images.js';
-import scriptRoutes from './routes/scripts.js';
-import generateRoutes from './routes/generate.js';
+import 'dotenv/config';
+import app from './app.js';
+import { checkStore } from './utils/d1Client.js';
 
-dotenv.config();
-
-const app = express();
 const PORT = process.env.PORT || 3001;
 
-// 中间件
-app.use(cors({
-  origin: process.env.FRONTEND_URL || '*',
-  credentials: true,
-}));
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
-
-// 健康检查
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-// API 路由
-app.use('/api/auth', authRoutes);
-app.use('/api/projects', projectRoutes);
-app.use('/api/images', imageRoutes);
-app.use('/api/scripts', scriptRoutes);
-app.use('/api/generate', generateRoutes);
-
-// 错误处理
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Error:', err);
-  res.status(err.status || 500).json({
-    error: err.message || 'Internal Server Error',
-  });
-});
-
-// 404 处理
-app.use((req, res) => {
-  res.status(404).json({ error: 'Not Found' });
-});
+// 无法访问数据后端时拒绝启动
+try {
+  await checkStore();
+} catch (error: any) {
+  console.error('Startup check failed:', error.message);
+  process.exit(1);
+}
 
 app.listen(Number(PORT), '0.0.0.0', () => {
   console.log(`Server running on port ${PORT}`);
@@ -1,7 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { users } from '../utils/d1Client.js';
+import type { UserRole } from '../types/models.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+// 访问令牌有效期（秒），过期后用刷新令牌换取新令牌
+export const ACCESS_TOKEN_TTL = parseInt(process.env.ACCESS_TOKEN_TTL || '900');
+// 数据后端不支持刷新令牌时（旧版 Worker）访问令牌沿用原来的 7 天有效期
+export const LEGACY_ACCESS_TOKEN_TTL = 7 * 24 * 60 * 60;
 
 export interface AuthRequest extends Request {
   user?: {
@@ -12,7 +18,9 @@ export interface AuthRequest extends Request {
   };
 }
 
-export function authenticateToken(req: AuthRequest, res: Response, next: NextFunction) {
+// 校验访问令牌，并从数据库确认账号仍然有效：已删除或被停用的账号、修改密码前签发的令牌即使未过期也会被拒绝，
+// 角色以数据库为准，管理员调整角色后立即生效
+export async function authenticateToken(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -20,30 +28,44 @@ export function authenticateToken(req: AuthRequest, res: Response, next: NextFun
     return res.status(401).json({ error: 'Access token required' });
   }
 
+  let decoded: any;
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, JWT_SECRET);
   } catch (error) {
     return res.status(403).json({ error: 'Invalid or expired token' });
   }
-}
 
-export function generateToken(user: { id: number; email: string; name?: string; role: string }): string {
-  return jwt.sign(user, JWT_SECRET, { expiresIn: '7d' });
-}
+  try {
+    const user = await users.getById(decoded.id);
+    // 令牌版本缺失视为 0（版本机制上线前签发的令牌）
+    if (!user || (decoded.ver ?? 0) !== user.tokenVersion) {
+      return res.status(403).json({ error: 'Invalid or expired token' });
+    }
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
+    }
 
-export function optionalAuth(req: AuthRequest, res: Response, next: NextFunction) {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
+    req.user = { id: user.id, email: user.email, name: user.name ?? undefined, role: user.role };
+    next();
+  } catch (error: any) {
+    console.error('Authenticate error:', error);
+    return res.status(500).json({ error: error.message || 'Failed to authenticate' });
+  }
+}
 
-  if (token) {
-    try {
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
-      req.user = decoded;
-    } catch (error) {
-      // Token invalid, but continue without auth
+// 限定平台角色，需放在 authenticateToken 之后
+export function requireRole(...roles: UserRole[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
     }
-  }
-  next();
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    next();
+  };
+}
+
+export function generateToken(user: { id: number; email: string; name?: string; role: string; ver: number }, expiresIn = ACCESS_TOKEN_TTL): string {
+  return jwt.sign(user, JWT_SECRET, { expiresIn });
 }
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { idempotencyKeys, storeSupports } from '../utils/d1Client.js';
+import type { AuthRequest } from './auth.js';
+import type { IdempotencyRecord } from '../types/models.js';
+
+// 幂等记录保留时间（小时），过期后同一 key 视为新请求
+const IDEMPOTENCY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24');
+// 处理中的记录超过该时间视为已中断（如服务重启），允许重新处理
+const PENDING_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+const requestHashOf = (req: AuthRequest) =>
+  crypto.createHash('sha256').update(`${req.method} ${req.originalUrl}\n${JSON.stringify(req.body ?? {})}`).digest('hex');
+
+const isAbandoned = (record: IdempotencyRecord) =>
+  new Date(record.expiresAt).getTime() <= Date.now() ||
+  (record.status === 'pending' && Date.now() - new Date(record.createdAt).getTime() > PENDING_TIMEOUT_MS);
+
+// 重放首次的响应；流式接口重放为只含 done 事件的事件流
+function replay(res: Response, record: IdempotencyRecord) {
+  res.setHeader('Idempotent-Replayed', 'true');
+  if (record.responseType === 'sse') {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.status(record.responseStatus ?? 200);
+    res.write(`event: done\ndata: ${JSON.stringify(record.responseBody)}\n\n`);
+    return res.end();
+  }
+  return res.status(record.responseStatus ?? 200).json(record.responseBody);
+}
+
+// 流式接口在推送最终结果时调用，保存该结果供重复请求重放
+export function completeIdempotentStream(res: Response, body: unknown) {
+  res.locals.idempotentStream = body;
+}
+
+// 支持 Idempotency-Key 请求头：同一用户用相同 key 重复提交时重放首次的成功响应，
+// 首次请求仍在处理时返回 409，同一 key 用于不同请求时返回 422。失败的响应不保存，可用同一 key 重试。
+// 需放在 authenticateToken 之后、请求体校验之前。数据后端不支持幂等记录时忽略该请求头
+export async function idempotency(req: AuthRequest, res: Response, next: NextFunction) {
+  const key = req.header('idempotency-key');
+  if (key === undefined || !storeSupports('idempotency')) {
+    return next();
+  }
+  if (!req.user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: [{ field: 'Idempotency-Key', message: `Must be 1-${MAX_KEY_LENGTH} characters` }],
+    });
+  }
+
+  try {
+    const userId = req.user.id;
+    const requestHash = requestHashOf(req);
+    const begin = () =>
+      idempotencyKeys.begin({
+        userId,
+        key,
+        requestHash,
+        expiresAt: new Date(Date.now() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+      });
+
+    let record = await begin();
+    if (!record) {
+      const existing = await idempotencyKeys.get(userId, key);
+      if (existing && !isAbandoned(existing)) {
+        if (existing.requestHash !== requestHash) {
+          return res.status(422).json({ error: 'Idempotency-Key has already been used for a different request' });
+        }
+        if (existing.status === 'pending') {
+          return res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+        }
+        return replay(res, existing);
+      }
+
+      if (existing) {
+        await idempotencyKeys.delete(existing.id);
+      }
+      record = await begin();
+      if (!record) {
+        return res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+      }
+    }
+
+    // 记录处理函数的 JSON 响应，请求结束后保存成功的响应，其余情况释放 key
+    let captured: { status: number; body: unknown } | null = null;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      captured = { status: res.statusCode, body };
+      return json(body);
+    };
+
+    const { id } = record;
+    res.on('close', () => {
+      const stream = res.locals.idempotentStream;
+      const done =
+        stream !== undefined
+          ? idempotencyKeys.complete(id, { status: res.statusCode, type: 'sse', body: stream })
+          : captured && captured.status < 300
+            ? idempotencyKeys.complete(id, { status: captured.status, type: 'json', body: captured.body })
+            : idempotencyKeys.delete(id);
+      done.catch((e) => console.error(`Failed to save idempotency key ${id}:`, e));
+    });
+
+    next();
+  } catch (error: any) {
+    console.error('Idempotency error:', error);
+    res.status(500).json({ error: error.message || 'Failed to process Idempotency-Key' });
+  }
+}
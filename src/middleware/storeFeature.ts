@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import { storeSupports } from '../utils/d1Client.js';
+import { STORE_FEATURES, type StoreFeature } from '../utils/store/features.js';
+
+// 数据后端不支持该功能时返回 501（Workers 后端的 Worker 数据结构版本不足，见 docs/workers-api.md）
+export function requireStoreFeature(feature: StoreFeature) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!storeSupports(feature)) {
+      return res.status(501).json({
+        error: `This feature is not available: it requires Workers API schema version ${STORE_FEATURES[feature]}`,
+      });
+    }
+    next();
+  };
+}
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { z, ZodType } from 'zod';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export function formatIssues(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }));
+}
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: 'Validation failed',
+    details: formatIssues(error),
+  });
+}
+
+// 校验请求体，通过后以解析结果（已去除未声明字段并填充默认值）替换 req.body
+export function validateBody(schema: ZodType) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return sendValidationError(res, result.error);
+    }
+    req.body = result.data;
+    next();
+  };
+}
+
+// 校验查询参数（仅校验，处理函数仍自行解析）
+export function validateQuery(schema: ZodType) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      return sendValidationError(res, result.error);
+    }
+    next();
+  };
+}
+
+// 校验路径参数（仅校验，处理函数仍自行解析）
+export function validateParams(schema: ZodType) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.params);
+    if (!result.success) {
+      return sendValidationError(res, result.error);
+    }
+    next();
+  };
+}
@@ -0,0 +1,233 @@
+import { Router, Response } from 'express';
+import { users, projects, images, sections, competitorText, workspaces, stats } from '../utils/d1Client.js';
+import { revokeAllSessions } from '../utils/authTokens.js';
+import { getUsageSummary } from '../utils/usage.js';
+import { withImageUrls } from '../utils/imageUpload.js';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { projectParams } from '../schemas/projects.js';
+import {
+  userParams,
+  listUsersQuery,
+  updateUserRoleSchema,
+  updateUserPlanSchema,
+  listProjectsQuery,
+  statsQuery,
+  ListUsersQuery,
+  UpdateUserRoleBody,
+  UpdateUserPlanBody,
+  ListProjectsQuery,
+  StatsQuery,
+} from '../schemas/admin.js';
+
+const router = Router();
+
+// 管理接口仅限平台管理员
+router.use(authenticateToken, requireRole('admin'));
+
+// ===== 用户管理 =====
+
+// 搜索用户
+router.get('/users', validateQuery(listUsersQuery), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { q, role, disabled, limit, offset } = listUsersQuery.parse(req.query) as ListUsersQuery;
+    const result = await users.search({ q, role, disabled, limit, offset });
+
+    res.json({ ...result, limit, offset });
+  } catch (error: any) {
+    console.error('Admin list users error:', error);
+    res.status(500).json({ error: error.message || 'Failed to list users' });
+  }
+});
+
+// 用户详情，附带所在工作区、创建的项目数和 AI 用量
+router.get('/users/:userId', validateParams(userParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const userId = parseInt(req.params.userId);
+    const user = await users.getById(userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const [userWorkspaces, userProjects, usage] = await Promise.all([
+      workspaces.listForUser(userId),
+      projects.list(userId),
+      getUsageSummary(userId),
+    ]);
+
+    res.json({ ...user, workspaces: userWorkspaces, projectCount: userProjects.length, usage });
+  } catch (error: any) {
+    console.error('Admin get user error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get user' });
+  }
+});
+
+// 修改用户角色
+router.put('/users/:userId/role', validateParams(userParams), validateBody(updateUserRoleSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const userId = parseInt(req.params.userId);
+    const { role } = req.body as UpdateUserRoleBody;
+
+    // 防止管理员误操作导致自己失去管理权限
+    if (userId === req.user.id) {
+      return res.status(400).json({ error: 'Cannot change your own role' });
+    }
+
+    const user = await users.updateRole(userId, role);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(user);
+  } catch (error: any) {
+    console.error('Admin update role error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update role' });
+  }
+});
+
+// 调整用户的 AI 用量套餐
+router.put('/users/:userId/plan', validateParams(userParams), validateBody(updateUserPlanSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { plan } = req.body as UpdateUserPlanBody;
+    const user = await users.updatePlan(parseInt(req.params.userId), plan);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(user);
+  } catch (error: any) {
+    console.error('Admin update plan error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update plan' });
+  }
+});
+
+// 停用账号，同时撤销其全部会话
+router.post('/users/:userId/disable', validateParams(userParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const userId = parseInt(req.params.userId);
+    if (userId === req.user.id) {
+      return res.status(400).json({ error: 'Cannot disable your own account' });
+    }
+
+    const user = await users.setDisabled(userId, true);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await revokeAllSessions(userId);
+
+    res.json(user);
+  } catch (error: any) {
+    console.error('Admin disable user error:', error);
+    res.status(500).json({ error: error.message || 'Failed to disable user' });
+  }
+});
+
+// 重新启用账号
+router.post('/users/:userId/enable', validateParams(userParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const user = await users.setDisabled(parseInt(req.params.userId), false);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(user);
+  } catch (error: any) {
+    console.error('Admin enable user error:', error);
+    res.status(500).json({ error: error.message || 'Failed to enable user' });
+  }
+});
+
+// ===== 项目查看 =====
+
+// 全平台项目列表（分页），可按创建者和状态筛选
+router.get('/projects', validateQuery(listProjectsQuery), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { userId, status, limit, offset } = listProjectsQuery.parse(req.query) as ListProjectsQuery;
+    const result = await projects.search({ userId, status, limit, offset });
+
+    res.json({ ...result, limit, offset });
+  } catch (error: any) {
+    console.error('Admin list projects error:', error);
+    res.status(500).json({ error: error.message || 'Failed to list projects' });
+  }
+});
+
+// 查看任意项目详情（只读）
+router.get('/projects/:id', validateParams(projectParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.id);
+    const project = await projects.getById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const [owner, projectImages, projectSections, projectCompetitorText] = await Promise.all([
+      users.getById(project.userId),
+      images.listByProject(projectId),
+      sections.listByProject(projectId),
+      competitorText.listByProject(projectId),
+    ]);
+
+    res.json({
+      ...project,
+      owner,
+      images: await Promise.all(projectImages.map(withImageUrls)),
+      sections: projectSections,
+      competitorText: projectCompetitorText,
+    });
+  } catch (error: any) {
+    console.error('Admin get project error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get project' });
+  }
+});
+
+// ===== 平台统计 =====
+
+router.get('/stats', validateQuery(statsQuery), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { days } = statsQuery.parse(req.query) as StatsQuery;
+    res.json(await stats.overview(days));
+  } catch (error: any) {
+    console.error('Admin stats error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get stats' });
+  }
+});
+
+export default router;
@@ -1,27 +1,63 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { users } from '../utils/d1Client.js';
-import { generateToken, authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { mailer } from '../utils/mailer.js';
+import {
+  issueTokens,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeAllSessions,
+  createPasswordResetToken,
+  consumePasswordResetToken,
+  PASSWORD_RESET_TTL_MINUTES,
+  TokenPair,
+} from '../utils/authTokens.js';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { requireStoreFeature } from '../middleware/storeFeature.js';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  changePasswordSchema,
+  passwordResetRequestSchema,
+  passwordResetConfirmSchema,
+  RegisterBody,
+  LoginBody,
+  RefreshTokenBody,
+  ChangePasswordBody,
+  PasswordResetRequestBody,
+  PasswordResetConfirmBody,
+} from '../schemas/auth.js';
+import type { User } from '../types/models.js';
 
 const router = Router();
 
+// 重置密码页面地址
+const PASSWORD_RESET_URL = process.env.PASSWORD_RESET_URL || `${process.env.FRONTEND_URL || 'http://localhost:5173'}/reset-password`;
+
+// 登录/注册/刷新的统一响应
+function authResponse(user: User, tokens: TokenPair) {
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+    },
+    ...tokens,
+  };
+}
+
 // 注册
-router.post('/register', async (req: Request, res: Response) => {
+router.post('/register', validateBody(registerSchema), async (req: Request, res: Response) => {
   try {
-    const { email, password, name } = req.body;
-
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Email and password are required' });
-    }
+    const { email, password, name } = req.body as RegisterBody;
 
     // 检查用户是否已存在
-    try {
-      const existingUser = await users.login(email);
-      if (existingUser) {
-        return res.status(400).json({ error: 'User already exists' });
-      }
-    } catch (e) {
-      // 用户不存在，继续注册
+    const existingUser = await users.login(email);
+    if (existingUser) {
+      return res.status(400).json({ error: 'User already exists' });
     }
 
     // 加密密码
@@ -31,22 +67,7 @@ router.post('/register', async (req: Request, res: Response) => {
     const user = await users.create({ email, passwordHash, name });
 
     // 生成 token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role || 'user',
-    });
-
-    res.status(201).json({
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      token,
-    });
+    res.status(201).json(authResponse(user, await issueTokens(user)));
   } catch (error: any) {
     console.error('Register error:', error);
     res.status(500).json({ error: error.message || 'Registration failed' });
@@ -54,13 +75,9 @@ router.post('/register', async (req: Request, res: Response) => {
 });
 
 // 登录
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', validateBody(loginSchema), async (req: Request, res: Response) => {
   try {
-    const { email, password } = req.body;
-
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Email and password are required' });
-    }
+    const { email, password } = req.body as LoginBody;
 
     // 获取用户
     const user = await users.login(email);
@@ -69,34 +86,151 @@ router.post('/login', async (req: Request, res: Response) => {
     }
 
     // 验证密码
-    const isValid = await bcrypt.compare(password, user.password_hash);
+    const isValid = await bcrypt.compare(password, user.passwordHash);
     if (!isValid) {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // 生成 token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role || 'user',
-    });
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
+    }
 
-    res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      token,
-    });
+    // 生成 token
+    const { passwordHash, ...profile } = user;
+    res.json(authResponse(profile, await issueTokens(profile)));
   } catch (error: any) {
     console.error('Login error:', error);
     res.status(500).json({ error: error.message || 'Login failed' });
   }
 });
 
+// 用刷新令牌换取新的令牌对（刷新令牌同时轮换）
+router.post('/refresh', requireStoreFeature('authTokens'), validateBody(refreshTokenSchema), async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body as RefreshTokenBody;
+
+    const result = await rotateRefreshToken(refreshToken);
+    if (!result) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    res.json(authResponse(result.user, result.tokens));
+  } catch (error: any) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: error.message || 'Failed to refresh token' });
+  }
+});
+
+// 退出登录，撤销当前会话的刷新令牌
+router.post('/logout', requireStoreFeature('authTokens'), validateBody(refreshTokenSchema), async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body as RefreshTokenBody;
+
+    await revokeRefreshToken(refreshToken);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: error.message || 'Logout failed' });
+  }
+});
+
+// 退出全部设备
+router.post('/logout-all', requireStoreFeature('authTokens'), authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    await revokeAllSessions(req.user.id);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: error.message || 'Logout failed' });
+  }
+});
+
+// 修改密码，其他会话及已签发的访问令牌全部失效，返回当前会话的新令牌
+router.post('/change-password', requireStoreFeature('passwordChange'), authenticateToken, validateBody(changePasswordSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { currentPassword, newPassword } = req.body as ChangePasswordBody;
+
+    const user = await users.getRecordById(req.user.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // 验证当前密码
+    const isValid = await bcrypt.compare(currentPassword, user.passwordHash);
+    if (!isValid) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+
+    await users.updatePassword(user.id, await bcrypt.hash(newPassword, 10));
+    await revokeAllSessions(user.id);
+
+    // 重新读取用户，新令牌使用递增后的令牌版本
+    const profile = await users.getById(user.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json(authResponse(profile, await issueTokens(profile)));
+  } catch (error: any) {
+    console.error('Change password error:', error);
+    res.status(500).json({ error: error.message || 'Failed to change password' });
+  }
+});
+
+// 申请重置密码。无论邮箱是否存在都返回成功，避免泄露注册信息
+router.post('/password-reset/request', requireStoreFeature('passwordChange'), validateBody(passwordResetRequestSchema), async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body as PasswordResetRequestBody;
+
+    // 已停用的账号不发送重置邮件
+    const user = await users.login(email);
+    if (user && !user.disabledAt) {
+      const token = await createPasswordResetToken(user.id);
+      const link = `${PASSWORD_RESET_URL}?token=${encodeURIComponent(token)}`;
+
+      await mailer.send({
+        to: user.email,
+        subject: '重置密码',
+        text: `您好${user.name ? ` ${user.name}` : ''}：\n\n请点击以下链接重置密码（${PASSWORD_RESET_TTL_MINUTES} 分钟内有效，仅可使用一次）：\n${link}\n\n如果这不是您本人的操作，请忽略此邮件。`,
+      });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Password reset request error:', error);
+    res.status(500).json({ error: error.message || 'Failed to request password reset' });
+  }
+});
+
+// 使用重置令牌设置新密码，已登录的会话及已签发的访问令牌全部失效
+router.post('/password-reset/confirm', requireStoreFeature('passwordChange'), validateBody(passwordResetConfirmSchema), async (req: Request, res: Response) => {
+  try {
+    const { token, newPassword } = req.body as PasswordResetConfirmBody;
+
+    const userId = await consumePasswordResetToken(token);
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    await users.updatePassword(userId, await bcrypt.hash(newPassword, 10));
+    await revokeAllSessions(userId);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Password reset confirm error:', error);
+    res.status(500).json({ error: error.message || 'Failed to reset password' });
+  }
+});
+
 // 获取当前用户信息
 router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -105,6 +239,10 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) =>
     }
 
     const user = await users.getById(req.user.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
     res.json({
       id: user.id,
       email: user.email,
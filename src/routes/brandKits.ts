@@ -0,0 +1,235 @@
+import { Router, Response } from 'express';
+import multer from 'multer';
+import sharp from 'sharp';
+import { brandKits, storage } from '../utils/d1Client.js';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { authorizeBrandKit, authorizeWorkspace } from '../utils/permissions.js';
+import { getDefaultWorkspace } from '../utils/workspaces.js';
+import { withLogoUrl, DEFAULT_LOGO_PLACEMENT } from '../utils/brandKit.js';
+import {
+  brandKitParams,
+  listBrandKitsQuery,
+  createBrandKitSchema,
+  updateBrandKitSchema,
+  ListBrandKitsQuery,
+  CreateBrandKitBody,
+  UpdateBrandKitBody,
+} from '../schemas/brandKits.js';
+
+const router = Router();
+
+// Logo 上传，内存存储
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed'));
+    }
+  },
+});
+
+// 删除旧 Logo 失败不影响本次操作
+const deleteLogoObject = (r2Key: string | null) =>
+  r2Key ? storage.delete(r2Key).catch((e) => console.error(`Failed to delete object ${r2Key}:`, e)) : Promise.resolve();
+
+// 获取工作区的品牌套件，省略 workspaceId 时为个人默认工作区
+router.get('/', authenticateToken, validateQuery(listBrandKitsQuery), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { workspaceId } = listBrandKitsQuery.parse(req.query) as ListBrandKitsQuery;
+
+    let targetWorkspaceId: number;
+    if (workspaceId) {
+      if (!(await authorizeWorkspace(workspaceId, req.user.id, 'view'))) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      targetWorkspaceId = workspaceId;
+    } else {
+      targetWorkspaceId = (await getDefaultWorkspace({ id: req.user.id, email: req.user.email, name: req.user.name ?? null })).id;
+    }
+
+    const kits = await brandKits.listByWorkspace(targetWorkspaceId);
+    res.json(await Promise.all(kits.map(withLogoUrl)));
+  } catch (error: any) {
+    console.error('Get brand kits error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get brand kits' });
+  }
+});
+
+// 创建品牌套件
+router.post('/', authenticateToken, validateBody(createBrandKitSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { workspaceId, logoPlacement, ...data } = req.body as CreateBrandKitBody;
+
+    // 指定工作区时需要编辑权限
+    if (workspaceId && !(await authorizeWorkspace(workspaceId, req.user.id, 'edit'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const brandKit = await brandKits.create({
+      ...data,
+      workspaceId: workspaceId ?? (await getDefaultWorkspace({ id: req.user.id, email: req.user.email, name: req.user.name ?? null })).id,
+      logoPlacement: { ...DEFAULT_LOGO_PLACEMENT, ...logoPlacement },
+      createdBy: req.user.id,
+    });
+
+    res.status(201).json(await withLogoUrl(brandKit));
+  } catch (error: any) {
+    console.error('Create brand kit error:', error);
+    res.status(500).json({ error: error.message || 'Failed to create brand kit' });
+  }
+});
+
+// 获取品牌套件详情
+router.get('/:brandKitId', authenticateToken, validateParams(brandKitParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await authorizeBrandKit(parseInt(req.params.brandKitId), req.user.id, 'view');
+    if (!access) {
+      return res.status(404).json({ error: 'Brand kit not found' });
+    }
+
+    res.json(await withLogoUrl(access.brandKit));
+  } catch (error: any) {
+    console.error('Get brand kit error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get brand kit' });
+  }
+});
+
+// 更新品牌套件，选用该套件的项目在下次生成时使用新内容
+router.put('/:brandKitId', authenticateToken, validateParams(brandKitParams), validateBody(updateBrandKitSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await authorizeBrandKit(parseInt(req.params.brandKitId), req.user.id, 'edit');
+    if (!access) {
+      return res.status(404).json({ error: 'Brand kit not found' });
+    }
+    const { brandKit } = access;
+
+    const { logoPlacement, ...data } = req.body as UpdateBrandKitBody;
+    const updated = await brandKits.update(brandKit.id, {
+      ...data,
+      logoPlacement: logoPlacement && { ...brandKit.logoPlacement, ...logoPlacement },
+    });
+    if (!updated) {
+      return res.status(404).json({ error: 'Brand kit not found' });
+    }
+
+    res.json(await withLogoUrl(updated));
+  } catch (error: any) {
+    console.error('Update brand kit error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update brand kit' });
+  }
+});
+
+// 删除品牌套件，选用该套件的项目改为不使用品牌套件
+router.delete('/:brandKitId', authenticateToken, validateParams(brandKitParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await authorizeBrandKit(parseInt(req.params.brandKitId), req.user.id, 'edit');
+    if (!access) {
+      return res.status(404).json({ error: 'Brand kit not found' });
+    }
+    const { brandKit } = access;
+
+    await brandKits.delete(brandKit.id);
+    await deleteLogoObject(brandKit.logoR2Key);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete brand kit error:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete brand kit' });
+  }
+});
+
+// ===== Logo =====
+
+// 上传或替换 Logo，建议使用透明背景的 PNG
+router.post('/:brandKitId/logo', authenticateToken, validateParams(brandKitParams), upload.single('logo'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await authorizeBrandKit(parseInt(req.params.brandKitId), req.user.id, 'edit');
+    if (!access) {
+      return res.status(404).json({ error: 'Brand kit not found' });
+    }
+    const { brandKit } = access;
+
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    // 统一转为 PNG，保留透明通道
+    let buffer: Buffer;
+    try {
+      buffer = await sharp(file.buffer).png().toBuffer();
+    } catch {
+      return res.status(400).json({ error: 'Invalid image file' });
+    }
+
+    const r2Key = `brand-kits/${brandKit.id}/logo_${Date.now()}.png`;
+    await storage.upload(r2Key, buffer, 'image/png');
+
+    const updated = await brandKits.update(brandKit.id, { logoR2Key: r2Key });
+    await deleteLogoObject(brandKit.logoR2Key);
+
+    res.json(await withLogoUrl(updated || { ...brandKit, logoR2Key: r2Key }));
+  } catch (error: any) {
+    console.error('Upload brand logo error:', error);
+    res.status(500).json({ error: error.message || 'Failed to upload logo' });
+  }
+});
+
+// 删除 Logo
+router.delete('/:brandKitId/logo', authenticateToken, validateParams(brandKitParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await authorizeBrandKit(parseInt(req.params.brandKitId), req.user.id, 'edit');
+    if (!access) {
+      return res.status(404).json({ error: 'Brand kit not found' });
+    }
+    const { brandKit } = access;
+
+    if (!brandKit.logoR2Key) {
+      return res.status(404).json({ error: 'Brand kit has no logo' });
+    }
+
+    const updated = await brandKits.update(brandKit.id, { logoR2Key: null });
+    await deleteLogoObject(brandKit.logoR2Key);
+
+    res.json(await withLogoUrl(updated || { ...brandKit, logoR2Key: null }));
+  } catch (error: any) {
+    console.error('Delete brand logo error:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete logo' });
+  }
+});
+
+export default router;
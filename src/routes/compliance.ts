@@ -0,0 +1,218 @@
+import { Router, Response } from 'express';
+import { complianceRules, complianceIssues, sections } from '../utils/d1Client.js';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth.js';
+import { validateBody, validateParams } from '../middleware/validate.js';
+import { authorizeProject } from '../utils/permissions.js';
+import {
+  builtinComplianceRules,
+  validateRulePattern,
+  checkCompliance,
+  summarizeIssues,
+  COMPLIANCE_BLOCK_DOWNLOAD,
+} from '../utils/compliance.js';
+import { projectIdParams } from '../schemas/common.js';
+import {
+  complianceRuleParams,
+  complianceIssueParams,
+  createComplianceRuleSchema,
+  updateComplianceRuleSchema,
+  acknowledgeIssueSchema,
+  CreateComplianceRuleBody,
+  UpdateComplianceRuleBody,
+  AcknowledgeIssueBody,
+} from '../schemas/compliance.js';
+
+const router = Router();
+
+// 规则校验失败的统一响应
+const sendInvalidPattern = (res: Response, message: string) =>
+  res.status(400).json({
+    error: 'Validation failed',
+    details: [{ field: 'pattern', message }],
+  });
+
+// ===== 规则 =====
+
+// 全部规则：内置规则和管理员配置的规则
+router.get('/rules', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    res.json({
+      builtin: builtinComplianceRules,
+      custom: await complianceRules.list(),
+    });
+  } catch (error: any) {
+    console.error('List compliance rules error:', error);
+    res.status(500).json({ error: error.message || 'Failed to list compliance rules' });
+  }
+});
+
+// 新增规则（仅限平台管理员）
+router.post('/rules', authenticateToken, requireRole('admin'), validateBody(createComplianceRuleSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { type, pattern, reason, suggestion, category, severity, enabled } = req.body as CreateComplianceRuleBody;
+
+    const patternError = validateRulePattern(type, pattern);
+    if (patternError) {
+      return sendInvalidPattern(res, patternError);
+    }
+
+    const rule = await complianceRules.create({
+      type,
+      pattern,
+      reason,
+      suggestion: suggestion ?? null,
+      category: category ?? null,
+      severity,
+      enabled,
+      createdBy: req.user.id,
+    });
+
+    res.status(201).json(rule);
+  } catch (error: any) {
+    console.error('Create compliance rule error:', error);
+    res.status(500).json({ error: error.message || 'Failed to create compliance rule' });
+  }
+});
+
+// 修改规则，已有的检查结果在下次检查时按新规则更新
+router.put('/rules/:ruleId', authenticateToken, requireRole('admin'), validateParams(complianceRuleParams), validateBody(updateComplianceRuleSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const rule = await complianceRules.getById(parseInt(req.params.ruleId));
+    if (!rule) {
+      return res.status(404).json({ error: 'Compliance rule not found' });
+    }
+
+    const data = req.body as UpdateComplianceRuleBody;
+
+    // 类型和表达式需要一起校验
+    const patternError = validateRulePattern(data.type ?? rule.type, data.pattern ?? rule.pattern);
+    if (patternError) {
+      return sendInvalidPattern(res, patternError);
+    }
+
+    res.json(await complianceRules.update(rule.id, data));
+  } catch (error: any) {
+    console.error('Update compliance rule error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update compliance rule' });
+  }
+});
+
+// 删除规则
+router.delete('/rules/:ruleId', authenticateToken, requireRole('admin'), validateParams(complianceRuleParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const rule = await complianceRules.getById(parseInt(req.params.ruleId));
+    if (!rule) {
+      return res.status(404).json({ error: 'Compliance rule not found' });
+    }
+
+    await complianceRules.delete(rule.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete compliance rule error:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete compliance rule' });
+  }
+});
+
+// ===== 项目检查结果 =====
+
+// 按当前规则重新检查项目的全部段落（脚本生成和段落修改后会自动检查）
+router.post('/projects/:projectId/check', authenticateToken, validateParams(projectIdParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const issues = await checkCompliance(access.project, await sections.listByProject(projectId));
+    res.json({ summary: summarizeIssues(issues), blockDownload: COMPLIANCE_BLOCK_DOWNLOAD, issues });
+  } catch (error: any) {
+    console.error('Check compliance error:', error);
+    res.status(500).json({ error: error.message || 'Failed to check compliance' });
+  }
+});
+
+// 获取项目的检查结果
+router.get('/projects/:projectId', authenticateToken, validateParams(projectIdParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+
+    // 验证项目访问权限
+    if (!(await authorizeProject(projectId, req.user.id, 'view'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const issues = await complianceIssues.listByProject(projectId);
+    res.json({ summary: summarizeIssues(issues), blockDownload: COMPLIANCE_BLOCK_DOWNLOAD, issues });
+  } catch (error: any) {
+    console.error('Get compliance issues error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get compliance issues' });
+  }
+});
+
+// 确认违规（如已取得相关资质），确认后不再阻止下载
+router.post('/issues/:issueId/acknowledge', authenticateToken, validateParams(complianceIssueParams), validateBody(acknowledgeIssueSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const issue = await complianceIssues.getById(parseInt(req.params.issueId));
+    if (!issue || !(await authorizeProject(issue.projectId, req.user.id, 'edit'))) {
+      return res.status(404).json({ error: 'Compliance issue not found' });
+    }
+
+    const { note } = req.body as AcknowledgeIssueBody;
+    res.json(await complianceIssues.acknowledge(issue.id, { userId: req.user.id, note }));
+  } catch (error: any) {
+    console.error('Acknowledge compliance issue error:', error);
+    res.status(500).json({ error: error.message || 'Failed to acknowledge compliance issue' });
+  }
+});
+
+// 取消确认
+router.delete('/issues/:issueId/acknowledge', authenticateToken, validateParams(complianceIssueParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const issue = await complianceIssues.getById(parseInt(req.params.issueId));
+    if (!issue || !(await authorizeProject(issue.projectId, req.user.id, 'edit'))) {
+      return res.status(404).json({ error: 'Compliance issue not found' });
+    }
+
+    res.json(await complianceIssues.acknowledge(issue.id, null));
+  } catch (error: any) {
+    console.error('Unacknowledge compliance issue error:', error);
+    res.status(500).json({ error: error.message || 'Failed to unacknowledge compliance issue' });
+  }
+});
+
+export default router;
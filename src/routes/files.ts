@@ -0,0 +1,53 @@
+import express, { Router, Request, Response } from 'express';
+import { storage, STORAGE_SIGNING_SECRET } from '../utils/d1Client.js';
+import { verifySignedKey } from '../utils/storage/localStorage.js';
+import { DIRECT_UPLOAD_PART_SIZE } from '../utils/directUpload.js';
+
+const router = Router();
+
+// 本地存储文件访问（需签名且未过期）
+router.get('/*key', async (req: Request, res: Response) => {
+  try {
+    const key = (req.params.key as unknown as string[]).join('/');
+    const expires = parseInt(String(req.query.expires || ''));
+    const signature = String(req.query.signature || '');
+
+    if (!verifySignedKey(STORAGE_SIGNING_SECRET, key, expires, signature)) {
+      return res.status(403).json({ error: 'Invalid or expired signature' });
+    }
+
+    const object = await storage.get(key);
+    if (!object) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    res.setHeader('Content-Type', object.contentType);
+    res.setHeader('Cache-Control', `private, max-age=${Math.max(0, expires - Math.floor(Date.now() / 1000))}`);
+    res.send(object.body);
+  } catch (error: any) {
+    console.error('Get file error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get file' });
+  }
+});
+
+// 本地存储直传（需 PUT 签名且未过期），超过分片大小的文件由客户端分片上传
+router.put('/*key', express.raw({ type: () => true, limit: DIRECT_UPLOAD_PART_SIZE }), async (req: Request, res: Response) => {
+  try {
+    const key = (req.params.key as unknown as string[]).join('/');
+    const expires = parseInt(String(req.query.expires || ''));
+    const signature = String(req.query.signature || '');
+
+    if (!verifySignedKey(STORAGE_SIGNING_SECRET, key, expires, signature, 'PUT')) {
+      return res.status(403).json({ error: 'Invalid or expired signature' });
+    }
+
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    await storage.upload(key, body, req.get('content-type') || 'application/octet-stream');
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Put file error:', error);
+    res.status(500).json({ error: error.message || 'Failed to store file' });
+  }
+});
+
+export default router;
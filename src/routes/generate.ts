@@ -1,245 +1,549 @@
 import { Router, Response } from 'express';
-import OpenAI from 'openai';
 import archiver from 'archiver';
-import { projects, sections, images, storage } from '../utils/d1Client.js';
+import sharp from 'sharp';
+import { projects, images, storage, complianceIssues, storeSupports } from '../utils/d1Client.js';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { requireStoreFeature } from '../middleware/storeFeature.js';
+import { overlayTemplates, resolveTemplate, mergeOverrides, compositeSectionText } from '../utils/textOverlay.js';
+import { loadProjectBrandKit, brandOverlayOverrides, placeLogo } from '../utils/brandKit.js';
+import { exportPresets, renderForPreset, describePreset } from '../utils/exportPresets.js';
+import { stitchLongImage, renderPreviewHtml, LongImage, LongImageOptions } from '../utils/longImage.js';
+import { jobQueue, Job, JobQueue } from '../utils/jobQueue.js';
+import { authorizeProject, authorizeImage } from '../utils/permissions.js';
+import { checkQuota, recordUsage, sendQuotaExceeded, UsageContext } from '../utils/usage.js';
+import { resolvePromptTemplate, renderPrompt, imagePromptValues, ResolvedPrompt, RenderedPrompt } from '../utils/promptTemplates.js';
+import { loadLocalizedSections, imageLocaleOf } from '../utils/locales.js';
+import { blockingIssues, COMPLIANCE_BLOCK_DOWNLOAD } from '../utils/compliance.js';
+import { generateImage } from '../utils/aiClient.js';
+import { withImageUrls } from '../utils/imageUpload.js';
+import { projectIdParams } from '../schemas/common.js';
+import { imageParams } from '../schemas/images.js';
+import {
+  jobParams,
+  candidatesQuery,
+  generateImagesSchema,
+  regenerateImageSchema,
+  compositeSchema,
+  downloadQuery,
+  longImageSchema,
+  GenerateImagesBody,
+  CandidatesQuery,
+  RegenerateImageBody,
+  CompositeBody,
+  DownloadQuery,
+  LongImageBody,
+} from '../schemas/generate.js';
+import type { Project, Section, Image, ImageType, ImageWithUrl, PromptRef, BrandKit, LogoPlacement } from '../types/models.js';
 
 const router = Router();
 
-// 配置 OpenAI 客户端使用 VectorEngine AI 服务
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  baseURL: process.env.OPENAI_BASE_URL || 'https://api.vectorengine.ai/v1',
-});
+// 批量生成任务类型
+const IMAGE_JOB_TYPE = 'generate_images';
+// 正在创建批量生成任务的项目（已通过检查、尚未入队）
+const startingImageJobs = new Set<number>();
+
+// 单次生成最多附带的产品参考图数量
+const MAX_REFERENCE_IMAGES = parseInt(process.env.MAX_REFERENCE_IMAGES || '4');
+// 参考图发送前缩放到的最长边
+const REFERENCE_IMAGE_SIZE = 1024;
+
+// 发送给模型的产品参考图
+interface ReferenceImage {
+  id: number;
+  buffer: Buffer;
+  dataUrl: string;
+}
 
-// 图片生成模型配置
-const IMAGE_MODEL = process.env.IMAGE_MODEL || 'gemini-2.5-flash-image';
+// 生成结果、实际生效的参考图及所用的提示词模板
+interface GeneratedImage {
+  buffer: Buffer;
+  referenceImageIds: number[];
+  prompt: PromptRef;
+}
 
-// 使用 Gemini 模型生成图片
-async function generateImageWithGemini(prompt: string): Promise<Buffer | null> {
-  try {
-    // 使用 chat completions API 来生成图片（Gemini 图片生成方式）
-    const response = await openai.chat.completions.create({
-      model: IMAGE_MODEL,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      // @ts-ignore - Gemini 特有参数
-      response_modalities: ['TEXT', 'IMAGE'],
-    });
+// 挑选参考图：未指定时使用项目的全部产品图，指定 ID 必须是本项目的产品图
+function pickReferenceImages(projectImages: Image[], ids?: number[]): { picked: Image[]; invalid: number[] } {
+  const productImages = projectImages.filter((img) => img.type === 'product_input');
+  if (!ids) {
+    return { picked: productImages.slice(0, MAX_REFERENCE_IMAGES), invalid: [] };
+  }
 
-    // 检查响应中是否有图片数据
-    const message = response.choices[0]?.message;
-    if (message && 'content' in message) {
-      const content = message.content;
-      // 如果返回的是 base64 图片数据
-      if (typeof content === 'string' && content.includes('base64')) {
-        const base64Match = content.match(/data:image\/[^;]+;base64,([^"]+)/);
-        if (base64Match) {
-          return Buffer.from(base64Match[1], 'base64');
-        }
+  const invalid = ids.filter((id) => !productImages.some((img) => img.id === id));
+  return { picked: productImages.filter((img) => ids.includes(img.id)), invalid };
+}
+
+// 读取参考图并统一缩放为 JPEG，读取失败的参考图跳过
+async function loadReferenceImages(referenceImages: Image[]): Promise<ReferenceImage[]> {
+  const loaded: ReferenceImage[] = [];
+
+  for (const img of referenceImages) {
+    try {
+      const object = await storage.get(img.r2Key);
+      if (!object) {
+        throw new Error(`Object not found: ${img.r2Key}`);
       }
+
+      const buffer = await sharp(object.body)
+        .rotate()
+        .resize(REFERENCE_IMAGE_SIZE, REFERENCE_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 85 })
+        .toBuffer();
+
+      loaded.push({ id: img.id, buffer, dataUrl: `data:image/jpeg;base64,${buffer.toString('base64')}` });
+    } catch (e) {
+      console.error(`Failed to load reference image ${img.id}:`, e);
     }
+  }
+
+  return loaded;
+}
+
+// 按图片模型链生成图片，附带参考图都没有产出时去掉参考图再试，此时结果不记录参考图。
+// 每次服务商正常返回的调用都计入 context 的用量
+async function generateImageWithFallback(context: UsageContext, rendered: RenderedPrompt, references: ReferenceImage[] = []): Promise<GeneratedImage | null> {
+  const { image, calls } = await generateImage({
+    prompt: rendered.prompt,
+    references,
+    referenceNote: '参考图为本产品的实拍图，画面中的产品外观、颜色、材质、结构和标识必须与参考图保持一致，不要虚构产品。',
+  });
+
+  for (const call of calls) {
+    await recordUsage(context, { kind: 'image', model: call.model, usage: call.usage, imageCount: call.imageCount, prompt: rendered.ref });
+  }
+
+  return image && {
+    buffer: image.buffer,
+    referenceImageIds: image.referencesUsed ? references.map((r) => r.id) : [],
+    prompt: rendered.ref,
+  };
+}
 
-    // 尝试使用 images.generate API（兼容 DALL-E 格式）
-    const imageResponse = await openai.images.generate({
-      model: 'gpt-image-1',
-      prompt: prompt,
-      n: 1,
-      size: '1024x1024',
-      response_format: 'b64_json',
+// 生成多张候选图，失败的候选跳过
+async function generateImageVariants(context: UsageContext, rendered: RenderedPrompt, count: number, references: ReferenceImage[]): Promise<GeneratedImage[]> {
+  const results: GeneratedImage[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = await generateImageWithFallback(context, rendered, references);
+    if (result) results.push(result);
+  }
+  return results;
+}
+
+// 上传候选图并保存到对应语言版本，selectFirst 时第一张成为段落的选中图
+async function saveImageVariants(
+  projectId: number,
+  section: Section,
+  locale: string | null,
+  results: GeneratedImage[],
+  selectFirst: boolean,
+  suffix = ''
+): Promise<Image[]> {
+  const saved: Image[] = [];
+
+  for (let i = 0; i < results.length; i++) {
+    const r2Key = `projects/${projectId}/generated/${section.id}${locale ? `_${locale}` : ''}_${Date.now()}_${i + 1}.png`;
+    await storage.upload(r2Key, results[i].buffer, 'image/png');
+
+    const variantSuffix = results.length > 1 ? `_v${i + 1}` : '';
+    const image = await images.create({
+      projectId,
+      sectionId: section.id,
+      type: 'generated_output',
+      r2Key,
+      origFilename: `section_${section.orderIndex + 1}${suffix}${variantSuffix}.png`,
+      referenceImageIds: results[i].referenceImageIds,
+      prompt: results[i].prompt,
+      locale,
     });
+    saved.push(image);
+  }
 
-    if (imageResponse.data?.[0]?.b64_json) {
-      return Buffer.from(imageResponse.data[0].b64_json, 'base64');
-    }
+  if (saved.length > 0 && selectFirst && storeSupports('imageVariants')) {
+    saved[0] = (await images.select(saved[0].id)) || saved[0];
+  }
 
-    return null;
-  } catch (error: any) {
-    console.error('Gemini image generation error:', error.message);
-    
-    // 降级到 gpt-image-1 模型
-    try {
-      const fallbackResponse = await openai.images.generate({
-        model: 'gpt-image-1',
-        prompt: prompt,
-        n: 1,
-        size: '1024x1024',
-        response_format: 'b64_json',
-      });
+  return saved;
+}
+
+// 用项目选用的模板渲染详情图生成提示词，缺少必填变量时报错
+function buildImagePrompt(template: ResolvedPrompt, project: Project, section: Section, brandKit: BrandKit | null): RenderedPrompt {
+  const rendered = renderPrompt(template, imagePromptValues(project, section, brandKit));
+  if (rendered.missing.length > 0) {
+    throw new Error(`Missing prompt variables: ${rendered.missing.join(', ')}`);
+  }
+  return rendered;
+}
+
+// 后台执行批量生成任务，逐段落上报进度
+async function runImageGenerationJob(
+  job: Job,
+  queue: JobQueue,
+  project: Project,
+  projectSections: Section[],
+  locale: string | null,
+  variants: number,
+  referenceImages: Image[]
+) {
+  try {
+    const selected = selectedImageBySection(imagesOfLocale(await images.listByProject(job.projectId), locale));
+    const references = await loadReferenceImages(referenceImages);
+    const template = await resolvePromptTemplate('image', project);
+    const brandKit = await loadProjectBrandKit(project);
+
+    for (const section of projectSections) {
+      queue.updateItem(job.id, section.id, { status: 'generating' });
+
+      try {
+        // 使用 Gemini 生成候选图
+        const rendered = buildImagePrompt(template, project, section, brandKit);
+        const results = await generateImageVariants({ userId: job.userId, projectId: job.projectId }, rendered, variants, references);
+
+        if (results.length === 0) {
+          throw new Error('Model returned no image');
+        }
+
+        // 单张生成时新图直接作为输出；多张候选时仅在段落尚无选中图时预选第一张，其余留待用户挑选
+        const savedImages = await saveImageVariants(job.projectId, section, locale, results, variants === 1 || !selected.has(section.id));
+        const primary = savedImages.find((img) => img.selected) || savedImages[0];
 
-      if (fallbackResponse.data?.[0]?.b64_json) {
-        return Buffer.from(fallbackResponse.data[0].b64_json, 'base64');
+        queue.updateItem(job.id, section.id, {
+          status: 'uploaded',
+          imageId: primary.id,
+          url: await storage.getUrl(primary.r2Key),
+          imageIds: savedImages.map((img) => img.id),
+        });
+      } catch (e: any) {
+        console.error(`Failed to generate image for section ${section.id}:`, e);
+        queue.updateItem(job.id, section.id, { status: 'failed', error: e.message || 'Generation failed' });
+        // 继续处理其他段落
       }
-    } catch (fallbackError: any) {
-      console.error('Fallback image generation error:', fallbackError.message);
     }
+  } finally {
+    // 任务结束或准备阶段出错时都更新项目状态，没有生成任何图片则恢复任务开始前的状态
+    const anyUploaded = job.items.some((item) => item.status === 'uploaded');
+    await projects.update(job.projectId, { status: anyUploaded ? 'generated' : project.status });
+  }
+}
+
+// 某一语言版本的图片，基础语言为 null
+function imagesOfLocale(projectImages: Image[], locale: string | null): Image[] {
+  return projectImages.filter((img) => img.locale === locale);
+}
+
+// 每个段落被选中的生成图；数据后端不支持多版本选择时为最新的生成图
+function selectedImageBySection(projectImages: Image[]): Map<number, Image> {
+  if (!storeSupports('imageVariants')) {
+    return latestImageBySection(projectImages, 'generated_output');
+  }
+
+  const selected = new Map<number, Image>();
+  for (const img of projectImages) {
+    if (img.type === 'generated_output' && img.selected && img.sectionId !== null) {
+      selected.set(img.sectionId, img);
+    }
+  }
+  return selected;
+}
+
+// 每个段落最新的一张指定类型图片
+function latestImageBySection(projectImages: Image[], type: ImageType): Map<number, Image> {
+  const latest = new Map<number, Image>();
+  for (const img of projectImages) {
+    if (img.type !== type || img.sectionId === null) continue;
+    const current = latest.get(img.sectionId);
+    if (!current || img.id > current.id) {
+      latest.set(img.sectionId, img);
+    }
+  }
+  return latest;
+}
 
-    return null;
+// 最终输出图：被选中的生成图，选择合成图时以合成图替换对应段落的背景图
+function selectOutputImages(projectImages: Image[], variant: 'background' | 'composited'): Image[] {
+  const generatedImages = storeSupports('imageVariants')
+    ? projectImages.filter((img) => img.type === 'generated_output' && img.selected)
+    : [...selectedImageBySection(projectImages).values()];
+  if (variant !== 'composited') {
+    return generatedImages;
   }
+
+  const composited = latestImageBySection(projectImages, 'composited_output');
+  return [
+    ...generatedImages.filter((img) => img.sectionId === null || !composited.has(img.sectionId)),
+    ...composited.values(),
+  ];
+}
+
+// 按段落顺序拼接输出图，没有可用图片时返回 null
+async function buildLongImage(outputImages: Image[], projectSections: Section[], options: LongImageOptions): Promise<LongImage | null> {
+  const buffers: Buffer[] = [];
+
+  for (const { image } of orderImagesBySection(outputImages, projectSections)) {
+    const object = await storage.get(image.r2Key);
+    if (!object) {
+      console.error(`Long image: object not found: ${image.r2Key}`);
+      continue;
+    }
+    buffers.push(object.body);
+  }
+
+  return buffers.length > 0 ? stitchLongImage(buffers, options) : null;
+}
+
+const longImageSliceName = (longImage: LongImage, index: number) =>
+  `detail_long_${String(index + 1).padStart(2, '0')}.${longImage.extension}`;
+
+// 按段落顺序排列生成图并分配压缩包文件名：detail_<段落序号>.png，
+// 同一段落有多张时追加 _2、_3，未关联段落的图片排在最后
+function orderImagesBySection(generatedImages: Image[], projectSections: Section[]): Array<{ image: Image; name: string }> {
+  const positions = new Map(projectSections.map((section, index) => [section.id, index]));
+  const positionOf = (img: Image) => (img.sectionId !== null && positions.has(img.sectionId) ? positions.get(img.sectionId)! : Infinity);
+
+  const sorted = [...generatedImages].sort((a, b) => positionOf(a) - positionOf(b) || a.id - b.id);
+  const counts = new Map<number, number>();
+  let extra = 0;
+
+  return sorted.map((image) => {
+    const position = positionOf(image);
+    if (position === Infinity) {
+      return { image, name: `detail_extra_${++extra}.png` };
+    }
+
+    const count = (counts.get(position) || 0) + 1;
+    counts.set(position, count);
+    return { image, name: count === 1 ? `detail_${position + 1}.png` : `detail_${position + 1}_${count}.png` };
+  });
 }
 
-// 批量生成详情图
-router.post('/:projectId/images', authenticateToken, async (req: AuthRequest, res: Response) => {
+// 批量生成详情图（提交后台任务）
+router.post('/:projectId/images', authenticateToken, idempotency, validateParams(projectIdParams), validateBody(generateImagesSchema), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const projectId = parseInt(req.params.projectId);
+    const { sectionIds, variants, referenceImageIds, locale } = req.body as GenerateImagesBody;
 
-    // 验证项目所有权
-    const project = await projects.getById(projectId);
-    if (!project || project.user_id !== req.user.id) {
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
       return res.status(403).json({ error: 'Access denied' });
     }
+    const { project } = access;
 
-    // 更新项目状态
-    await projects.update(projectId, { status: 'generating' });
-
-    // 获取脚本段落
-    const projectSections = await sections.listByProject(projectId);
-
-    if (projectSections.length === 0) {
-      return res.status(400).json({ error: 'No script sections found. Please generate script first.' });
+    // 同一项目同时只允许一个生成任务
+    const activeJob = jobQueue.findActive(projectId, IMAGE_JOB_TYPE);
+    if (activeJob) {
+      return res.status(409).json({ error: 'Image generation already in progress', jobId: activeJob.id });
     }
+    // 任务入队前还有多次 await，先占住该项目，避免并发请求都通过上面的检查
+    if (startingImageJobs.has(projectId)) {
+      return res.status(409).json({ error: 'Image generation already in progress' });
+    }
+    startingImageJobs.add(projectId);
 
-    const generatedImages = [];
+    try {
+      // 获取脚本段落，其他语言版本使用译文
+      const imageLocale = imageLocaleOf(project, locale);
+      const { sections: allSections, missing } = await loadLocalizedSections(project, imageLocale);
+      const projectSections = sectionIds ? allSections.filter((s) => sectionIds.includes(s.id)) : allSections;
+
+      const untranslated = sectionIds ? missing.filter((id) => sectionIds.includes(id)) : missing;
+      if (untranslated.length > 0) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: [{ field: 'locale', message: `Sections not translated to ${imageLocale}: ${untranslated.join(', ')}` }],
+        });
+      }
 
-    // 为每个段落生成图片
-    for (const section of projectSections) {
-      try {
-        // 构建图像生成提示词
-        const imagePrompt = `电商产品详情页设计图，专业商业摄影风格。
-产品：${project.product_name}
-主题：${section.title}
-副标题：${section.subtitle || ''}
-视觉要求：${section.visual_guide || '现代简约风格，高端质感'}
-
-要求：
-- 专业的电商详情页布局
-- 清晰的产品展示区域
-- 预留文字排版空间
-- 高品质商业摄影风格
-- 背景干净，突出产品`;
-
-        // 使用 Gemini 生成图片
-        const imageBuffer = await generateImageWithGemini(imagePrompt);
-
-        if (imageBuffer) {
-          const r2Key = `projects/${projectId}/generated/${section.id}_${Date.now()}.png`;
-          await storage.upload(r2Key, imageBuffer, 'image/png');
-
-          // 保存图片记录
-          const savedImage = await images.create({
-            projectId,
-            sectionId: section.id,
-            type: 'generated_output',
-            r2Key,
-            origFilename: `section_${section.order_index + 1}.png`,
-          });
+      if (projectSections.length === 0) {
+        return res.status(400).json({ error: 'No script sections found. Please generate script first.' });
+      }
 
-          generatedImages.push({
-            ...savedImage,
-            url: storage.getUrl(r2Key),
-            section,
-          });
-        }
-      } catch (e: any) {
-        console.error(`Failed to generate image for section ${section.id}:`, e);
-        // 继续处理其他段落
+      // 产品参考图
+      const { picked: referenceImages, invalid } = pickReferenceImages(await images.listByProject(projectId), referenceImageIds);
+      if (invalid.length > 0) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: [{ field: 'referenceImageIds', message: `Not product images of this project: ${invalid.join(', ')}` }],
+        });
       }
-    }
 
-    // 更新项目状态
-    await projects.update(projectId, { status: 'generated' });
+      // 检查 AI 用量额度，图片额度需足够全部段落的候选图
+      const exceeded = await checkQuota(req.user.id, { images: projectSections.length * variants });
+      if (exceeded) {
+        return sendQuotaExceeded(res, exceeded);
+      }
 
-    res.json({
-      success: true,
-      images: generatedImages,
-    });
+      // 更新项目状态
+      await projects.update(projectId, { status: 'generating' });
+
+      const job = jobQueue.enqueue(
+        {
+          type: IMAGE_JOB_TYPE,
+          projectId,
+          userId: req.user.id,
+          items: projectSections.map((section) => ({
+            sectionId: section.id,
+            orderIndex: section.orderIndex,
+            title: section.title,
+          })),
+        },
+        (job, queue) => runImageGenerationJob(job, queue, project, projectSections, imageLocale, variants, referenceImages)
+      );
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        job,
+      });
+    } finally {
+      startingImageJobs.delete(projectId);
+    }
   } catch (error: any) {
+    // 项目状态在任务入队前才更新，出错时仍是原来的状态
     console.error('Generate images error:', error);
-    // 恢复项目状态
-    try {
-      await projects.update(parseInt(req.params.projectId), { status: 'scripted' });
-    } catch (e) {}
     res.status(500).json({ error: error.message || 'Failed to generate images' });
   }
 });
 
-// 重新生成单张图片
-router.post('/regenerate/:imageId', authenticateToken, async (req: AuthRequest, res: Response) => {
+// 查询生成任务状态
+router.get('/jobs/:jobId', authenticateToken, validateParams(jobParams), async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  const job = jobQueue.get(req.params.jobId);
+  if (!job || !(await authorizeProject(job.projectId, req.user.id, 'view'))) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json(job);
+});
+
+// 订阅生成任务进度（Server-Sent Events）
+router.get('/jobs/:jobId/events', authenticateToken, validateParams(jobParams), async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  const job = jobQueue.get(req.params.jobId);
+  if (!job || !(await authorizeProject(job.projectId, req.user.id, 'view'))) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // 先推送当前快照，便于断线重连
+  send('snapshot', job);
+  if (job.status === 'completed' || job.status === 'failed') {
+    send('done', job);
+    return res.end();
+  }
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  const unsubscribe = jobQueue.subscribe(job.id, (event) => {
+    if (event.type === 'item') {
+      send('section', event.item);
+      return;
+    }
+
+    send('status', event.job);
+    if (event.job.status === 'completed' || event.job.status === 'failed') {
+      send('done', event.job);
+      cleanup();
+      res.end();
+    }
+  });
+
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  req.on('close', cleanup);
+});
+
+// 重新生成单张图片，新图作为候选保留，旧图不会被删除
+router.post('/regenerate/:imageId', authenticateToken, requireStoreFeature('imageVariants'), idempotency, validateParams(imageParams), validateBody(regenerateImageSchema), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const imageId = parseInt(req.params.imageId);
-    const { instruction, target } = req.body; // target: 'background' | 'full'
+    const { instruction, target, variants, referenceImageIds } = req.body as RegenerateImageBody;
 
-    // 获取图片信息
-    // 这里简化处理，实际需要先获取图片关联的项目和段落信息
-    const { projectId, sectionId } = req.body;
-
-    const project = await projects.getById(projectId);
-    if (!project || project.user_id !== req.user.id) {
+    const access = await authorizeImage(imageId, req.user.id, 'edit');
+    if (!access) {
       return res.status(403).json({ error: 'Access denied' });
     }
+    const { image, project } = access;
 
-    const projectSections = await sections.listByProject(projectId);
-    const section = projectSections.find((s: any) => s.id === sectionId);
-
+    // 沿用原图的语言版本
+    const { sections: localizedSections } = await loadLocalizedSections(project, image.locale);
+    const section = localizedSections.find((s) => s.id === image.sectionId);
     if (!section) {
-      return res.status(404).json({ error: 'Section not found' });
+      return res.status(404).json({ error: image.locale ? `Section not translated to ${image.locale}` : 'Section not found' });
     }
 
-    // 构建新的提示词
-    let imagePrompt = `电商产品详情页设计图，专业商业摄影风格。
-产品：${project.product_name}
-主题：${section.title}
-副标题：${section.subtitle || ''}
-视觉要求：${section.visual_guide || '现代简约风格，高端质感'}`;
+    const projectImages = await images.listByProject(project.id);
+
+    // 产品参考图
+    const { picked: referenceImages, invalid } = pickReferenceImages(projectImages, referenceImageIds);
+    if (invalid.length > 0) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ field: 'referenceImageIds', message: `Not product images of this project: ${invalid.join(', ')}` }],
+      });
+    }
+
+    const exceeded = await checkQuota(req.user.id, { images: variants });
+    if (exceeded) {
+      return sendQuotaExceeded(res, exceeded);
+    }
 
-    if (instruction) {
-      imagePrompt += `\n\n特别要求：${instruction}`;
+    // 构建新的提示词
+    const rendered = renderPrompt(
+      await resolvePromptTemplate('image', project),
+      imagePromptValues(project, section, await loadProjectBrandKit(project), instruction)
+    );
+    if (rendered.missing.length > 0) {
+      return res.status(400).json({ error: 'Missing prompt variables', missing: rendered.missing });
     }
 
     if (target === 'background') {
-      imagePrompt += '\n\n重点：生成不同的背景风格，保持产品展示区域一致';
+      rendered.prompt += '\n\n重点：生成不同的背景风格，保持产品展示区域一致';
     }
 
-    // 使用 Gemini 生成新图片
-    const imageBuffer = await generateImageWithGemini(imagePrompt);
+    // 使用 Gemini 生成新的候选图
+    const results = await generateImageVariants({ userId: req.user.id, projectId: project.id }, rendered, variants, await loadReferenceImages(referenceImages));
 
-    if (!imageBuffer) {
+    if (results.length === 0) {
       return res.status(500).json({ error: 'Failed to generate image' });
     }
 
-    const r2Key = `projects/${projectId}/generated/${sectionId}_${Date.now()}.png`;
-    await storage.upload(r2Key, imageBuffer, 'image/png');
+    // 单张重新生成选中图时沿用旧版行为，新图接替原图成为选中图
+    const hasSelected = selectedImageBySection(imagesOfLocale(projectImages, image.locale)).has(section.id);
+    const savedImages = await saveImageVariants(project.id, section, image.locale, results, !hasSelected || (variants === 1 && image.selected), '_regenerated');
 
-    // 删除旧图片
-    await images.delete(imageId);
-
-    // 保存新图片记录
-    const savedImage = await images.create({
-      projectId,
-      sectionId,
-      type: 'generated_output',
-      r2Key,
-      origFilename: `section_${section.order_index + 1}_regenerated.png`,
-    });
+    const imagesWithUrls: ImageWithUrl[] = await Promise.all(savedImages.map(withImageUrls));
 
     res.json({
       success: true,
-      image: {
-        ...savedImage,
-        url: storage.getUrl(r2Key),
-      },
+      image: imagesWithUrls[0],
+      images: imagesWithUrls,
     });
   } catch (error: any) {
     console.error('Regenerate image error:', error);
@@ -247,59 +551,316 @@ router.post('/regenerate/:imageId', authenticateToken, async (req: AuthRequest,
   }
 });
 
+// 按段落列出某一语言版本的所有候选图
+router.get('/:projectId/candidates', authenticateToken, validateParams(projectIdParams), validateQuery(candidatesQuery), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+    const { locale } = candidatesQuery.parse(req.query) as CandidatesQuery;
+
+    // 验证项目访问权限
+    const access = await authorizeProject(projectId, req.user.id, 'view');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    const imageLocale = imageLocaleOf(access.project, locale);
+
+    const [{ sections: projectSections }, projectImages] = await Promise.all([
+      loadLocalizedSections(access.project, imageLocale),
+      images.listByProject(projectId),
+    ]);
+    const generatedImages = imagesOfLocale(projectImages, imageLocale).filter((img) => img.type === 'generated_output');
+
+    const result = await Promise.all(projectSections.map(async (section) => {
+      const candidates = generatedImages.filter((img) => img.sectionId === section.id);
+      return {
+        sectionId: section.id,
+        orderIndex: section.orderIndex,
+        title: section.title,
+        selectedImageId: candidates.find((img) => img.selected)?.id ?? null,
+        candidates: await Promise.all(candidates.map(withImageUrls)),
+      };
+    }));
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Get candidates error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get candidates' });
+  }
+});
+
+// 获取可用的文字排版模板
+router.get('/overlay-templates', authenticateToken, async (req: AuthRequest, res: Response) => {
+  res.json(Object.values(overlayTemplates));
+});
+
+// 获取可用的平台导出预设
+router.get('/export-presets', authenticateToken, async (req: AuthRequest, res: Response) => {
+  res.json(Object.values(exportPresets).map(describePreset));
+});
+
+// 将段落文案合成到背景图上，生成独立的合成图
+router.post('/:projectId/composite', authenticateToken, idempotency, validateParams(projectIdParams), validateBody(compositeSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+    const { sectionIds, template: templateName, overrides, logo, locale } = req.body as CompositeBody;
+
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    const imageLocale = imageLocaleOf(access.project, locale);
+    const brandKit = await loadProjectBrandKit(access.project);
+
+    // 品牌字体和配色覆盖模板默认值，用户传入的覆盖项优先
+    let template;
+    try {
+      template = resolveTemplate(templateName, mergeOverrides(brandOverlayOverrides(brandKit, resolveTemplate(templateName)), overrides));
+    } catch (e: any) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ field: 'template', message: e.message }],
+      });
+    }
+
+    // 要叠加的 Logo
+    let brandLogo: { buffer: Buffer; placement: LogoPlacement } | null = null;
+    if (logo && !brandKit?.logoR2Key) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ field: 'logo', message: 'The project brand kit has no logo' }],
+      });
+    }
+    if (logo !== false && brandKit?.logoR2Key) {
+      const object = await storage.get(brandKit.logoR2Key);
+      if (!object) {
+        return res.status(500).json({ error: `Object not found: ${brandKit.logoR2Key}` });
+      }
+      brandLogo = { buffer: object.body, placement: { ...brandKit.logoPlacement, ...(typeof logo === 'object' && logo) } };
+    }
+
+    // 合成该语言版本的文案，只使用同语言的背景图
+    const [{ sections: projectSections }, allImages] = await Promise.all([
+      loadLocalizedSections(access.project, imageLocale),
+      images.listByProject(projectId),
+    ]);
+    const projectImages = imagesOfLocale(allImages, imageLocale);
+    const backgrounds = selectedImageBySection(projectImages);
+    const targets = projectSections.filter((s) => (sectionIds ? sectionIds.includes(s.id) : backgrounds.has(s.id)));
+
+    if (targets.length === 0) {
+      return res.status(400).json({ error: 'No generated images found. Please generate images first.' });
+    }
+
+    const composited: ImageWithUrl[] = [];
+    const failed: Array<{ sectionId: number; error: string }> = [];
+
+    for (const section of targets) {
+      try {
+        const background = backgrounds.get(section.id);
+        if (!background) {
+          throw new Error('No selected image for this section');
+        }
+
+        const object = await storage.get(background.r2Key);
+        if (!object) {
+          throw new Error(`Object not found: ${background.r2Key}`);
+        }
+
+        let buffer = await compositeSectionText(object.body, section, template);
+        if (brandLogo) {
+          buffer = await placeLogo(buffer, brandLogo.buffer, brandLogo.placement);
+        }
+        const r2Key = `projects/${projectId}/composited/${section.id}${imageLocale ? `_${imageLocale}` : ''}_${Date.now()}.png`;
+        await storage.upload(r2Key, buffer, 'image/png');
+
+        // 替换该段落之前的合成图，背景图保持不变
+        for (const old of projectImages.filter((img) => img.type === 'composited_output' && img.sectionId === section.id)) {
+          await storage.delete(old.r2Key).catch((e) => console.error(`Failed to delete object ${old.r2Key}:`, e));
+          await images.delete(old.id);
+        }
+
+        const savedImage = await images.create({
+          projectId,
+          sectionId: section.id,
+          type: 'composited_output',
+          r2Key,
+          origFilename: `section_${section.orderIndex + 1}_text.png`,
+          locale: imageLocale,
+        });
+
+        composited.push(await withImageUrls(savedImage));
+      } catch (e: any) {
+        console.error(`Failed to composite section ${section.id}:`, e);
+        failed.push({ sectionId: section.id, error: e.message || 'Composite failed' });
+      }
+    }
+
+    res.json({
+      success: failed.length === 0,
+      template: template.name,
+      brandKitId: brandKit?.id ?? null,
+      logo: brandLogo !== null,
+      images: composited,
+      failed,
+    });
+  } catch (error: any) {
+    console.error('Composite error:', error);
+    res.status(500).json({ error: error.message || 'Failed to composite images' });
+  }
+});
+
+// 拼接详情页长图及 HTML 预览页，保存为项目输出（替换之前的结果）
+router.post('/:projectId/long-image', authenticateToken, idempotency, validateParams(projectIdParams), validateBody(longImageSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+    const { variant, locale, ...options } = req.body as LongImageBody;
+
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    const { project } = access;
+    const imageLocale = imageLocaleOf(project, locale);
+
+    const [{ sections: projectSections }, allImages] = await Promise.all([
+      loadLocalizedSections(project, imageLocale),
+      images.listByProject(projectId),
+    ]);
+    const projectImages = imagesOfLocale(allImages, imageLocale);
+
+    const longImage = await buildLongImage(selectOutputImages(projectImages, variant), projectSections, options);
+    if (!longImage) {
+      return res.status(400).json({ error: 'No generated images found' });
+    }
+
+    // 删除该语言版本之前的长图和预览页
+    for (const old of projectImages.filter((img) => img.type === 'long_image_output' || img.type === 'preview_output')) {
+      await storage.delete(old.r2Key).catch((e) => console.error(`Failed to delete object ${old.r2Key}:`, e));
+      await images.delete(old.id);
+    }
+
+    const timestamp = Date.now();
+    const slices: ImageWithUrl[] = [];
+
+    for (const [index, slice] of longImage.slices.entries()) {
+      const origFilename = longImageSliceName(longImage, index);
+      const r2Key = `projects/${projectId}/long/${timestamp}${imageLocale ? `_${imageLocale}` : ''}_${origFilename}`;
+      await storage.upload(r2Key, slice.buffer, longImage.contentType);
+
+      const savedImage = await images.create({ projectId, type: 'long_image_output', r2Key, origFilename, locale: imageLocale });
+      slices.push(await withImageUrls(savedImage));
+    }
+
+    const previewKey = `projects/${projectId}/long/${timestamp}${imageLocale ? `_${imageLocale}` : ''}_preview.html`;
+    await storage.upload(previewKey, Buffer.from(renderPreviewHtml(project.productName, longImage)), 'text/html; charset=utf-8');
+    const preview = await images.create({ projectId, type: 'preview_output', r2Key: previewKey, origFilename: 'preview.html', locale: imageLocale });
+
+    res.status(201).json({
+      width: longImage.width,
+      height: longImage.height,
+      slices,
+      preview: await withImageUrls(preview),
+    });
+  } catch (error: any) {
+    console.error('Long image error:', error);
+    res.status(500).json({ error: error.message || 'Failed to create long image' });
+  }
+});
+
 // 打包下载所有详情图
-router.get('/:projectId/download', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.get('/:projectId/download', authenticateToken, validateParams(projectIdParams), validateQuery(downloadQuery), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const projectId = parseInt(req.params.projectId);
+    const { variant, presets, longImage: includeLongImage, locale } = downloadQuery.parse(req.query) as DownloadQuery;
 
-    // 验证项目所有权
-    const project = await projects.getById(projectId);
-    if (!project || project.user_id !== req.user.id) {
+    // 验证项目访问权限
+    const access = await authorizeProject(projectId, req.user.id, 'view');
+    if (!access) {
       return res.status(403).json({ error: 'Access denied' });
     }
+    const { project } = access;
+    const imageLocale = imageLocaleOf(project, locale);
+
+    // 存在未处理的广告法违规时不允许下载，需修改文案或逐条确认
+    if (COMPLIANCE_BLOCK_DOWNLOAD && storeSupports('compliance')) {
+      const blocking = blockingIssues(await complianceIssues.listByProject(projectId));
+      if (blocking.length > 0) {
+        return res.status(409).json({
+          error: 'Compliance violations must be resolved or acknowledged before download',
+          code: 'compliance_violations',
+          issues: blocking,
+        });
+      }
+    }
 
-    // 获取所有生成的图片
-    const projectImages = await images.listByProject(projectId);
-    const generatedImages = projectImages.filter((img: any) => img.type === 'generated_output');
+    // 只打包该语言版本被选中的生成图
+    const projectImages = imagesOfLocale(await images.listByProject(projectId), imageLocale);
+    const generatedImages = selectOutputImages(projectImages, variant);
 
     if (generatedImages.length === 0) {
       return res.status(400).json({ error: 'No generated images found' });
     }
 
-    // 设置响应头
-    res.setHeader('Content-Type', 'application/zip');
-    res.setHeader('Content-Disposition', `attachment; filename="${project.product_name}_details.zip"`);
+    // 设置响应头；商品名可能含中文，由 res.attachment 编码文件名并按扩展名设置 Content-Type
+    res.attachment(`${project.productName}${imageLocale ? `_${imageLocale}` : ''}_details.zip`);
 
     // 创建 ZIP 压缩流
     const archive = archiver('zip', { zlib: { level: 9 } });
     archive.pipe(res);
 
-    // 添加图片到压缩包
-    for (let i = 0; i < generatedImages.length; i++) {
-      const img = generatedImages[i];
-      const imageUrl = storage.getUrl(img.r2_key);
+    // 按段落当前顺序排列图片，文件名与段落序号一致；文案使用该语言版本
+    const { sections: projectSections } = await loadLocalizedSections(project, imageLocale);
+    const archiveEntries = orderImagesBySection(generatedImages, projectSections);
 
+    // 添加图片到压缩包；指定预设时每个预设一个目录，按平台规格转换后命名
+    for (const [index, { image: img, name }] of archiveEntries.entries()) {
       try {
-        // 下载图片
-        const response = await fetch(imageUrl);
-        const buffer = Buffer.from(await response.arrayBuffer());
+        // 从存储读取图片
+        const object = await storage.get(img.r2Key);
+        if (!object) {
+          throw new Error(`Object not found: ${img.r2Key}`);
+        }
+
+        if (!presets) {
+          // 添加到压缩包
+          archive.append(object.body, { name });
+          continue;
+        }
 
-        // 添加到压缩包
-        archive.append(buffer, { name: `detail_${i + 1}.png` });
+        for (const presetName of presets) {
+          const exported = await renderForPreset(object.body, exportPresets[presetName], index + 1);
+          if (exported.oversized) {
+            console.warn(`Image ${img.id} exceeds ${presetName} size limit (${exported.buffer.length} bytes)`);
+          }
+          archive.append(exported.buffer, { name: `${presetName}/${exported.fileName}` });
+        }
       } catch (e) {
         console.error(`Failed to add image ${img.id} to archive:`, e);
       }
     }
 
     // 添加脚本文案文件
-    const projectSections = await sections.listByProject(projectId);
-    let scriptContent = `# ${project.product_name} - 详情页文案\n\n`;
+    let scriptContent = `# ${project.productName} - 详情页文案\n\n`;
 
-    projectSections.forEach((section: any, index: number) => {
+    projectSections.forEach((section, index) => {
       scriptContent += `## 第${index + 1}张图\n\n`;
       scriptContent += `**主标题：** ${section.title}\n\n`;
       scriptContent += `**副标题：** ${section.subtitle || ''}\n\n`;
@@ -309,6 +870,21 @@ router.get('/:projectId/download', authenticateToken, async (req: AuthRequest, r
 
     archive.append(scriptContent, { name: 'script.md' });
 
+    // 添加拼接长图切片和预览页
+    if (includeLongImage) {
+      try {
+        const longImage = await buildLongImage(generatedImages, projectSections, longImageSchema.parse({}));
+        if (longImage) {
+          longImage.slices.forEach((slice, index) => {
+            archive.append(slice.buffer, { name: `long/${longImageSliceName(longImage, index)}` });
+          });
+          archive.append(renderPreviewHtml(project.productName, longImage), { name: 'preview.html' });
+        }
+      } catch (e) {
+        console.error('Failed to add long image to archive:', e);
+      }
+    }
+
     // 完成压缩
     await archive.finalize();
 
@@ -1,39 +1,48 @@
 import { Router, Response } from 'express';
 import multer from 'multer';
-import { v4 as uuidv4 } from 'uuid';
-import { images, projects, storage } from '../utils/d1Client.js';
+import { images, storage, directUploads } from '../utils/d1Client.js';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { validateBody, validateParams } from '../middleware/validate.js';
+import { requireStoreFeature } from '../middleware/storeFeature.js';
+import { projectIdParams } from '../schemas/common.js';
+import {
+  imageParams,
+  uploadImagesSchema,
+  directUploadParams,
+  createDirectUploadsSchema,
+  confirmDirectUploadsSchema,
+  UploadImagesBody,
+  CreateDirectUploadsBody,
+  ConfirmDirectUploadsBody,
+} from '../schemas/images.js';
+import { authorizeProject, authorizeImage } from '../utils/permissions.js';
+import { processUpload, saveProcessedUpload, withImageUrls, imageObjectKeys, ImageUploadError, ProcessedUpload } from '../utils/imageUpload.js';
+import { createDirectUpload, describeDirectUpload, processDirectUpload, discardDirectUpload, DirectUploadInstructions } from '../utils/directUpload.js';
+import type { ImageWithUrl } from '../types/models.js';
 
 const router = Router();
 
-// 配置 multer 内存存储
+// 配置 multer 内存存储，文件格式在处理时按文件头识别
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB
   },
-  fileFilter: (req, file, cb) => {
-    if (file.mimetype.startsWith('image/')) {
-      cb(null, true);
-    } else {
-      cb(new Error('Only image files are allowed'));
-    }
-  },
 });
 
-// 上传图片到项目
-router.post('/:projectId/upload', authenticateToken, upload.array('files', 20), async (req: AuthRequest, res: Response) => {
+// 上传图片到项目：去除元数据并统一格式，生成缩略图。
+// 项目中已有内容相同的同类型图片时不重复保存，返回已有图片并标记 duplicate
+router.post('/:projectId/upload', authenticateToken, validateParams(projectIdParams), upload.array('files', 20), validateBody(uploadImagesSchema), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const projectId = parseInt(req.params.projectId);
-    const { type } = req.body; // 'product_input' 或 'competitor_input'
+    const { type } = req.body as UploadImagesBody; // 'product_input' 或 'competitor_input'
 
-    // 验证项目所有权
-    const project = await projects.getById(projectId);
-    if (!project || project.user_id !== req.user.id) {
+    // 验证项目编辑权限
+    if (!(await authorizeProject(projectId, req.user.id, 'edit'))) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -42,28 +51,24 @@ router.post('/:projectId/upload', authenticateToken, upload.array('files', 20),
       return res.status(400).json({ error: 'No files uploaded' });
     }
 
-    const uploadedImages = [];
-
+    // 先处理全部文件，有无效文件时整批拒绝
+    const processed: { file: Express.Multer.File; result: ProcessedUpload }[] = [];
     for (const file of files) {
-      // 生成唯一文件名
-      const ext = file.originalname.split('.').pop() || 'jpg';
-      const r2Key = `projects/${projectId}/${type}/${uuidv4()}.${ext}`;
-
-      // 上传到 R2
-      await storage.upload(r2Key, file.buffer, file.mimetype);
+      try {
+        processed.push({ file, result: await processUpload(file.buffer) });
+      } catch (e) {
+        if (e instanceof ImageUploadError) {
+          return res.status(e.status).json({ error: e.message, filename: file.originalname });
+        }
+        throw e;
+      }
+    }
 
-      // 保存图片记录到数据库
-      const image = await images.create({
-        projectId,
-        type: type || 'product_input',
-        r2Key,
-        origFilename: file.originalname,
-      });
+    const uploadedImages: (ImageWithUrl & { duplicate: boolean })[] = [];
 
-      uploadedImages.push({
-        ...image,
-        url: storage.getUrl(r2Key),
-      });
+    for (const { file, result } of processed) {
+      const { image, duplicate } = await saveProcessedUpload(projectId, type, file.originalname, result);
+      uploadedImages.push({ ...(await withImageUrls(image)), duplicate });
     }
 
     res.status(201).json(uploadedImages);
@@ -74,7 +79,7 @@ router.post('/:projectId/upload', authenticateToken, upload.array('files', 20),
 });
 
 // 获取项目的所有图片
-router.get('/:projectId', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.get('/:projectId', authenticateToken, validateParams(projectIdParams), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -82,19 +87,15 @@ router.get('/:projectId', authenticateToken, async (req: AuthRequest, res: Respo
 
     const projectId = parseInt(req.params.projectId);
 
-    // 验证项目所有权
-    const project = await projects.getById(projectId);
-    if (!project || project.user_id !== req.user.id) {
+    // 验证项目访问权限
+    if (!(await authorizeProject(projectId, req.user.id, 'view'))) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
     const projectImages = await images.listByProject(projectId);
     
-    // 添加完整 URL
-    const imagesWithUrls = projectImages.map((img: any) => ({
-      ...img,
-      url: storage.getUrl(img.r2_key),
-    }));
+    // 添加原图和缩略图 URL
+    const imagesWithUrls: ImageWithUrl[] = await Promise.all(projectImages.map(withImageUrls));
 
     res.json(imagesWithUrls);
   } catch (error: any) {
@@ -103,16 +104,57 @@ router.get('/:projectId', authenticateToken, async (req: AuthRequest, res: Respo
   }
 });
 
-// 删除图片
-router.delete('/:imageId', authenticateToken, async (req: AuthRequest, res: Response) => {
+// 将生成的候选图设为段落的选中图
+router.post('/:imageId/select', authenticateToken, requireStoreFeature('imageVariants'), validateParams(imageParams), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const imageId = parseInt(req.params.imageId);
-    
-    // 这里应该先验证图片所属项目的所有权，简化处理直接删除
+
+    // 验证对图片所属项目的编辑权限
+    const access = await authorizeImage(imageId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    const { image } = access;
+
+    if (image.type !== 'generated_output' || image.sectionId === null) {
+      return res.status(400).json({ error: 'Only generated section images can be selected' });
+    }
+
+    const selected = await images.select(imageId);
+    if (!selected) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    res.json(await withImageUrls(selected));
+  } catch (error: any) {
+    console.error('Select image error:', error);
+    res.status(500).json({ error: error.message || 'Failed to select image' });
+  }
+});
+
+// 删除图片（包括丢弃不需要的候选图）
+router.delete('/:imageId', authenticateToken, requireStoreFeature('imageVariants'), validateParams(imageParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const imageId = parseInt(req.params.imageId);
+
+    // 验证对图片所属项目的编辑权限
+    const access = await authorizeImage(imageId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    const { image } = access;
+
+    for (const key of imageObjectKeys(image)) {
+      await storage.delete(key).catch((e) => console.error(`Failed to delete object ${key}:`, e));
+    }
     await images.delete(imageId);
 
     res.json({ success: true });
@@ -122,4 +164,130 @@ router.delete('/:imageId', authenticateToken, async (req: AuthRequest, res: Resp
   }
 });
 
+// ===== 直传上传 =====
+// 大文件不经过服务端：先申请预签名上传地址，客户端直接上传到存储，再确认登记为图片
+
+// 申请上传地址，超过分片大小的文件使用分片上传
+router.post('/:projectId/uploads', authenticateToken, requireStoreFeature('directUploads'), validateParams(projectIdParams), validateBody(createDirectUploadsSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+    const { type, files } = req.body as CreateDirectUploadsBody;
+
+    // 验证项目编辑权限
+    if (!(await authorizeProject(projectId, req.user.id, 'edit'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!storage.direct) {
+      return res.status(501).json({ error: 'Direct uploads are not supported by the current storage driver' });
+    }
+
+    const uploads: DirectUploadInstructions[] = [];
+    for (const file of files) {
+      uploads.push(await createDirectUpload({ projectId, userId: req.user.id, type, ...file }));
+    }
+
+    res.status(201).json({ uploads });
+  } catch (error: any) {
+    console.error('Create direct upload error:', error);
+    res.status(500).json({ error: error.message || 'Failed to create upload' });
+  }
+});
+
+// 查询上传进度并重新签发地址，用于断点续传或地址过期后继续上传
+router.get('/uploads/:uploadId', authenticateToken, requireStoreFeature('directUploads'), validateParams(directUploadParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const upload = await directUploads.getById(req.params.uploadId);
+    if (!upload || !(await authorizeProject(upload.projectId, req.user.id, 'edit'))) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    res.json(await describeDirectUpload(upload));
+  } catch (error: any) {
+    console.error('Get direct upload error:', error);
+    res.status(error instanceof ImageUploadError ? error.status : 500).json({ error: error.message || 'Failed to get upload' });
+  }
+});
+
+// 确认上传完成：校验对象完整后按普通上传处理（去除元数据、统一格式、去重、缩略图）并登记为图片。
+// 未上传完成的文件保留会话以便继续上传，其余失败的文件丢弃
+router.post('/:projectId/uploads/confirm', authenticateToken, requireStoreFeature('directUploads'), validateParams(projectIdParams), validateBody(confirmDirectUploadsSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+    const { uploadIds } = req.body as ConfirmDirectUploadsBody;
+
+    // 验证项目编辑权限
+    if (!(await authorizeProject(projectId, req.user.id, 'edit'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const confirmed: (ImageWithUrl & { duplicate: boolean; uploadId: string })[] = [];
+    const failed: Array<{ uploadId: string; error: string; retryable: boolean }> = [];
+
+    for (const uploadId of uploadIds) {
+      const upload = await directUploads.getById(uploadId);
+      if (!upload || upload.projectId !== projectId) {
+        failed.push({ uploadId, error: 'Upload not found', retryable: false });
+        continue;
+      }
+
+      try {
+        const result = await processDirectUpload(upload);
+        const { image, duplicate } = await saveProcessedUpload(projectId, upload.type, upload.origFilename, result);
+        await discardDirectUpload(upload);
+        confirmed.push({ ...(await withImageUrls(image)), duplicate, uploadId });
+      } catch (e: any) {
+        const retryable = e instanceof ImageUploadError && e.status === 409;
+        if (e instanceof ImageUploadError && !retryable) {
+          await discardDirectUpload(upload);
+        } else if (!retryable) {
+          console.error(`Failed to confirm direct upload ${uploadId}:`, e);
+        }
+        failed.push({ uploadId, error: e.message || 'Confirm failed', retryable });
+      }
+    }
+
+    res.status(confirmed.length > 0 ? 201 : 200).json({
+      success: failed.length === 0,
+      images: confirmed,
+      failed,
+    });
+  } catch (error: any) {
+    console.error('Confirm direct upload error:', error);
+    res.status(500).json({ error: error.message || 'Failed to confirm uploads' });
+  }
+});
+
+// 取消上传，删除已上传的内容
+router.delete('/uploads/:uploadId', authenticateToken, requireStoreFeature('directUploads'), validateParams(directUploadParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const upload = await directUploads.getById(req.params.uploadId);
+    if (!upload || !(await authorizeProject(upload.projectId, req.user.id, 'edit'))) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    await discardDirectUpload(upload);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete direct upload error:', error);
+    res.status(500).json({ error: error.message || 'Failed to cancel upload' });
+  }
+});
+
 export default router;
@@ -1,17 +1,24 @@
 import { Router, Response } from 'express';
-import { projects, images, sections, competitorText } from '../utils/d1Client.js';
+import { projects, images, sections, competitorText, brandKits, storeSupports } from '../utils/d1Client.js';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { authorizeProject, authorizeWorkspace } from '../utils/permissions.js';
+import { getDefaultWorkspace } from '../utils/workspaces.js';
+import { loadPromptTemplate, PROMPT_KINDS } from '../utils/promptTemplates.js';
+import { withImageUrls } from '../utils/imageUpload.js';
+import { validateBody, validateParams } from '../middleware/validate.js';
+import { projectParams, createProjectSchema, updateProjectSchema, CreateProjectBody, UpdateProjectBody } from '../schemas/projects.js';
+import type { ProjectDetail } from '../types/models.js';
 
 const router = Router();
 
-// 获取用户的所有项目
+// 获取用户可访问的所有项目（所在全部工作区）；数据后端不支持工作区时为用户自己的项目
 router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    const projectList = await projects.list(req.user.id);
+    const projectList = storeSupports('workspaces') ? await projects.listAccessible(req.user.id) : await projects.list(req.user.id);
     res.json(projectList);
   } catch (error: any) {
     console.error('Get projects error:', error);
@@ -20,22 +27,32 @@ router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
 });
 
 // 创建新项目
-router.post('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.post('/', authenticateToken, validateBody(createProjectSchema), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    const { productName, productDesc } = req.body;
+    const { productName, productDesc, category, locale, workspaceId } = req.body as CreateProjectBody;
+    const workspacesSupported = storeSupports('workspaces');
+    if (workspaceId && !workspacesSupported) {
+      return res.status(501).json({ error: 'Workspaces are not available' });
+    }
 
-    if (!productName) {
-      return res.status(400).json({ error: 'Product name is required' });
+    // 指定工作区时需要编辑权限
+    if (workspaceId && !(await authorizeWorkspace(workspaceId, req.user.id, 'edit'))) {
+      return res.status(403).json({ error: 'Access denied' });
     }
 
     const project = await projects.create({
       userId: req.user.id,
+      workspaceId: workspacesSupported
+        ? workspaceId ?? (await getDefaultWorkspace({ id: req.user.id, email: req.user.email, name: req.user.name ?? null })).id
+        : undefined,
       productName,
       productDesc,
+      category,
+      locale,
       status: 'uploaded',
     });
 
@@ -47,23 +64,23 @@ router.post('/', authenticateToken, async (req: AuthRequest, res: Response) => {
 });
 
 // 获取单个项目详情
-router.get('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.get('/:id', authenticateToken, validateParams(projectParams), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const projectId = parseInt(req.params.id);
-    const project = await projects.getById(projectId);
-
-    if (!project) {
+    if (!(await projects.getById(projectId))) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    // 验证项目所有权
-    if (project.user_id !== req.user.id) {
+    // 验证项目访问权限
+    const access = await authorizeProject(projectId, req.user.id, 'view');
+    if (!access) {
       return res.status(403).json({ error: 'Access denied' });
     }
+    const { project, role } = access;
 
     // 获取关联数据
     const [projectImages, projectSections, projectCompetitorText] = await Promise.all([
@@ -72,12 +89,15 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res: Response) =>
       competitorText.listByProject(projectId),
     ]);
 
-    res.json({
+    const detail: ProjectDetail = {
       ...project,
-      images: projectImages,
+      role,
+      images: await Promise.all(projectImages.map(withImageUrls)),
       sections: projectSections,
       competitorText: projectCompetitorText,
-    });
+    };
+
+    res.json(detail);
   } catch (error: any) {
     console.error('Get project error:', error);
     res.status(500).json({ error: error.message || 'Failed to get project' });
@@ -85,25 +105,53 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res: Response) =>
 });
 
 // 更新项目
-router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.put('/:id', authenticateToken, validateParams(projectParams), validateBody(updateProjectSchema), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const projectId = parseInt(req.params.id);
-    const project = await projects.getById(projectId);
-
-    if (!project) {
+    if (!(await projects.getById(projectId))) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    if (project.user_id !== req.user.id) {
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const { productName, productDesc, status } = req.body;
-    const updated = await projects.update(projectId, { productName, productDesc, status });
+    const { productName, productDesc, status, category, promptTemplates, brandKitId } = req.body as UpdateProjectBody;
+
+    if (brandKitId && !storeSupports('brandKits')) {
+      return res.status(501).json({ error: 'Brand kits are not available' });
+    }
+
+    // 品牌套件必须属于项目所在的工作区
+    if (brandKitId) {
+      const brandKit = await brandKits.getById(brandKitId);
+      if (!brandKit || brandKit.workspaceId !== access.project.workspaceId) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: [{ field: 'brandKitId', message: 'Brand kit not found in the project workspace' }],
+        });
+      }
+    }
+
+    // 选用的模板及版本必须存在且用途一致
+    if (promptTemplates) {
+      for (const kind of PROMPT_KINDS) {
+        const selection = promptTemplates[kind];
+        if (selection && !(await loadPromptTemplate(kind, selection.name, selection.version))) {
+          return res.status(400).json({
+            error: 'Validation failed',
+            details: [{ field: `promptTemplates.${kind}`, message: `No ${kind} prompt template ${selection.name}${selection.version ? ` version ${selection.version}` : ''}` }],
+          });
+        }
+      }
+    }
+
+    const updated = await projects.update(projectId, { productName, productDesc, status, category, promptTemplates, brandKitId });
 
     res.json(updated);
   } catch (error: any) {
@@ -113,20 +161,19 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res: Response) =>
 });
 
 // 删除项目
-router.delete('/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.delete('/:id', authenticateToken, validateParams(projectParams), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const projectId = parseInt(req.params.id);
-    const project = await projects.getById(projectId);
-
-    if (!project) {
+    if (!(await projects.getById(projectId))) {
       return res.status(404).json({ error: 'Project not found' });
     }
 
-    if (project.user_id !== req.user.id) {
+    // 删除项目需要工作区 owner 权限
+    if (!(await authorizeProject(projectId, req.user.id, 'manage'))) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -0,0 +1,340 @@
+import { Router, Response } from 'express';
+import { promptTemplates, sections, competitorText, competitorReports } from '../utils/d1Client.js';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { authorizeProject } from '../utils/permissions.js';
+import { loadProjectBrandKit } from '../utils/brandKit.js';
+import { isReportOutdated } from '../utils/competitorAnalysis.js';
+import {
+  builtinPromptTemplates,
+  BUILTIN_PREFIX,
+  PROMPT_VARIABLES,
+  loadPromptTemplate,
+  resolvePromptTemplate,
+  renderPrompt,
+  validatePromptTemplate,
+  scriptPromptValues,
+  sectionPromptValues,
+  ocrPromptValues,
+  imagePromptValues,
+  analysisPromptValues,
+  ResolvedPrompt,
+  PromptValues,
+} from '../utils/promptTemplates.js';
+import {
+  templateNameParams,
+  templateVersionParams,
+  listTemplatesQuery,
+  createTemplateSchema,
+  createTemplateVersionSchema,
+  updateTemplateSchema,
+  previewPromptSchema,
+  ListTemplatesQuery,
+  CreateTemplateBody,
+  CreateTemplateVersionBody,
+  UpdateTemplateBody,
+  PreviewPromptBody,
+} from '../schemas/prompts.js';
+
+const router = Router();
+
+// 内置模板按只读模板的形式返回
+const builtinList = () =>
+  Object.values(builtinPromptTemplates).map((t) => ({
+    name: t.name,
+    kind: t.kind,
+    category: null,
+    description: t.description,
+    latestVersion: t.version,
+    builtin: true,
+  }));
+
+const isBuiltinName = (name: string) => name.startsWith(BUILTIN_PREFIX);
+
+// 模板内容校验失败的统一响应
+const sendInvalidTemplate = (res: Response, errors: string[]) =>
+  res.status(400).json({
+    error: 'Validation failed',
+    details: errors.map((message) => ({ field: 'template', message })),
+  });
+
+// ===== 模板查看 =====
+
+// 模板列表（含内置模板），可按用途和类目筛选
+router.get('/templates', authenticateToken, validateQuery(listTemplatesQuery), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { kind, category } = listTemplatesQuery.parse(req.query) as ListTemplatesQuery;
+    const custom = await promptTemplates.list({ kind, category });
+
+    // 内置模板没有类目，按类目筛选时不返回
+    const builtins = category ? [] : builtinList().filter((t) => !kind || t.kind === kind);
+
+    res.json([...builtins, ...custom.map((t) => ({ ...t, builtin: false }))]);
+  } catch (error: any) {
+    console.error('List prompt templates error:', error);
+    res.status(500).json({ error: error.message || 'Failed to list prompt templates' });
+  }
+});
+
+// 各用途可在模板中使用的变量
+router.get('/variables', authenticateToken, async (req: AuthRequest, res: Response) => {
+  res.json(PROMPT_VARIABLES);
+});
+
+// 模板详情及全部版本
+router.get('/templates/:name', authenticateToken, validateParams(templateNameParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const builtin = builtinList().find((t) => t.name === req.params.name);
+    if (builtin) {
+      const { system, body, variables, version } = builtinPromptTemplates[builtin.kind];
+      return res.json({ ...builtin, versions: [{ version, system, body, variables, note: null }] });
+    }
+
+    const template = await promptTemplates.getByName(req.params.name);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    res.json({ ...template, builtin: false, versions: await promptTemplates.listVersions(template.id) });
+  } catch (error: any) {
+    console.error('Get prompt template error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get prompt template' });
+  }
+});
+
+// 获取模板的指定版本
+router.get('/templates/:name/versions/:version', authenticateToken, validateParams(templateVersionParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const version = parseInt(req.params.version);
+    const builtin = builtinList().find((t) => t.name === req.params.name);
+    if (builtin) {
+      const { system, body, variables } = builtinPromptTemplates[builtin.kind];
+      if (version !== builtin.latestVersion) {
+        return res.status(404).json({ error: 'Version not found' });
+      }
+      return res.json({ version, system, body, variables, note: null });
+    }
+
+    const template = await promptTemplates.getByName(req.params.name);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    const templateVersion = await promptTemplates.getVersion(template.id, version);
+    if (!templateVersion) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json(templateVersion);
+  } catch (error: any) {
+    console.error('Get prompt template version error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get prompt template version' });
+  }
+});
+
+// ===== 模板管理（仅限平台管理员） =====
+
+// 创建模板及其版本 1
+router.post('/templates', authenticateToken, requireRole('admin'), validateBody(createTemplateSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { name, kind, category, description, system, body, variables, note } = req.body as CreateTemplateBody;
+
+    if (isBuiltinName(name)) {
+      return res.status(400).json({ error: `Template names starting with ${BUILTIN_PREFIX} are reserved` });
+    }
+
+    const errors = validatePromptTemplate(kind, { system, body, variables });
+    if (errors.length > 0) {
+      return sendInvalidTemplate(res, errors);
+    }
+
+    if (await promptTemplates.getByName(name)) {
+      return res.status(409).json({ error: 'Prompt template name already exists' });
+    }
+
+    const created = await promptTemplates.create({
+      name,
+      kind,
+      category,
+      description,
+      system,
+      body,
+      variables,
+      note,
+      createdBy: req.user.id,
+    });
+
+    res.status(201).json(created);
+  } catch (error: any) {
+    console.error('Create prompt template error:', error);
+    res.status(500).json({ error: error.message || 'Failed to create prompt template' });
+  }
+});
+
+// 发布新版本，已有版本不可修改
+router.post('/templates/:name/versions', authenticateToken, requireRole('admin'), validateParams(templateNameParams), validateBody(createTemplateVersionSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (isBuiltinName(req.params.name)) {
+      return res.status(400).json({ error: 'Built-in templates cannot be modified' });
+    }
+
+    const template = await promptTemplates.getByName(req.params.name);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    const { system, body, variables, note } = req.body as CreateTemplateVersionBody;
+    const errors = validatePromptTemplate(template.kind, { system, body, variables });
+    if (errors.length > 0) {
+      return sendInvalidTemplate(res, errors);
+    }
+
+    const version = await promptTemplates.createVersion(template.id, { system, body, variables, note, createdBy: req.user.id });
+    res.status(201).json(version);
+  } catch (error: any) {
+    console.error('Create prompt template version error:', error);
+    res.status(500).json({ error: error.message || 'Failed to create prompt template version' });
+  }
+});
+
+// 修改模板的类目和说明
+router.put('/templates/:name', authenticateToken, requireRole('admin'), validateParams(templateNameParams), validateBody(updateTemplateSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (isBuiltinName(req.params.name)) {
+      return res.status(400).json({ error: 'Built-in templates cannot be modified' });
+    }
+
+    const template = await promptTemplates.getByName(req.params.name);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    const { category, description } = req.body as UpdateTemplateBody;
+    res.json(await promptTemplates.update(template.id, { category, description }));
+  } catch (error: any) {
+    console.error('Update prompt template error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update prompt template' });
+  }
+});
+
+// 删除模板及全部版本；选用该模板的项目会退回类目模板或内置模板
+router.delete('/templates/:name', authenticateToken, requireRole('admin'), validateParams(templateNameParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (isBuiltinName(req.params.name)) {
+      return res.status(400).json({ error: 'Built-in templates cannot be deleted' });
+    }
+
+    const template = await promptTemplates.getByName(req.params.name);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    await promptTemplates.delete(template.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete prompt template error:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete prompt template' });
+  }
+});
+
+// ===== 预览 =====
+
+// 用项目数据渲染模板，不调用模型
+router.post('/preview', authenticateToken, validateBody(previewPromptSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { projectId, kind, sectionId, template, version, instruction, draft } = req.body as PreviewPromptBody;
+
+    const access = await authorizeProject(projectId, req.user.id, 'view');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    const { project } = access;
+
+    // 选择要预览的模板：草稿 → 指定模板 → 项目实际使用的模板
+    let resolved: ResolvedPrompt;
+    if (draft) {
+      const errors = validatePromptTemplate(kind, draft);
+      if (errors.length > 0) {
+        return sendInvalidTemplate(res, errors);
+      }
+      resolved = { name: 'draft', version: 0, kind, source: 'project', system: draft.system ?? null, body: draft.body, variables: draft.variables };
+    } else if (template) {
+      const loaded = await loadPromptTemplate(kind, template, version);
+      if (!loaded) {
+        return res.status(404).json({ error: 'Prompt template not found' });
+      }
+      resolved = loaded;
+    } else {
+      resolved = await resolvePromptTemplate(kind, project);
+    }
+
+    // 段落相关的模板需要指定本项目的段落
+    const brandKit = await loadProjectBrandKit(project);
+    let values: PromptValues;
+    if (kind === 'section' || kind === 'image') {
+      const section = sectionId ? await sections.getById(sectionId) : null;
+      if (!section || section.projectId !== projectId) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: [{ field: 'sectionId', message: 'A section of this project is required' }],
+        });
+      }
+      values = kind === 'section' ? sectionPromptValues(project, section, brandKit, instruction) : imagePromptValues(project, section, brandKit, instruction);
+    } else if (kind === 'script') {
+      // 与脚本生成的默认行为一致：竞品分析报告未过期时使用报告
+      const [competitorTexts, report] = await Promise.all([competitorText.listByProject(projectId), competitorReports.getByProject(projectId)]);
+      const analysis = report && !isReportOutdated(report, competitorTexts) ? report.report : null;
+      values = scriptPromptValues(project, competitorTexts, analysis, brandKit, instruction);
+    } else if (kind === 'analysis') {
+      values = analysisPromptValues(project, await competitorText.listByProject(projectId), instruction);
+    } else {
+      values = ocrPromptValues(project);
+    }
+
+    const rendered = renderPrompt(resolved, values);
+
+    res.json({
+      template: { name: resolved.name, version: resolved.version, source: resolved.source },
+      system: rendered.system,
+      prompt: rendered.prompt,
+      missing: rendered.missing,
+    });
+  } catch (error: any) {
+    console.error('Preview prompt error:', error);
+    res.status(500).json({ error: error.message || 'Failed to preview prompt' });
+  }
+});
+
+export default router;
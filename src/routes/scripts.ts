@@ -1,132 +1,359 @@
 import { Router, Response } from 'express';
-import OpenAI from 'openai';
-import { projects, sections, competitorText, images, storage } from '../utils/d1Client.js';
+import { projects, sections, sectionVersions, scriptVersions, sectionTranslations, competitorText, competitorReports, images, storage, storeSupports } from '../utils/d1Client.js';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { idempotency, completeIdempotentStream } from '../middleware/idempotency.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { requireStoreFeature } from '../middleware/storeFeature.js';
+import {
+  applyScript,
+  createSectionWithHistory,
+  updateSectionWithHistory,
+  deleteSection,
+  contentOf,
+  diffContent,
+  diffScript,
+} from '../utils/sectionHistory.js';
+import { authorizeProject, authorizeSection } from '../utils/permissions.js';
+import { checkQuota, recordUsage, sendQuotaExceeded } from '../utils/usage.js';
+import {
+  resolvePromptTemplate,
+  renderPrompt,
+  scriptPromptValues,
+  sectionPromptValues,
+  ocrPromptValues,
+  translatePromptValues,
+  analysisPromptValues,
+  RenderedPrompt,
+} from '../utils/promptTemplates.js';
+import { locales, localizeSections, loadLocalizedSections } from '../utils/locales.js';
+import { loadProjectBrandKit, findBannedPhrases } from '../utils/brandKit.js';
+import { mergeCompetitorAnalysis, isReportOutdated } from '../utils/competitorAnalysis.js';
+import { recheckCompliance, summarizeIssues } from '../utils/compliance.js';
+import { SectionStreamParser } from '../utils/scriptStream.js';
+import { generateText, streamText, ChatMessage } from '../utils/aiClient.js';
+import { projectIdParams } from '../schemas/common.js';
+import {
+  sectionParams,
+  sectionVersionParams,
+  translationLocaleParams,
+  sectionsQuery,
+  translateScriptSchema,
+  scriptVersionParams,
+  diffQuery,
+  generateScriptSchema,
+  insertSectionSchema,
+  reorderSectionsSchema,
+  updateSectionSchema,
+  regenerateSectionSchema,
+  aiScriptSchema,
+  aiSectionSchema,
+  aiTranslationSchema,
+  aiCompetitorAnalysisSchema,
+  analyzeCompetitorsSchema,
+  extractTextSchema,
+  GenerateScriptBody,
+  InsertSectionBody,
+  ReorderSectionsBody,
+  UpdateSectionBody,
+  RegenerateSectionBody,
+  SectionsQuery,
+  TranslateScriptBody,
+  AnalyzeCompetitorsBody,
+  ExtractTextBody,
+} from '../schemas/scripts.js';
+import type { BrandKit, CompetitorAnalysis, CompetitorText, Project, SectionContent } from '../types/models.js';
 
 const router = Router();
 
-// 配置 OpenAI 客户端使用 VectorEngine AI 服务
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  baseURL: process.env.OPENAI_BASE_URL || 'https://api.vectorengine.ai/v1',
+// 渲染后的提示词转为对话消息
+const promptMessages = (rendered: RenderedPrompt): ChatMessage[] => [
+  ...(rendered.system ? [{ role: 'system' as const, content: rendered.system }] : []),
+  { role: 'user' as const, content: rendered.prompt },
+];
+
+// 脚本生成的上下文，普通接口和流式接口共用
+interface ScriptGeneration {
+  projectId: number;
+  // 指定语言时按新语言生成，生成成功后才更新项目语言
+  project: Project;
+  // 生成前的项目，失败或取消时据此恢复状态
+  original: Project;
+  instruction?: string;
+  brandKit: BrandKit | null;
+  analysis: CompetitorAnalysis | null;
+  rendered: RenderedPrompt;
+  // 跳过缓存重新生成
+  fresh: boolean;
+}
+
+// 校验权限和额度，获取竞品参考和品牌套件并渲染提示词。校验失败时已写入响应，返回 null
+async function prepareScriptGeneration(req: AuthRequest, res: Response): Promise<ScriptGeneration | null> {
+  const projectId = parseInt(req.params.projectId);
+  const { instruction, locale, competitorSource, fresh } = req.body as GenerateScriptBody;
+
+  // 验证项目编辑权限
+  const access = await authorizeProject(projectId, req.user!.id, 'edit');
+  if (!access) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+  const project = { ...access.project, locale: locale ?? access.project.locale };
+
+  // 检查 AI 用量额度
+  const exceeded = await checkQuota(req.user!.id);
+  if (exceeded) {
+    sendQuotaExceeded(res, exceeded);
+    return null;
+  }
+
+  // 获取竞品文案、竞品分析报告和品牌套件，渲染项目选用的提示词模板
+  const [competitorTexts, report, brandKit] = await Promise.all([
+    competitorText.listByProject(projectId),
+    storeSupports('competitorReports') ? competitorReports.getByProject(projectId) : null,
+    loadProjectBrandKit(project),
+  ]);
+  if (competitorSource === 'analysis' && !report) {
+    res.status(400).json({ error: 'No competitor analysis report. Please analyze competitors first.' });
+    return null;
+  }
+  const useReport = report && (competitorSource === 'analysis' || (competitorSource === 'auto' && !isReportOutdated(report, competitorTexts)));
+  const analysis = useReport ? report.report : null;
+
+  const rendered = renderPrompt(
+    await resolvePromptTemplate('script', project),
+    scriptPromptValues(project, competitorTexts, analysis, brandKit, instruction)
+  );
+  if (rendered.missing.length > 0) {
+    res.status(400).json({ error: 'Missing prompt variables', missing: rendered.missing });
+    return null;
+  }
+
+  return { projectId, project, original: access.project, instruction, brandKit, analysis, rendered, fresh };
+}
+
+// 脚本生成结果的缓存选项，只缓存格式正确的脚本
+const scriptCache = (generation: ScriptGeneration) => ({
+  fresh: generation.fresh,
+  validate: (parsed: unknown) => aiScriptSchema.safeParse(parsed).success,
 });
 
-// 文本生成模型配置
-const TEXT_MODEL = process.env.TEXT_MODEL || 'gemini-2.5-flash';
+// 保存生成的脚本并返回响应内容，cached 表示脚本来自缓存的生成结果
+async function saveGeneratedScript(generation: ScriptGeneration, contents: SectionContent[], authorId: number, cached: boolean) {
+  const { projectId, project, original, instruction, brandKit, analysis, rendered } = generation;
+
+  // 替换项目脚本，旧内容保留在版本历史中
+  const savedSections = await applyScript(projectId, contents, {
+    source: 'ai',
+    instruction,
+    authorId,
+    prompt: rendered.ref,
+  });
+
+  // 脚本语言改变时，新语言原有的译文已被脚本本身取代
+  if (project.locale !== original.locale && storeSupports('translations')) {
+    await sectionTranslations.deleteByLocale(projectId, project.locale);
+  }
+
+  // 更新项目状态
+  await projects.update(projectId, { status: 'scripted', locale: project.locale });
+
+  // 广告法合规检查，检查失败时不返回检查结果
+  const issues = await recheckCompliance(project, savedSections);
+
+  return {
+    success: true,
+    sections: savedSections,
+    competitorSource: analysis ? 'analysis' : 'raw',
+    cached,
+    // 模型仍然写入的品牌禁用词，供前端提示修改
+    bannedPhrases: findBannedPhrases(brandKit, savedSections),
+    compliance: issues && { summary: summarizeIssues(issues), issues },
+  };
+}
 
 // 生成图文脚本
-router.post('/:projectId/generate', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.post('/:projectId/generate', authenticateToken, idempotency, validateParams(projectIdParams), validateBody(generateScriptSchema), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    const projectId = parseInt(req.params.projectId);
-
-    // 验证项目所有权
-    const project = await projects.getById(projectId);
-    if (!project || project.user_id !== req.user.id) {
-      return res.status(403).json({ error: 'Access denied' });
-    }
+    const generation = await prepareScriptGeneration(req, res);
+    if (!generation) return;
+    const { projectId, original, rendered } = generation;
 
-    // 更新项目状态
+    // 更新项目状态，失败时恢复生成前的状态
     await projects.update(projectId, { status: 'scripting' });
+    const restoreStatus = () =>
+      projects.update(projectId, { status: original.status }).catch((e) => console.error(`Failed to restore project ${projectId} status:`, e));
 
-    // 获取竞品文案
-    const competitorTexts = await competitorText.listByProject(projectId);
-    const competitorInfo = competitorTexts.map((ct: any) => ct.text).join('\n\n');
+    try {
+      const completion = await generateText(
+        'text',
+        { purpose: 'script', messages: promptMessages(rendered), json: true, temperature: 0.7 },
+        scriptCache(generation)
+      );
+      if (!completion.cached) {
+        await recordUsage({ userId: req.user.id, projectId }, { kind: 'script', model: completion.model, usage: completion.usage, prompt: rendered.ref });
+      }
 
-    // 构建提示词
-    const prompt = `你是一个专业的电商详情页文案策划师。请根据以下信息，为产品生成详情页图文脚本。
+      const responseText = completion.content || '{}';
+      let parsed: unknown;
 
-产品名称：${project.product_name}
-产品描述：${project.product_desc || '无'}
+      try {
+        parsed = JSON.parse(responseText);
+      } catch (e) {
+        console.error('Failed to parse AI response:', responseText);
+        await restoreStatus();
+        return res.status(500).json({ error: 'Failed to parse AI response' });
+      }
 
-竞品详情页文案参考：
-${competitorInfo || '无竞品参考'}
+      const scriptData = aiScriptSchema.safeParse(parsed);
+      if (!scriptData.success) {
+        await restoreStatus();
+        return res.status(500).json({ error: 'Invalid AI response format' });
+      }
 
-请生成5-7张详情图的脚本，每张图包含：
-1. 主标题（吸引眼球的卖点）
-2. 副标题（补充说明）
-3. 详细描述（产品特点、优势说明）
-4. 视觉指导（建议的画面风格、场景、色调）
+      res.json(await saveGeneratedScript(generation, scriptData.data.sections, req.user.id, completion.cached));
+    } catch (error) {
+      await restoreStatus();
+      throw error;
+    }
+  } catch (error: any) {
+    console.error('Generate script error:', error);
+    res.status(500).json({ error: error.message || 'Failed to generate script' });
+  }
+});
 
-请以JSON格式输出，格式如下：
-{
-  "sections": [
-    {
-      "title": "主标题",
-      "subtitle": "副标题",
-      "description": "详细描述",
-      "visualGuide": "视觉指导"
+// 流式生成图文脚本（Server-Sent Events）：逐段推送模型输出，每个段落完整后推送 section 事件，
+// 全部生成后保存并推送 done 事件，内容与普通接口的响应相同。客户端断开时取消生成并恢复项目状态
+router.post('/:projectId/generate/stream', authenticateToken, idempotency, validateParams(projectIdParams), validateBody(generateScriptSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
     }
-  ]
-}
 
-注意：
-1. 文案要有吸引力，突出产品卖点
-2. 避免直接抄袭竞品文案，要有差异化
-3. 视觉指导要具体，便于后续AI生成图片
-4. 第一张图应该是主视觉+核心卖点
-5. 最后一张图可以是购买引导或品牌信息`;
-
-    // 调用 Gemini 模型
-    const completion = await openai.chat.completions.create({
-      model: TEXT_MODEL,
-      messages: [
-        { role: 'system', content: '你是一个专业的电商详情页文案策划师，擅长撰写有吸引力的产品文案。请始终以JSON格式输出。' },
-        { role: 'user', content: prompt },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.7,
+    const generation = await prepareScriptGeneration(req, res);
+    if (!generation) return;
+    const { projectId, original, rendered } = generation;
+
+    await projects.update(projectId, { status: 'scripting' });
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+    // 响应结束前连接关闭即为客户端断开，取消上游请求
+    const abort = new AbortController();
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      if (!res.writableFinished) abort.abort();
     });
 
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    let scriptData;
+    // 失败或取消时恢复生成前的项目状态
+    const restoreStatus = () =>
+      projects.update(projectId, { status: original.status }).catch((e) => console.error(`Failed to restore project ${projectId} status:`, e));
+
+    send('start', { projectId, competitorSource: generation.analysis ? 'analysis' : 'raw' });
+
+    const parser = new SectionStreamParser();
+    let model = '';
+    let cached = false;
+    let usage: unknown;
+    let emitted = 0;
 
     try {
-      scriptData = JSON.parse(responseText);
-    } catch (e) {
-      console.error('Failed to parse AI response:', responseText);
-      return res.status(500).json({ error: 'Failed to parse AI response' });
+      const stream = await streamText(
+        { purpose: 'script', messages: promptMessages(rendered), json: true, temperature: 0.7, signal: abort.signal },
+        scriptCache(generation)
+      );
+      ({ model, cached } = stream);
+
+      for await (const chunk of stream.chunks) {
+        usage = chunk.usage ?? usage;
+        if (!chunk.delta) continue;
+
+        send('delta', { text: chunk.delta });
+        for (const raw of parser.push(chunk.delta)) {
+          const section = aiSectionSchema.safeParse(raw);
+          if (section.success) {
+            send('section', { index: emitted++, section: contentOf(section.data) });
+          }
+        }
+      }
+    } catch (error: any) {
+      if (!abort.signal.aborted) {
+        await restoreStatus();
+        console.error('Stream script error:', error);
+        send('error', { error: error.message || 'Failed to generate script' });
+        return res.end();
+      }
     }
 
-    if (!scriptData.sections || !Array.isArray(scriptData.sections)) {
-      return res.status(500).json({ error: 'Invalid AI response format' });
+    // 取消时流可能正常结束而不抛错；已消耗的用量无法获知，不记录
+    if (abort.signal.aborted) {
+      await restoreStatus();
+      return;
     }
 
-    // 批量保存脚本段落
-    const savedSections = await sections.batchCreate(projectId, scriptData.sections);
+    if (!cached) {
+      await recordUsage({ userId: req.user.id, projectId }, { kind: 'script', model, usage, prompt: rendered.ref });
+    }
 
-    // 更新项目状态
-    await projects.update(projectId, { status: 'scripted' });
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(parser.text || '{}');
+    } catch {
+      console.error('Failed to parse AI response:', parser.text);
+    }
 
-    res.json({
-      success: true,
-      sections: savedSections,
-    });
+    const scriptData = aiScriptSchema.safeParse(parsed);
+    if (!scriptData.success) {
+      await restoreStatus();
+      send('error', { error: parsed === undefined ? 'Failed to parse AI response' : 'Invalid AI response format' });
+      return res.end();
+    }
+
+    // 客户端已断开时仍然保存完整结果，用量已经产生
+    const result = await saveGeneratedScript(generation, scriptData.data.sections, req.user.id, cached);
+    completeIdempotentStream(res, result);
+    send('done', result);
+    res.end();
   } catch (error: any) {
-    console.error('Generate script error:', error);
-    res.status(500).json({ error: error.message || 'Failed to generate script' });
+    console.error('Stream script error:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: error.message || 'Failed to generate script' });
+    }
+    res.write(`event: error\ndata: ${JSON.stringify({ error: error.message || 'Failed to generate script' })}\n\n`);
+    res.end();
   }
 });
 
-// 获取项目的脚本段落
-router.get('/:projectId', authenticateToken, async (req: AuthRequest, res: Response) => {
+// 获取项目的脚本段落，指定其他语言时返回该语言版本（未翻译的段落不返回）
+router.get('/:projectId', authenticateToken, validateParams(projectIdParams), validateQuery(sectionsQuery), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const projectId = parseInt(req.params.projectId);
+    const { locale } = sectionsQuery.parse(req.query) as SectionsQuery;
 
-    // 验证项目所有权
-    const project = await projects.getById(projectId);
-    if (!project || project.user_id !== req.user.id) {
+    // 验证项目访问权限
+    const access = await authorizeProject(projectId, req.user.id, 'view');
+    if (!access) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const projectSections = await sections.listByProject(projectId);
+    const { sections: projectSections } = await loadLocalizedSections(access.project, locale);
     res.json(projectSections);
   } catch (error: any) {
     console.error('Get sections error:', error);
@@ -134,17 +361,119 @@ router.get('/:projectId', authenticateToken, async (req: AuthRequest, res: Respo
   }
 });
 
+// 在指定位置插入脚本段落
+router.post('/:projectId/sections', authenticateToken, requireStoreFeature('sectionHistory'), idempotency, validateParams(projectIdParams), validateBody(insertSectionSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+    const { position, ...content } = req.body as InsertSectionBody;
+
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const section = await createSectionWithHistory(projectId, position, content, {
+      source: 'manual',
+      authorId: req.user.id,
+    });
+    await recheckCompliance(access.project, [section]);
+
+    res.status(201).json({
+      section,
+      sections: await sections.listByProject(projectId),
+    });
+  } catch (error: any) {
+    console.error('Insert section error:', error);
+    res.status(500).json({ error: error.message || 'Failed to insert section' });
+  }
+});
+
+// 调整脚本段落顺序
+router.put('/:projectId/sections/order', authenticateToken, requireStoreFeature('sectionHistory'), validateParams(projectIdParams), validateBody(reorderSectionsSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+    const { sectionIds } = req.body as ReorderSectionsBody;
+
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    // 必须包含项目的全部段落
+    const current = await sections.listByProject(projectId);
+    const currentIds = new Set(current.map((s) => s.id));
+    if (sectionIds.length !== current.length || !sectionIds.every((id) => currentIds.has(id))) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ field: 'sectionIds', message: 'Must list every section of the project exactly once' }],
+      });
+    }
+
+    const reordered = await sections.reorder(projectId, sectionIds);
+    res.json(reordered);
+  } catch (error: any) {
+    console.error('Reorder sections error:', error);
+    res.status(500).json({ error: error.message || 'Failed to reorder sections' });
+  }
+});
+
+// 删除脚本段落及其生成的图片
+router.delete('/section/:sectionId', authenticateToken, requireStoreFeature('sectionHistory'), validateParams(sectionParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await authorizeSection(parseInt(req.params.sectionId), req.user.id, 'edit');
+    if (!access) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+    const { section } = access;
+
+    await deleteSection(section);
+
+    res.json({
+      success: true,
+      sections: await sections.listByProject(section.projectId),
+    });
+  } catch (error: any) {
+    console.error('Delete section error:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete section' });
+  }
+});
+
 // 更新单个脚本段落
-router.put('/section/:sectionId', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.put('/section/:sectionId', authenticateToken, requireStoreFeature('sectionHistory'), validateParams(sectionParams), validateBody(updateSectionSchema), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const sectionId = parseInt(req.params.sectionId);
-    const { title, subtitle, description, visualGuide } = req.body;
+    const { title, subtitle, description, visualGuide } = req.body as UpdateSectionBody;
+
+    const access = await authorizeSection(sectionId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+    const { section, project } = access;
 
-    const updated = await sections.update(sectionId, { title, subtitle, description, visualGuide });
+    const updated = await updateSectionWithHistory(
+      section,
+      { title, subtitle, description, visualGuide },
+      { source: 'manual', authorId: req.user.id }
+    );
+    await recheckCompliance(project, [updated]);
     res.json(updated);
   } catch (error: any) {
     console.error('Update section error:', error);
@@ -153,61 +482,67 @@ router.put('/section/:sectionId', authenticateToken, async (req: AuthRequest, re
 });
 
 // 重新生成单个脚本段落
-router.post('/section/:sectionId/regenerate', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.post('/section/:sectionId/regenerate', authenticateToken, requireStoreFeature('sectionHistory'), idempotency, validateParams(sectionParams), validateBody(regenerateSectionSchema), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const sectionId = parseInt(req.params.sectionId);
-    const { instruction } = req.body; // 用户的额外指示
-
-    // 获取当前段落信息
-    const projectSections = await sections.listByProject(parseInt(req.body.projectId));
-    const currentSection = projectSections.find((s: any) => s.id === sectionId);
+    const { instruction } = req.body as RegenerateSectionBody; // 用户的额外指示
 
-    if (!currentSection) {
+    // 获取当前段落信息并验证编辑权限
+    const access = await authorizeSection(sectionId, req.user.id, 'edit');
+    if (!access) {
       return res.status(404).json({ error: 'Section not found' });
     }
+    const { section: currentSection } = access;
 
-    const prompt = `请重新生成以下详情图脚本段落：
-
-当前内容：
-- 主标题：${currentSection.title}
-- 副标题：${currentSection.subtitle}
-- 描述：${currentSection.description}
-- 视觉指导：${currentSection.visual_guide}
-
-${instruction ? `用户要求：${instruction}` : '请生成一个更有吸引力的版本'}
-
-请以JSON格式输出：
-{
-  "title": "新主标题",
-  "subtitle": "新副标题",
-  "description": "新描述",
-  "visualGuide": "新视觉指导"
-}`;
-
-    const completion = await openai.chat.completions.create({
-      model: TEXT_MODEL,
-      messages: [
-        { role: 'system', content: '你是一个专业的电商详情页文案策划师。请始终以JSON格式输出。' },
-        { role: 'user', content: prompt },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.8,
-    });
+    const exceeded = await checkQuota(req.user.id);
+    if (exceeded) {
+      return sendQuotaExceeded(res, exceeded);
+    }
 
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    const newContent = JSON.parse(responseText);
+    const project = await projects.getById(currentSection.projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
 
-    // 更新段落
-    const updated = await sections.update(sectionId, {
-      title: newContent.title,
-      subtitle: newContent.subtitle,
-      description: newContent.description,
-      visualGuide: newContent.visualGuide,
+    const rendered = renderPrompt(
+      await resolvePromptTemplate('section', project),
+      sectionPromptValues(project, currentSection, await loadProjectBrandKit(project), instruction)
+    );
+    if (rendered.missing.length > 0) {
+      return res.status(400).json({ error: 'Missing prompt variables', missing: rendered.missing });
+    }
+
+    const completion = await generateText('text', { purpose: 'section', messages: promptMessages(rendered), json: true, temperature: 0.8 });
+    await recordUsage({ userId: req.user.id, projectId: currentSection.projectId }, { kind: 'section', model: completion.model, usage: completion.usage, prompt: rendered.ref });
+
+    const responseText = completion.content || '{}';
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(responseText);
+    } catch (e) {
+      console.error('Failed to parse AI response:', responseText);
+      return res.status(500).json({ error: 'Failed to parse AI response' });
+    }
+
+    const parsedContent = aiSectionSchema.safeParse(parsed);
+    if (!parsedContent.success) {
+      return res.status(500).json({ error: 'Invalid AI response format' });
+    }
+    const newContent = parsedContent.data;
+
+    // 更新段落并记录 AI 版本
+    const updated = await updateSectionWithHistory(currentSection, contentOf(newContent), {
+      source: 'ai',
+      instruction,
+      authorId: req.user.id,
+      prompt: rendered.ref,
     });
+    await recheckCompliance(project, [updated]);
 
     res.json(updated);
   } catch (error: any) {
@@ -216,59 +551,404 @@ ${instruction ? `用户要求：${instruction}` : '请生成一个更有吸引
   }
 });
 
+// 获取段落的版本历史
+router.get('/section/:sectionId/versions', authenticateToken, requireStoreFeature('sectionHistory'), validateParams(sectionParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await authorizeSection(parseInt(req.params.sectionId), req.user.id, 'view');
+    if (!access) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+    const { section } = access;
+
+    const versions = await sectionVersions.listBySection(section.id);
+    res.json(versions);
+  } catch (error: any) {
+    console.error('Get section versions error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get section versions' });
+  }
+});
+
+// 比较段落的两个版本
+router.get('/section/:sectionId/versions/diff', authenticateToken, requireStoreFeature('sectionHistory'), validateParams(sectionParams), validateQuery(diffQuery), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await authorizeSection(parseInt(req.params.sectionId), req.user.id, 'view');
+    if (!access) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+    const { section } = access;
+
+    const [from, to] = await Promise.all([
+      sectionVersions.get(section.id, parseInt(String(req.query.from))),
+      sectionVersions.get(section.id, parseInt(String(req.query.to))),
+    ]);
+    if (!from || !to) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json({
+      from: from.version,
+      to: to.version,
+      fields: diffContent(from, to),
+    });
+  } catch (error: any) {
+    console.error('Diff section versions error:', error);
+    res.status(500).json({ error: error.message || 'Failed to diff section versions' });
+  }
+});
+
+// 恢复段落到指定版本
+router.post('/section/:sectionId/versions/:version/restore', authenticateToken, requireStoreFeature('sectionHistory'), idempotency, validateParams(sectionVersionParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await authorizeSection(parseInt(req.params.sectionId), req.user.id, 'edit');
+    if (!access) {
+      return res.status(404).json({ error: 'Section not found' });
+    }
+    const { section, project } = access;
+
+    const version = await sectionVersions.get(section.id, parseInt(req.params.version));
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const updated = await updateSectionWithHistory(section, contentOf(version), {
+      source: 'restore',
+      instruction: `Restored from version ${version.version}`,
+      authorId: req.user.id,
+    });
+    await recheckCompliance(project, [updated]);
+    res.json(updated);
+  } catch (error: any) {
+    console.error('Restore section version error:', error);
+    res.status(500).json({ error: error.message || 'Failed to restore section version' });
+  }
+});
+
+// 获取整套脚本的版本历史
+router.get('/:projectId/versions', authenticateToken, requireStoreFeature('sectionHistory'), validateParams(projectIdParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+
+    // 验证项目访问权限
+    if (!(await authorizeProject(projectId, req.user.id, 'view'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const versions = await scriptVersions.listByProject(projectId);
+    res.json(versions);
+  } catch (error: any) {
+    console.error('Get script versions error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get script versions' });
+  }
+});
+
+// 比较两套脚本版本
+router.get('/:projectId/versions/diff', authenticateToken, requireStoreFeature('sectionHistory'), validateParams(projectIdParams), validateQuery(diffQuery), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+
+    // 验证项目访问权限
+    if (!(await authorizeProject(projectId, req.user.id, 'view'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const [from, to] = await Promise.all([
+      scriptVersions.get(projectId, parseInt(String(req.query.from))),
+      scriptVersions.get(projectId, parseInt(String(req.query.to))),
+    ]);
+    if (!from || !to) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json({
+      from: from.version,
+      to: to.version,
+      sections: diffScript(from.sections, to.sections),
+    });
+  } catch (error: any) {
+    console.error('Diff script versions error:', error);
+    res.status(500).json({ error: error.message || 'Failed to diff script versions' });
+  }
+});
+
+// 恢复整套脚本到指定版本
+router.post('/:projectId/versions/:version/restore', authenticateToken, requireStoreFeature('sectionHistory'), idempotency, validateParams(scriptVersionParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const version = await scriptVersions.get(projectId, parseInt(req.params.version));
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const restored = await applyScript(projectId, version.sections, {
+      source: 'restore',
+      instruction: `Restored from version ${version.version}`,
+      authorId: req.user.id,
+    });
+    const issues = await recheckCompliance(access.project, restored);
+
+    res.json({
+      success: true,
+      sections: restored,
+      compliance: issues && { summary: summarizeIssues(issues), issues },
+    });
+  } catch (error: any) {
+    console.error('Restore script version error:', error);
+    res.status(500).json({ error: error.message || 'Failed to restore script version' });
+  }
+});
+
+// ===== 多语言版本 =====
+
+// 将脚本翻译为其他语言版本，译文与基础段落逐段对应，重复翻译会覆盖原有译文
+router.post('/:projectId/translate', authenticateToken, requireStoreFeature('translations'), idempotency, validateParams(projectIdParams), validateBody(translateScriptSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+    const { locale, sectionIds, instruction } = req.body as TranslateScriptBody;
+
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    const { project } = access;
+
+    if (locale === project.locale) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: [{ field: 'locale', message: `Script is already written in ${locale}` }],
+      });
+    }
+
+    const allSections = await sections.listByProject(projectId);
+    const sourceSections = sectionIds ? allSections.filter((s) => sectionIds.includes(s.id)) : allSections;
+    if (sourceSections.length === 0) {
+      return res.status(400).json({ error: 'No script sections found. Please generate script first.' });
+    }
+
+    const exceeded = await checkQuota(req.user.id);
+    if (exceeded) {
+      return sendQuotaExceeded(res, exceeded);
+    }
+
+    const rendered = renderPrompt(await resolvePromptTemplate('translate', project), translatePromptValues(project, sourceSections, locale, instruction));
+    if (rendered.missing.length > 0) {
+      return res.status(400).json({ error: 'Missing prompt variables', missing: rendered.missing });
+    }
+
+    const completion = await generateText('text', { purpose: 'translate', messages: promptMessages(rendered), json: true, temperature: 0.3 });
+    await recordUsage({ userId: req.user.id, projectId }, { kind: 'translate', model: completion.model, usage: completion.usage, prompt: rendered.ref });
+
+    const responseText = completion.content || '{}';
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(responseText);
+    } catch (e) {
+      console.error('Failed to parse AI response:', responseText);
+      return res.status(500).json({ error: 'Failed to parse AI response' });
+    }
+
+    // 译文必须与原文逐段对应
+    const translationData = aiTranslationSchema.safeParse(parsed);
+    if (!translationData.success || translationData.data.sections.length !== sourceSections.length) {
+      return res.status(500).json({ error: 'Invalid AI response format' });
+    }
+
+    await sectionTranslations.upsertMany(
+      sourceSections.map((section, i) => {
+        const { title, subtitle, description } = translationData.data.sections[i];
+        return { sectionId: section.id, projectId, locale, title, subtitle: subtitle || null, description: description || null, sourceUpdatedAt: section.updatedAt };
+      })
+    );
+
+    const localized = localizeSections(allSections, await sectionTranslations.listByProject(projectId, locale), locale);
+
+    res.json({
+      success: true,
+      locale,
+      sections: localized.sections,
+      untranslatedSectionIds: localized.missing,
+    });
+  } catch (error: any) {
+    console.error('Translate script error:', error);
+    res.status(500).json({ error: error.message || 'Failed to translate script' });
+  }
+});
+
+// 项目的语言版本列表：基础语言及各翻译语言的译文覆盖情况
+router.get('/:projectId/translations', authenticateToken, requireStoreFeature('translations'), validateParams(projectIdParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+
+    // 验证项目访问权限
+    const access = await authorizeProject(projectId, req.user.id, 'view');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const [projectSections, translations, summaries] = await Promise.all([
+      sections.listByProject(projectId),
+      sectionTranslations.listByProject(projectId),
+      sectionTranslations.listLocales(projectId),
+    ]);
+
+    res.json({
+      baseLocale: access.project.locale,
+      sectionCount: projectSections.length,
+      locales: summaries.map((summary) => {
+        const localized = localizeSections(projectSections, translations, summary.locale);
+        return {
+          ...summary,
+          label: locales[summary.locale]?.label ?? summary.locale,
+          missingSectionIds: localized.missing,
+          outdatedSectionIds: localized.sections.filter((s) => s.outdated).map((s) => s.id),
+        };
+      }),
+    });
+  } catch (error: any) {
+    console.error('Get translations error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get translations' });
+  }
+});
+
+// 删除一个语言版本的译文，已生成的该语言图片保留
+router.delete('/:projectId/translations/:locale', authenticateToken, requireStoreFeature('translations'), validateParams(translationLocaleParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+
+    // 验证项目编辑权限
+    if (!(await authorizeProject(projectId, req.user.id, 'edit'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const deleted = await sectionTranslations.deleteByLocale(projectId, String(req.params.locale));
+    if (deleted === 0) {
+      return res.status(404).json({ error: 'Translation not found' });
+    }
+
+    res.json({ success: true, deleted });
+  } catch (error: any) {
+    console.error('Delete translation error:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete translation' });
+  }
+});
+
+// ===== 竞品分析 =====
+
 // OCR 提取竞品文案（使用 Gemini Vision）
-router.post('/:projectId/extract-text', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.post('/:projectId/extract-text', authenticateToken, idempotency, validateParams(projectIdParams), validateBody(extractTextSchema), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     const projectId = parseInt(req.params.projectId);
+    const { fresh } = req.body as ExtractTextBody;
 
-    // 验证项目所有权
-    const project = await projects.getById(projectId);
-    if (!project || project.user_id !== req.user.id) {
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
     // 获取竞品图片
     const projectImages = await images.listByProject(projectId);
-    const competitorImages = projectImages.filter((img: any) => img.type === 'competitor_input');
+    const competitorImages = projectImages.filter((img) => img.type === 'competitor_input');
 
     if (competitorImages.length === 0) {
       return res.status(400).json({ error: 'No competitor images found' });
     }
 
+    const exceeded = await checkQuota(req.user.id);
+    if (exceeded) {
+      return sendQuotaExceeded(res, exceeded);
+    }
+
+    const rendered = renderPrompt(await resolvePromptTemplate('ocr', access.project), ocrPromptValues(access.project));
+    if (rendered.missing.length > 0) {
+      return res.status(400).json({ error: 'Missing prompt variables', missing: rendered.missing });
+    }
+
     // 使用 Gemini Vision 分析图片
-    const extractedTexts = [];
+    const extractedTexts: CompetitorText[] = [];
+    let cachedCount = 0;
 
     for (const img of competitorImages) {
-      const imageUrl = storage.getUrl(img.r2_key);
-      
       // 调用 Gemini Vision 分析图片
       try {
-        const response = await openai.chat.completions.create({
-          model: TEXT_MODEL,
+        // 以 data URL 形式发送图片，模型无需访问存储地址
+        const object = await storage.get(img.r2Key);
+        if (!object) {
+          throw new Error(`Object not found: ${img.r2Key}`);
+        }
+        const imageUrl = `data:${object.contentType};base64,${object.body.toString('base64')}`;
+
+        const response = await generateText('vision', {
+          purpose: 'ocr',
           messages: [
+            ...(rendered.system ? [{ role: 'system' as const, content: rendered.system }] : []),
             {
               role: 'user',
               content: [
-                {
-                  type: 'text',
-                  text: '请分析这张电商详情页图片，提取其中的文字内容和主要卖点。以JSON格式输出：{"text": "提取的文字", "keyPoints": ["卖点1", "卖点2"]}',
-                },
-                {
-                  type: 'image_url',
-                  image_url: { url: imageUrl },
-                },
+                { type: 'text', text: rendered.prompt },
+                { type: 'image_url', image_url: { url: imageUrl } },
               ],
             },
           ],
-          response_format: { type: 'json_object' },
-          max_tokens: 1000,
-        });
+          json: true,
+          maxTokens: 1000,
+        }, { imageKey: img.r2Key, fresh });
+        // 同一张图片在相同提示词下的识别结果直接复用
+        if (response.cached) {
+          cachedCount++;
+        } else {
+          await recordUsage({ userId: req.user.id, projectId }, { kind: 'ocr', model: response.model, usage: response.usage, prompt: rendered.ref });
+        }
 
-        const result = JSON.parse(response.choices[0]?.message?.content || '{}');
+        const result = JSON.parse(response.content || '{}');
         
         // 保存提取的文案
         const saved = await competitorText.create({
@@ -286,6 +966,7 @@ router.post('/:projectId/extract-text', authenticateToken, async (req: AuthReque
     res.json({
       success: true,
       extractedTexts,
+      cached: cachedCount,
     });
   } catch (error: any) {
     console.error('Extract text error:', error);
@@ -293,4 +974,94 @@ router.post('/:projectId/extract-text', authenticateToken, async (req: AuthReque
   }
 });
 
+// 合并全部竞品文案生成结构化的竞品分析报告，替换项目原有报告
+router.post('/:projectId/competitor-analysis', authenticateToken, requireStoreFeature('competitorReports'), idempotency, validateParams(projectIdParams), validateBody(analyzeCompetitorsSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+    const { instruction } = req.body as AnalyzeCompetitorsBody;
+
+    // 验证项目编辑权限
+    const access = await authorizeProject(projectId, req.user.id, 'edit');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const competitorTexts = await competitorText.listByProject(projectId);
+    if (competitorTexts.length === 0) {
+      return res.status(400).json({ error: 'No competitor texts found. Please extract text first.' });
+    }
+
+    const exceeded = await checkQuota(req.user.id);
+    if (exceeded) {
+      return sendQuotaExceeded(res, exceeded);
+    }
+
+    const rendered = renderPrompt(await resolvePromptTemplate('analysis', access.project), analysisPromptValues(access.project, competitorTexts, instruction));
+    if (rendered.missing.length > 0) {
+      return res.status(400).json({ error: 'Missing prompt variables', missing: rendered.missing });
+    }
+
+    const completion = await generateText('text', { purpose: 'analysis', messages: promptMessages(rendered), json: true, temperature: 0.3 });
+    await recordUsage({ userId: req.user.id, projectId }, { kind: 'analysis', model: completion.model, usage: completion.usage, prompt: rendered.ref });
+
+    const responseText = completion.content || '{}';
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(responseText);
+    } catch (e) {
+      console.error('Failed to parse AI response:', responseText);
+      return res.status(500).json({ error: 'Failed to parse AI response' });
+    }
+
+    const analysisData = aiCompetitorAnalysisSchema.safeParse(parsed);
+    if (!analysisData.success) {
+      return res.status(500).json({ error: 'Invalid AI response format' });
+    }
+
+    const report = await competitorReports.upsert({
+      projectId,
+      report: mergeCompetitorAnalysis(analysisData.data, competitorTexts),
+      sourceTextIds: competitorTexts.map((t) => t.id),
+      prompt: rendered.ref,
+      createdBy: req.user.id,
+    });
+
+    res.json({ ...report, outdated: false });
+  } catch (error: any) {
+    console.error('Analyze competitors error:', error);
+    res.status(500).json({ error: error.message || 'Failed to analyze competitors' });
+  }
+});
+
+// 获取竞品分析报告；outdated 表示报告生成后竞品文案有变化
+router.get('/:projectId/competitor-analysis', authenticateToken, requireStoreFeature('competitorReports'), validateParams(projectIdParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const projectId = parseInt(req.params.projectId);
+
+    // 验证项目访问权限
+    if (!(await authorizeProject(projectId, req.user.id, 'view'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const [report, competitorTexts] = await Promise.all([competitorReports.getByProject(projectId), competitorText.listByProject(projectId)]);
+    if (!report) {
+      return res.status(404).json({ error: 'Competitor analysis report not found' });
+    }
+
+    res.json({ ...report, outdated: isReportOutdated(report, competitorTexts) });
+  } catch (error: any) {
+    console.error('Get competitor analysis error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get competitor analysis' });
+  }
+});
+
 export default router;
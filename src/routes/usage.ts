@@ -0,0 +1,46 @@
+import { Router, Response } from 'express';
+import { aiUsage } from '../utils/d1Client.js';
+import { getUsageSummary, usagePlans } from '../utils/usage.js';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { validateQuery } from '../middleware/validate.js';
+import { usageHistoryQuery, UsageHistoryQuery } from '../schemas/usage.js';
+
+const router = Router();
+
+// 当前套餐、本日/本月已用量和剩余额度
+router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    res.json(await getUsageSummary(req.user.id));
+  } catch (error: any) {
+    console.error('Get usage error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get usage' });
+  }
+});
+
+// 全部套餐及额度
+router.get('/plans', authenticateToken, async (req: AuthRequest, res: Response) => {
+  res.json(Object.values(usagePlans));
+});
+
+// 调用明细，按时间倒序
+router.get('/history', authenticateToken, validateQuery(usageHistoryQuery), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { projectId, limit, offset } = usageHistoryQuery.parse(req.query) as UsageHistoryQuery;
+    const result = await aiUsage.listByUser(req.user.id, { projectId, limit, offset });
+
+    res.json({ ...result, limit, offset });
+  } catch (error: any) {
+    console.error('Get usage history error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get usage history' });
+  }
+});
+
+export default router;
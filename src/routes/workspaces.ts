@@ -0,0 +1,331 @@
+import { Router, Response } from 'express';
+import { workspaces, workspaceMembers, workspaceInvitations, projects } from '../utils/d1Client.js';
+import { mailer } from '../utils/mailer.js';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { validateBody, validateParams } from '../middleware/validate.js';
+import { authorizeWorkspace } from '../utils/permissions.js';
+import { createInvitation, acceptInvitation, isLastOwner, INVITATION_TTL_DAYS } from '../utils/workspaces.js';
+import {
+  workspaceParams,
+  memberParams,
+  invitationParams,
+  createWorkspaceSchema,
+  updateWorkspaceSchema,
+  inviteMemberSchema,
+  updateMemberSchema,
+  acceptInvitationSchema,
+  CreateWorkspaceBody,
+  UpdateWorkspaceBody,
+  InviteMemberBody,
+  UpdateMemberBody,
+  AcceptInvitationBody,
+} from '../schemas/workspaces.js';
+import type { WorkspaceInvitation } from '../types/models.js';
+
+const router = Router();
+
+// 接受邀请页面地址
+const INVITATION_URL = process.env.INVITATION_URL || `${process.env.FRONTEND_URL || 'http://localhost:5173'}/invitations/accept`;
+
+// 邀请返回给前端时去掉令牌哈希
+function toInvitationResponse(invitation: WorkspaceInvitation) {
+  const { tokenHash, ...rest } = invitation;
+  return rest;
+}
+
+// 获取当前用户所在的全部工作区
+router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    res.json(await workspaces.listForUser(req.user.id));
+  } catch (error: any) {
+    console.error('Get workspaces error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get workspaces' });
+  }
+});
+
+// 创建工作区，创建者成为 owner
+router.post('/', authenticateToken, validateBody(createWorkspaceSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { name } = req.body as CreateWorkspaceBody;
+    const workspace = await workspaces.create({ name, ownerId: req.user.id });
+
+    res.status(201).json({ ...workspace, role: 'owner' });
+  } catch (error: any) {
+    console.error('Create workspace error:', error);
+    res.status(500).json({ error: error.message || 'Failed to create workspace' });
+  }
+});
+
+// 接受邀请加入工作区
+router.post('/invitations/accept', authenticateToken, validateBody(acceptInvitationSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { token } = req.body as AcceptInvitationBody;
+
+    const result = await acceptInvitation(token, req.user.id);
+    if (!result.ok) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.member);
+  } catch (error: any) {
+    console.error('Accept invitation error:', error);
+    res.status(500).json({ error: error.message || 'Failed to accept invitation' });
+  }
+});
+
+// 获取工作区详情及成员
+router.get('/:workspaceId', authenticateToken, validateParams(workspaceParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const workspaceId = parseInt(req.params.workspaceId);
+
+    const access = await authorizeWorkspace(workspaceId, req.user.id, 'view');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json({
+      ...access.workspace,
+      role: access.role,
+      members: await workspaceMembers.list(workspaceId),
+    });
+  } catch (error: any) {
+    console.error('Get workspace error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get workspace' });
+  }
+});
+
+// 重命名工作区
+router.put('/:workspaceId', authenticateToken, validateParams(workspaceParams), validateBody(updateWorkspaceSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const workspaceId = parseInt(req.params.workspaceId);
+
+    if (!(await authorizeWorkspace(workspaceId, req.user.id, 'manage'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { name } = req.body as UpdateWorkspaceBody;
+    res.json(await workspaces.update(workspaceId, { name }));
+  } catch (error: any) {
+    console.error('Update workspace error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update workspace' });
+  }
+});
+
+// 删除工作区，仍有项目时拒绝删除
+router.delete('/:workspaceId', authenticateToken, validateParams(workspaceParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const workspaceId = parseInt(req.params.workspaceId);
+
+    if (!(await authorizeWorkspace(workspaceId, req.user.id, 'manage'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const workspaceProjects = await projects.listByWorkspace(workspaceId);
+    if (workspaceProjects.length > 0) {
+      return res.status(409).json({ error: 'Workspace still has projects', projectCount: workspaceProjects.length });
+    }
+
+    await workspaces.delete(workspaceId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete workspace error:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete workspace' });
+  }
+});
+
+// 获取工作区的项目
+router.get('/:workspaceId/projects', authenticateToken, validateParams(workspaceParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const workspaceId = parseInt(req.params.workspaceId);
+
+    if (!(await authorizeWorkspace(workspaceId, req.user.id, 'view'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json(await projects.listByWorkspace(workspaceId));
+  } catch (error: any) {
+    console.error('Get workspace projects error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get projects' });
+  }
+});
+
+// ===== 成员邀请 =====
+
+// 获取未接受的邀请
+router.get('/:workspaceId/invitations', authenticateToken, validateParams(workspaceParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const workspaceId = parseInt(req.params.workspaceId);
+
+    if (!(await authorizeWorkspace(workspaceId, req.user.id, 'manage'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const invitations = await workspaceInvitations.listPending(workspaceId);
+    res.json(invitations.map(toInvitationResponse));
+  } catch (error: any) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({ error: error.message || 'Failed to get invitations' });
+  }
+});
+
+// 邀请成员，邀请链接通过邮件发送
+router.post('/:workspaceId/invitations', authenticateToken, validateParams(workspaceParams), validateBody(inviteMemberSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    const { email, role } = req.body as InviteMemberBody;
+
+    const access = await authorizeWorkspace(workspaceId, req.user.id, 'manage');
+    if (!access) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const members = await workspaceMembers.list(workspaceId);
+    if (members.some((m) => m.email.toLowerCase() === email.toLowerCase())) {
+      return res.status(409).json({ error: 'User is already a member' });
+    }
+
+    const { token, expiresAt } = await createInvitation({ workspaceId, email, role, invitedBy: req.user.id });
+    const link = `${INVITATION_URL}?token=${encodeURIComponent(token)}`;
+
+    await mailer.send({
+      to: email,
+      subject: `邀请加入工作区「${access.workspace.name}」`,
+      text: `${req.user.name || req.user.email} 邀请您以 ${role} 身份加入工作区「${access.workspace.name}」。\n\n请登录后点击以下链接接受邀请（${INVITATION_TTL_DAYS} 天内有效）：\n${link}`,
+    });
+
+    res.status(201).json({ workspaceId, email, role, expiresAt });
+  } catch (error: any) {
+    console.error('Invite member error:', error);
+    res.status(500).json({ error: error.message || 'Failed to invite member' });
+  }
+});
+
+// 撤回邀请
+router.delete('/:workspaceId/invitations/:invitationId', authenticateToken, validateParams(invitationParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    const invitationId = parseInt(req.params.invitationId);
+
+    if (!(await authorizeWorkspace(workspaceId, req.user.id, 'manage'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const invitation = await workspaceInvitations.getById(invitationId);
+    if (!invitation || invitation.workspaceId !== workspaceId) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    await workspaceInvitations.delete(invitationId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete invitation error:', error);
+    res.status(500).json({ error: error.message || 'Failed to delete invitation' });
+  }
+});
+
+// ===== 成员管理 =====
+
+// 修改成员角色
+router.put('/:workspaceId/members/:userId', authenticateToken, validateParams(memberParams), validateBody(updateMemberSchema), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    const userId = parseInt(req.params.userId);
+    const { role } = req.body as UpdateMemberBody;
+
+    if (!(await authorizeWorkspace(workspaceId, req.user.id, 'manage'))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const member = await workspaceMembers.get(workspaceId, userId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (role !== 'owner' && (await isLastOwner(workspaceId, userId))) {
+      return res.status(409).json({ error: 'Workspace must keep at least one owner' });
+    }
+
+    res.json(await workspaceMembers.upsert({ workspaceId, userId, role }));
+  } catch (error: any) {
+    console.error('Update member error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update member' });
+  }
+});
+
+// 移除成员；成员也可以自行退出
+router.delete('/:workspaceId/members/:userId', authenticateToken, validateParams(memberParams), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const workspaceId = parseInt(req.params.workspaceId);
+    const userId = parseInt(req.params.userId);
+    const permission = userId === req.user.id ? 'view' : 'manage';
+
+    if (!(await authorizeWorkspace(workspaceId, req.user.id, permission))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const member = await workspaceMembers.get(workspaceId, userId);
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (await isLastOwner(workspaceId, userId)) {
+      return res.status(409).json({ error: 'Workspace must keep at least one owner' });
+    }
+
+    await workspaceMembers.remove(workspaceId, userId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Remove member error:', error);
+    res.status(500).json({ error: error.message || 'Failed to remove member' });
+  }
+});
+
+export default router;
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { idParam, projectStatusSchema } from './common.js';
+import { usagePlanSchema } from './usage.js';
+
+export const userRoleSchema = z.enum(['user', 'admin']);
+
+export const userParams = z.object({ userId: idParam });
+
+export const listUsersQuery = z.object({
+  // 按邮箱或昵称模糊搜索
+  q: z.string().trim().max(200).optional(),
+  role: userRoleSchema.optional(),
+  disabled: z.stringbool().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: userRoleSchema,
+});
+
+export const updateUserPlanSchema = z.object({
+  plan: usagePlanSchema,
+});
+
+export const listProjectsQuery = z.object({
+  userId: idParam.optional(),
+  status: projectStatusSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const statsQuery = z.object({
+  // AI 调用统计覆盖的天数
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+export type ListUsersQuery = z.infer<typeof listUsersQuery>;
+export type UpdateUserRoleBody = z.infer<typeof updateUserRoleSchema>;
+export type UpdateUserPlanBody = z.infer<typeof updateUserPlanSchema>;
+export type ListProjectsQuery = z.infer<typeof listProjectsQuery>;
+export type StatsQuery = z.infer<typeof statsQuery>;
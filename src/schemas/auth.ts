@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+// 邮箱统一转为小写保存和查找，大小写不同的邮箱视为同一账号
+const emailSchema = z.string().trim().toLowerCase().pipe(z.email('Invalid email address'));
+
+const passwordSchema = z.string().min(8, 'Password must be at least 8 characters').max(128);
+
+export const registerSchema = z.object({
+  email: emailSchema,
+  password: passwordSchema,
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: emailSchema,
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  newPassword: passwordSchema,
+});
+
+export type RegisterBody = z.infer<typeof registerSchema>;
+export type LoginBody = z.infer<typeof loginSchema>;
+export type RefreshTokenBody = z.infer<typeof refreshTokenSchema>;
+export type ChangePasswordBody = z.infer<typeof changePasswordSchema>;
+export type PasswordResetRequestBody = z.infer<typeof passwordResetRequestSchema>;
+export type PasswordResetConfirmBody = z.infer<typeof passwordResetConfirmSchema>;
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { idParam, optionalText, colorSchema } from './common.js';
+
+export const brandKitParams = z.object({ brandKitId: idParam });
+
+export const listBrandKitsQuery = z.object({
+  // 省略时列出个人默认工作区的套件
+  workspaceId: idParam.optional(),
+});
+
+const paletteSchema = z.object({
+  primary: colorSchema,
+  secondary: colorSchema.nullable().optional(),
+  accent: colorSchema.nullable().optional(),
+  background: colorSchema.nullable().optional(),
+  text: colorSchema.nullable().optional(),
+});
+
+// 字体名称，需在渲染服务器上已安装
+const fontNameSchema = z.string().trim().min(1).max(100).nullable().optional();
+
+const fontsSchema = z.object({
+  title: fontNameSchema,
+  body: fontNameSchema,
+});
+
+// 只校验传入的字段，未传的字段沿用已有值或默认值
+export const logoPlacementSchema = z.object({
+  position: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']).optional(),
+  widthRatio: z.number().min(0.05).max(0.5).optional(),
+  margin: z.number().min(0).max(200).optional(),
+  opacity: z.number().min(0.1).max(1).optional(),
+});
+
+const phraseListSchema = (max: number) => z.array(z.string().trim().min(1).max(100)).max(max);
+
+export const createBrandKitSchema = z.object({
+  name: z.string().trim().min(1, 'Brand kit name is required').max(100),
+  // 省略时创建在个人默认工作区
+  workspaceId: idParam.optional(),
+  palette: paletteSchema,
+  fonts: fontsSchema.optional(),
+  logoPlacement: logoPlacementSchema.optional(),
+  tone: optionalText(1000),
+  bannedPhrases: phraseListSchema(100).optional(),
+  sellingPointOrder: phraseListSchema(20).optional(),
+});
+
+export const updateBrandKitSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    palette: paletteSchema.optional(),
+    fonts: fontsSchema.optional(),
+    logoPlacement: logoPlacementSchema.optional(),
+    // 传 null 清除品牌调性
+    tone: z.string().trim().max(1000).nullable().optional(),
+    bannedPhrases: phraseListSchema(100).optional(),
+    sellingPointOrder: phraseListSchema(20).optional(),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), { message: 'No fields to update' });
+
+export type ListBrandKitsQuery = z.infer<typeof listBrandKitsQuery>;
+export type CreateBrandKitBody = z.infer<typeof createBrandKitSchema>;
+export type UpdateBrandKitBody = z.infer<typeof updateBrandKitSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { LOCALE_CODES } from '../utils/locales.js';
+
+// 路径中的数字 ID
+export const idParam = z.coerce.number().int().positive();
+
+export const projectIdParams = z.object({ projectId: idParam });
+
+export const projectStatusSchema = z.enum(['uploaded', 'scripting', 'scripted', 'generating', 'generated', 'completed']);
+
+export const imageTypeSchema = z.enum([
+  'product_input',
+  'competitor_input',
+  'generated_output',
+  'composited_output',
+  'long_image_output',
+  'preview_output',
+]);
+
+// 颜色值，如 #FFFFFF
+export const colorSchema = z.string().regex(/^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/, 'Must be a hex color like #FFFFFF');
+
+// 可选的文本字段：去除首尾空白，空字符串视为未填写
+export const optionalText = (max: number) =>
+  z.string().trim().max(max).optional().transform((v) => (v === '' ? undefined : v));
+
+// 脚本语言，如 zh-CN、en-US
+export const localeSchema = z.enum(LOCALE_CODES);
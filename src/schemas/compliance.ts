@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { idParam, optionalText } from './common.js';
+import { categorySchema } from './prompts.js';
+
+export const complianceRuleParams = z.object({ ruleId: idParam });
+
+export const complianceIssueParams = z.object({ issueId: idParam });
+
+const ruleTypeSchema = z.enum(['word', 'regex']);
+const severitySchema = z.enum(['error', 'warning']);
+
+export const createComplianceRuleSchema = z.object({
+  type: ruleTypeSchema,
+  pattern: z.string().trim().min(1, 'Pattern is required').max(500),
+  reason: z.string().trim().min(1, 'Reason is required').max(500),
+  suggestion: optionalText(500),
+  // 省略时对全部类目生效
+  category: categorySchema.optional(),
+  severity: severitySchema.default('error'),
+  enabled: z.boolean().default(true),
+});
+
+export const updateComplianceRuleSchema = z
+  .object({
+    type: ruleTypeSchema.optional(),
+    pattern: z.string().trim().min(1).max(500).optional(),
+    reason: z.string().trim().min(1).max(500).optional(),
+    suggestion: z.string().trim().max(500).nullable().optional(),
+    category: categorySchema.nullable().optional(),
+    severity: severitySchema.optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), { message: 'No fields to update' });
+
+export const acknowledgeIssueSchema = z.object({
+  // 确认原因，如“已取得特殊化妆品注册证”
+  note: optionalText(500),
+});
+
+export type CreateComplianceRuleBody = z.infer<typeof createComplianceRuleSchema>;
+export type UpdateComplianceRuleBody = z.infer<typeof updateComplianceRuleSchema>;
+export type AcknowledgeIssueBody = z.infer<typeof acknowledgeIssueSchema>;
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { idParam, optionalText, colorSchema, localeSchema } from './common.js';
+import { logoPlacementSchema } from './brandKits.js';
+import { EXPORT_PRESET_NAMES } from '../utils/exportPresets.js';
+
+export const jobParams = z.object({ jobId: z.uuid() });
+
+// 每个段落一次生成的候选图数量
+const variantsSchema = z.number().int().min(1).max(4).default(1);
+
+// 作为参考输入的产品图，省略时使用项目的全部产品图，传空数组则只用文字生成
+const referenceImageIdsSchema = z.array(idParam).max(8).optional();
+
+// 语言版本，省略时为项目的基础语言；其他语言需先翻译脚本
+const imageLocaleSchema = localeSchema.optional();
+
+export const candidatesQuery = z.object({
+  locale: imageLocaleSchema,
+});
+
+export const generateImagesSchema = z.object({
+  // 省略时为全部段落生成
+  sectionIds: z.array(idParam).min(1).optional(),
+  variants: variantsSchema,
+  referenceImageIds: referenceImageIdsSchema,
+  locale: imageLocaleSchema,
+});
+
+export const regenerateImageSchema = z.object({
+  // 兼容旧版前端，项目和段落以图片记录为准
+  projectId: idParam.optional(),
+  sectionId: idParam.optional(),
+  instruction: optionalText(1000),
+  target: z.enum(['background', 'full']).default('full'),
+  variants: variantsSchema,
+  referenceImageIds: referenceImageIdsSchema,
+});
+
+const textStyleOverrides = z.object({
+  fontFamily: z.string().trim().min(1).max(200).optional(),
+  fontSize: z.number().min(8).max(200).optional(),
+  fontWeight: z.union([z.enum(['normal', 'bold']), z.number().int().min(100).max(900)]).optional(),
+  color: colorSchema.optional(),
+  lineHeight: z.number().min(0.8).max(3).optional(),
+  maxLines: z.number().int().min(1).max(20).optional(),
+});
+
+// 排版模板覆盖项，shadow/panel 传 null 表示关闭
+export const templateOverridesSchema = z.object({
+  anchor: z.enum(['top', 'center', 'bottom']).optional(),
+  align: z.enum(['left', 'center', 'right']).optional(),
+  maxWidthRatio: z.number().min(0.2).max(1).optional(),
+  gap: z.number().min(0).max(200).optional(),
+  margin: z
+    .object({
+      top: z.number().min(0).max(500).optional(),
+      right: z.number().min(0).max(500).optional(),
+      bottom: z.number().min(0).max(500).optional(),
+      left: z.number().min(0).max(500).optional(),
+    })
+    .optional(),
+  title: textStyleOverrides.optional(),
+  subtitle: textStyleOverrides.optional(),
+  description: textStyleOverrides.optional(),
+  shadow: z
+    .object({
+      color: colorSchema.optional(),
+      opacity: z.number().min(0).max(1).optional(),
+      blur: z.number().min(0).max(50).optional(),
+      offsetX: z.number().min(-50).max(50).optional(),
+      offsetY: z.number().min(-50).max(50).optional(),
+    })
+    .nullable()
+    .optional(),
+  panel: z
+    .object({
+      color: colorSchema.optional(),
+      opacity: z.number().min(0).max(1).optional(),
+      padding: z.number().min(0).max(200).optional(),
+      radius: z.number().min(0).max(200).optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+export const compositeSchema = z.object({
+  // 省略时处理所有已有背景图的段落
+  sectionIds: z.array(idParam).min(1).optional(),
+  template: z.string().trim().min(1).optional(),
+  overrides: templateOverridesSchema.optional(),
+  // 叠加品牌 Logo：省略时品牌套件有 Logo 即叠加，false 不叠加，传位置参数可临时覆盖套件中的位置
+  logo: z.union([z.boolean(), logoPlacementSchema]).optional(),
+  locale: imageLocaleSchema,
+});
+
+// background：无文字背景图；composited：文字合成图（缺失时回退到背景图）
+const outputVariantSchema = z.enum(['background', 'composited']).default('background');
+
+export const longImageSchema = z.object({
+  variant: outputVariantSchema,
+  width: z.number().int().min(320).max(2000).default(750),
+  gutter: z.number().int().min(0).max(200).default(0),
+  background: colorSchema.default('#FFFFFF'),
+  // 平台对单张详情图的高度限制
+  maxSliceHeight: z.number().int().min(200).max(10000).default(1500),
+  format: z.enum(['jpeg', 'png']).default('jpeg'),
+  locale: imageLocaleSchema,
+});
+
+export const downloadQuery = z.object({
+  variant: outputVariantSchema,
+  // 导出预设，逗号分隔（如 taobao,jd），每个预设单独一个目录；省略时打包原图
+  presets: z
+    .string()
+    .transform((value) => [...new Set(value.split(',').map((name) => name.trim()).filter(Boolean))])
+    .pipe(z.array(z.enum(EXPORT_PRESET_NAMES)).min(1))
+    .optional(),
+  // 是否附带拼接长图切片和 HTML 预览页（按默认参数即时生成）
+  longImage: z.stringbool().default(false),
+  locale: imageLocaleSchema,
+});
+
+export type GenerateImagesBody = z.infer<typeof generateImagesSchema>;
+export type CandidatesQuery = z.infer<typeof candidatesQuery>;
+export type LongImageBody = z.infer<typeof longImageSchema>;
+export type DownloadQuery = z.infer<typeof downloadQuery>;
+export type CompositeBody = z.infer<typeof compositeSchema>;
+export type RegenerateImageBody = z.infer<typeof regenerateImageSchema>;
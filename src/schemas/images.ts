@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { idParam } from './common.js';
+import { DIRECT_UPLOAD_CONTENT_TYPES, DIRECT_UPLOAD_MAX_BYTES, DirectUploadContentType } from '../utils/directUpload.js';
+
+export const imageParams = z.object({ imageId: idParam });
+
+// multipart 表单字段，文件本身由 multer 处理
+export const uploadImagesSchema = z.object({
+  type: z.enum(['product_input', 'competitor_input']).default('product_input'),
+});
+
+export const directUploadParams = z.object({ uploadId: z.uuid() });
+
+// 直传：声明要上传的文件，服务端返回预签名上传地址
+export const createDirectUploadsSchema = z.object({
+  type: uploadImagesSchema.shape.type,
+  files: z
+    .array(
+      z.object({
+        filename: z.string().trim().min(1).max(255),
+        contentType: z.enum(Object.keys(DIRECT_UPLOAD_CONTENT_TYPES) as [DirectUploadContentType, ...DirectUploadContentType[]]),
+        size: z.number().int().positive().max(DIRECT_UPLOAD_MAX_BYTES, `Must be at most ${DIRECT_UPLOAD_MAX_BYTES} bytes`),
+      })
+    )
+    .min(1)
+    .max(20),
+});
+
+export const confirmDirectUploadsSchema = z.object({
+  uploadIds: z.array(z.uuid()).min(1).max(20),
+});
+
+export type UploadImagesBody = z.infer<typeof uploadImagesSchema>;
+export type CreateDirectUploadsBody = z.infer<typeof createDirectUploadsSchema>;
+export type ConfirmDirectUploadsBody = z.infer<typeof confirmDirectUploadsSchema>;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { idParam, optionalText, projectStatusSchema, localeSchema } from './common.js';
+import { categorySchema, promptSelectionSchema } from './prompts.js';
+
+export const projectParams = z.object({ id: idParam });
+
+export const createProjectSchema = z.object({
+  productName: z.string().trim().min(1, 'Product name is required').max(200),
+  productDesc: optionalText(5000),
+  // 商品类目，用于匹配类目提示词模板
+  category: categorySchema.optional(),
+  // 脚本语言，默认简体中文
+  locale: localeSchema.optional(),
+  // 省略时创建在个人默认工作区
+  workspaceId: idParam.optional(),
+});
+
+export const updateProjectSchema = z
+  .object({
+    productName: z.string().trim().min(1).max(200).optional(),
+    productDesc: optionalText(5000),
+    status: projectStatusSchema.optional(),
+    category: categorySchema.nullable().optional(),
+    // 整体替换项目选用的提示词模板，未列出的用途按类目模板/内置模板选择
+    promptTemplates: promptSelectionSchema.optional(),
+    // 选用同一工作区的品牌套件，传 null 取消
+    brandKitId: idParam.nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), { message: 'No fields to update' });
+
+export type CreateProjectBody = z.infer<typeof createProjectSchema>;
+export type UpdateProjectBody = z.infer<typeof updateProjectSchema>;
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { idParam, optionalText } from './common.js';
+
+export const promptKindSchema = z.enum(['script', 'section', 'ocr', 'image', 'translate', 'analysis']);
+
+// 模板名称：小写字母开头，仅含小写字母、数字和下划线
+export const promptTemplateNameSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-z][a-z0-9_]{1,63}$/, 'Must be 2-64 lowercase letters, digits or underscores, starting with a letter');
+
+// 商品类目，如"美妆"、"家电"
+export const categorySchema = z.string().trim().min(1).max(100);
+
+// 项目为各用途选用的模板，version 省略时始终使用最新版本
+export const promptSelectionSchema = z.partialRecord(
+  promptKindSchema,
+  z.object({
+    name: promptTemplateNameSchema,
+    version: z.number().int().positive().optional(),
+  })
+);
+
+export const promptVariableSchema = z.object({
+  name: z.string().regex(/^\w+$/),
+  description: optionalText(200),
+  required: z.boolean().optional(),
+  default: optionalText(2000),
+});
+
+const promptVersionFields = {
+  system: z.string().max(5000).nullable().optional(),
+  body: z.string().min(1, 'Template body is required').max(20000),
+  variables: z.array(promptVariableSchema).max(20).default([]),
+  note: optionalText(500),
+};
+
+export const templateNameParams = z.object({ name: promptTemplateNameSchema });
+
+export const templateVersionParams = z.object({
+  name: promptTemplateNameSchema,
+  version: idParam,
+});
+
+export const listTemplatesQuery = z.object({
+  kind: promptKindSchema.optional(),
+  category: categorySchema.optional(),
+});
+
+export const createTemplateSchema = z.object({
+  name: promptTemplateNameSchema,
+  kind: promptKindSchema,
+  category: categorySchema.nullable().optional(),
+  description: optionalText(500),
+  ...promptVersionFields,
+});
+
+export const createTemplateVersionSchema = z.object(promptVersionFields);
+
+export const updateTemplateSchema = z
+  .object({
+    category: categorySchema.nullable().optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), { message: 'No fields to update' });
+
+export const previewPromptSchema = z.object({
+  projectId: idParam,
+  kind: promptKindSchema,
+  // section/image 模板需要指定段落
+  sectionId: idParam.optional(),
+  // 省略时预览项目实际会使用的模板
+  template: promptTemplateNameSchema.optional(),
+  version: z.number().int().positive().optional(),
+  instruction: optionalText(1000),
+  // 未保存的模板草稿，优先于 template
+  draft: z.object({ system: promptVersionFields.system, body: promptVersionFields.body, variables: promptVersionFields.variables }).optional(),
+});
+
+export type ListTemplatesQuery = z.infer<typeof listTemplatesQuery>;
+export type CreateTemplateBody = z.infer<typeof createTemplateSchema>;
+export type CreateTemplateVersionBody = z.infer<typeof createTemplateVersionSchema>;
+export type UpdateTemplateBody = z.infer<typeof updateTemplateSchema>;
+export type PreviewPromptBody = z.infer<typeof previewPromptSchema>;
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { idParam, optionalText, localeSchema } from './common.js';
+
+export const sectionParams = z.object({ sectionId: idParam });
+
+export const sectionVersionParams = z.object({ sectionId: idParam, version: idParam });
+
+export const scriptVersionParams = z.object({ projectId: idParam, version: idParam });
+
+// 版本比较：from/to 为版本号
+export const diffQuery = z.object({ from: idParam, to: idParam });
+
+export const generateScriptSchema = z.object({
+  instruction: optionalText(1000),
+  // 脚本语言，省略时沿用项目当前语言；切换语言后该语言原有的译文被删除
+  locale: localeSchema.optional(),
+  // 竞品参考：auto 在竞品分析报告未过期时使用报告，否则使用原始竞品文案
+  competitorSource: z.enum(['auto', 'analysis', 'raw']).default('auto'),
+  // 忽略缓存的结果重新生成
+  fresh: z.boolean().default(false),
+});
+
+export const extractTextSchema = z.object({
+  // 忽略缓存的识别结果重新识别
+  fresh: z.boolean().default(false),
+});
+
+export const analyzeCompetitorsSchema = z.object({
+  instruction: optionalText(1000),
+});
+
+// 获取段落时可指定语言版本
+export const sectionsQuery = z.object({
+  locale: localeSchema.optional(),
+});
+
+export const translateScriptSchema = z.object({
+  locale: localeSchema,
+  // 省略时翻译全部段落
+  sectionIds: z.array(idParam).min(1).optional(),
+  instruction: optionalText(1000),
+});
+
+export const translationLocaleParams = z.object({
+  projectId: idParam,
+  locale: localeSchema,
+});
+
+export const insertSectionSchema = z.object({
+  // 从 0 开始的插入位置，省略时追加到末尾
+  position: z.number().int().min(0).optional(),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  subtitle: optionalText(500),
+  description: optionalText(5000),
+  visualGuide: optionalText(2000),
+});
+
+export const reorderSectionsSchema = z.object({
+  sectionIds: z
+    .array(idParam)
+    .min(1, 'sectionIds must not be empty')
+    .refine((ids) => new Set(ids).size === ids.length, { message: 'sectionIds must not contain duplicates' }),
+});
+
+export const updateSectionSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200).optional(),
+    subtitle: optionalText(500),
+    description: optionalText(5000),
+    visualGuide: optionalText(2000),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), { message: 'No fields to update' });
+
+export const regenerateSectionSchema = z.object({
+  // 兼容旧版前端，段落所属项目以数据库记录为准
+  projectId: idParam.optional(),
+  instruction: optionalText(1000),
+});
+
+// 模型返回的脚本段落
+export const aiSectionSchema = z.object({
+  title: z.string().min(1),
+  subtitle: z.string().optional().nullable(),
+  description: z.string().optional().nullable(),
+  visualGuide: z.string().optional().nullable(),
+});
+
+export const aiScriptSchema = z.object({
+  sections: z.array(aiSectionSchema).min(1),
+});
+
+// 模型返回的译文，段落顺序与输入一致
+export const aiTranslationSchema = z.object({
+  sections: z.array(aiSectionSchema.omit({ visualGuide: true })).min(1),
+});
+
+// 模型返回的竞品分析，无法识别的主题归入 other
+export const aiCompetitorAnalysisSchema = z.object({
+  summary: z.string().optional().nullable(),
+  sellingPoints: z
+    .array(z.object({ point: z.string(), sources: z.array(z.number().int()).catch([]).default([]) }))
+    .default([]),
+  claims: z
+    .array(z.object({ theme: z.enum(['material', 'function', 'price', 'after_sales', 'other']).catch('other'), claim: z.string() }))
+    .default([]),
+  gaps: z.array(z.object({ gap: z.string(), opportunity: z.string().optional().nullable() })).default([]),
+  tone: z.array(z.string()).default([]),
+});
+
+export type GenerateScriptBody = z.infer<typeof generateScriptSchema>;
+export type InsertSectionBody = z.infer<typeof insertSectionSchema>;
+export type ReorderSectionsBody = z.infer<typeof reorderSectionsSchema>;
+export type UpdateSectionBody = z.infer<typeof updateSectionSchema>;
+export type RegenerateSectionBody = z.infer<typeof regenerateSectionSchema>;
+export type SectionsQuery = z.infer<typeof sectionsQuery>;
+export type TranslateScriptBody = z.infer<typeof translateScriptSchema>;
+export type AnalyzeCompetitorsBody = z.infer<typeof analyzeCompetitorsSchema>;
+export type ExtractTextBody = z.infer<typeof extractTextSchema>;
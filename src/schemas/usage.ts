@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { idParam } from './common.js';
+import { USAGE_PLAN_NAMES } from '../utils/usage.js';
+
+export const usagePlanSchema = z.enum(USAGE_PLAN_NAMES);
+
+export const usageHistoryQuery = z.object({
+  projectId: idParam.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type UsageHistoryQuery = z.infer<typeof usageHistoryQuery>;
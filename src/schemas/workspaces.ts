@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { idParam } from './common.js';
+
+export const workspaceRoleSchema = z.enum(['owner', 'editor', 'viewer']);
+
+export const workspaceParams = z.object({ workspaceId: idParam });
+
+export const memberParams = z.object({ workspaceId: idParam, userId: idParam });
+
+export const invitationParams = z.object({ workspaceId: idParam, invitationId: idParam });
+
+export const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, 'Workspace name is required').max(100),
+});
+
+export const updateWorkspaceSchema = createWorkspaceSchema;
+
+export const inviteMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().pipe(z.email('Invalid email address')),
+  role: workspaceRoleSchema.default('editor'),
+});
+
+export const updateMemberSchema = z.object({
+  role: workspaceRoleSchema,
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+});
+
+export type CreateWorkspaceBody = z.infer<typeof createWorkspaceSchema>;
+export type UpdateWorkspaceBody = z.infer<typeof updateWorkspaceSchema>;
+export type InviteMemberBody = z.infer<typeof inviteMemberSchema>;
+export type UpdateMemberBody = z.infer<typeof updateMemberSchema>;
+export type AcceptInvitationBody = z.infer<typeof acceptInvitationSchema>;
@@ -0,0 +1,40 @@
+/**
+ * 设置初始管理员 - 将已注册的账号提升为管理员，之后可在管理后台调整其他用户的角色
+ *
+ * 用法：npm run create-admin -- admin@example.com
+ */
+
+import 'dotenv/config';
+import { users, checkStore, storeSupports } from '../utils/d1Client.js';
+
+async function main() {
+  const email = process.argv[2]?.trim().toLowerCase();
+  if (!email) {
+    throw new Error('Usage: npm run create-admin -- <email>');
+  }
+
+  await checkStore();
+  if (!storeSupports('userAdmin')) {
+    throw new Error('User roles are not available on this data backend');
+  }
+
+  // 账号需先通过注册接口创建，脚本不接收密码
+  const user = await users.login(email);
+  if (!user) {
+    throw new Error(`No user registered with ${email}`);
+  }
+  if (user.role === 'admin') {
+    console.log(`${email} is already an admin`);
+    return;
+  }
+
+  await users.updateRole(user.id, 'admin');
+  console.log(`${email} is now an admin`);
+}
+
+try {
+  await main();
+} catch (error: any) {
+  console.error(error.message);
+  process.exit(1);
+}
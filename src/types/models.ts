@@ -0,0 +1,490 @@
+/**
+ * 领域模型 - API 统一使用 camelCase 字段
+ */
+
+export type ProjectStatus = 'uploaded' | 'scripting' | 'scripted' | 'generating' | 'generated' | 'completed';
+
+// generated_output 为无文字的背景图，composited_output 为叠加文案后的成品图
+export type ImageType =
+  | 'product_input'
+  | 'competitor_input'
+  | 'generated_output'
+  | 'composited_output'
+  // 拼接后的详情页长图切片及 HTML 预览页
+  | 'long_image_output'
+  | 'preview_output';
+
+// 平台角色：admin 可访问 /api/admin 管理接口
+export type UserRole = 'user' | 'admin';
+
+export interface User {
+  id: number;
+  email: string;
+  name: string | null;
+  role: string;
+  // AI 用量套餐，决定每日/每月额度
+  plan: string;
+  // 被管理员停用的时间，停用后无法登录，已签发的令牌也立即失效
+  disabledAt: string | null;
+  // 访问令牌版本，修改或重置密码时递增，签发于旧版本的令牌立即失效
+  tokenVersion: number;
+  createdAt: string;
+}
+
+// 含密码哈希，仅限服务端内部使用，不可直接返回给前端
+export interface UserRecord extends User {
+  passwordHash: string;
+}
+
+// 工作区成员角色：owner 管理成员和删除项目，editor 编辑项目内容，viewer 只读
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: number;
+  name: string;
+  ownerId: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 当前用户可见的工作区，附带其角色
+export interface WorkspaceWithRole extends Workspace {
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  workspaceId: number;
+  userId: number;
+  role: WorkspaceRole;
+  email: string;
+  name: string | null;
+  createdAt: string;
+}
+
+export interface WorkspaceInvitation {
+  id: number;
+  workspaceId: number;
+  email: string;
+  role: WorkspaceRole;
+  tokenHash: string;
+  invitedBy: number;
+  expiresAt: string;
+  acceptedAt: string | null;
+  createdAt: string;
+}
+
+export interface Project {
+  id: number;
+  // 创建者
+  userId: number;
+  // 所属工作区，旧数据迁移前为 null（仅创建者可访问）
+  workspaceId: number | null;
+  productName: string;
+  productDesc: string | null;
+  // 商品类目，用于匹配类目专属的提示词模板
+  category: string | null;
+  // 项目指定的提示词模板，优先于类目模板和内置模板
+  promptTemplates: PromptSelection;
+  // 脚本（基础段落）的语言，翻译出的其他语言版本见 SectionTranslation
+  locale: string;
+  // 项目选用的品牌套件，须属于同一工作区
+  brandKitId: number | null;
+  status: ProjectStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 品牌色，均为十六进制颜色值
+export interface BrandPalette {
+  primary: string;
+  secondary?: string | null;
+  accent?: string | null;
+  background?: string | null;
+  text?: string | null;
+}
+
+export interface BrandFonts {
+  title?: string | null;
+  body?: string | null;
+}
+
+export type LogoPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// Logo 在图片上的位置，widthRatio 为 Logo 宽度占图片宽度的比例，margin 以 1024px 宽为基准
+export interface LogoPlacement {
+  position: LogoPosition;
+  widthRatio: number;
+  margin: number;
+  opacity: number;
+}
+
+// 品牌套件：工作区内共享，项目选用后注入脚本/图片提示词和文字合成
+export interface BrandKit {
+  id: number;
+  workspaceId: number;
+  name: string;
+  palette: BrandPalette;
+  fonts: BrandFonts;
+  logoR2Key: string | null;
+  logoPlacement: LogoPlacement;
+  // 品牌调性描述
+  tone: string | null;
+  // 文案中禁止出现的词句
+  bannedPhrases: string[];
+  // 卖点的优先顺序，如 ["材质", "功能", "售后"]
+  sellingPointOrder: string[];
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BrandKitWithUrl extends BrandKit {
+  logoUrl: string | null;
+}
+
+// 生成时使用的提示词模板版本
+export interface PromptRef {
+  name: string;
+  version: number;
+}
+
+export interface Image {
+  id: number;
+  projectId: number;
+  sectionId: number | null;
+  type: ImageType;
+  r2Key: string;
+  origFilename: string | null;
+  // 同一段落的多张生成图中被选为最终输出的一张
+  selected: boolean;
+  // 生成时作为参考输入的产品图 ID，纯文本生成时为空
+  referenceImageIds: number[];
+  // 生成时使用的提示词模板，非生成图为 null
+  prompt: PromptRef | null;
+  // 生成图/合成图所属的语言版本，null 为项目的基础语言
+  locale: string | null;
+  // 上传图片处理后的尺寸和原始文件的 SHA-256，其他图片为 null
+  width: number | null;
+  height: number | null;
+  contentHash: string | null;
+  // 各尺寸缩略图的存储 key，只有上传的图片生成缩略图
+  thumbnails: ImageThumbnails;
+  createdAt: string;
+}
+
+// 缩略图尺寸：small 用于列表，medium 用于预览
+export type ThumbnailSize = 'small' | 'medium';
+
+export type ImageThumbnails = Partial<Record<ThumbnailSize, string>>;
+
+export interface Section {
+  id: number;
+  projectId: number;
+  orderIndex: number;
+  title: string;
+  subtitle: string | null;
+  description: string | null;
+  visualGuide: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 段落文案的其他语言版本，与基础段落一一对应；视觉指导不翻译，沿用基础段落
+export interface SectionTranslation {
+  id: number;
+  sectionId: number;
+  projectId: number;
+  locale: string;
+  title: string;
+  subtitle: string | null;
+  description: string | null;
+  // 翻译时基础段落的更新时间，早于段落当前的 updatedAt 说明译文已过期
+  sourceUpdatedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 段落的可编辑内容
+export interface SectionContent {
+  title: string;
+  subtitle?: string | null;
+  description?: string | null;
+  visualGuide?: string | null;
+}
+
+// 版本来源：人工编辑、AI 生成或从历史版本恢复
+export type VersionSource = 'manual' | 'ai' | 'restore';
+
+export interface SectionVersion {
+  id: number;
+  sectionId: number;
+  projectId: number;
+  version: number;
+  title: string;
+  subtitle: string | null;
+  description: string | null;
+  visualGuide: string | null;
+  source: VersionSource;
+  instruction: string | null;
+  authorId: number | null;
+  // AI 生成的版本所用的提示词模板
+  prompt: PromptRef | null;
+  createdAt: string;
+}
+
+// 整套脚本的快照
+export interface ScriptVersion {
+  id: number;
+  projectId: number;
+  version: number;
+  source: VersionSource;
+  instruction: string | null;
+  authorId: number | null;
+  prompt: PromptRef | null;
+  sections: SectionContent[];
+  createdAt: string;
+}
+
+export interface CompetitorText {
+  id: number;
+  projectId: number;
+  text: string;
+  analysis: string | null;
+  createdAt: string;
+}
+
+// 竞品宣称的主题：材质、功能、价格、售后，其他归入 other
+export type ClaimTheme = 'material' | 'function' | 'price' | 'after_sales' | 'other';
+
+// 去重后的卖点，frequency 为提及该卖点的竞品文案数
+export interface CompetitorSellingPoint {
+  point: string;
+  frequency: number;
+  sourceTextIds: number[];
+}
+
+export interface CompetitorGap {
+  gap: string;
+  // 我方产品可以切入的方式
+  opportunity: string | null;
+}
+
+// 合并全部竞品文案得到的结构化分析
+export interface CompetitorAnalysis {
+  summary: string;
+  // 按 frequency 降序
+  sellingPoints: CompetitorSellingPoint[];
+  claims: Record<ClaimTheme, string[]>;
+  gaps: CompetitorGap[];
+  tone: string[];
+}
+
+// 每个项目保留最新一份竞品分析报告
+export interface CompetitorReport {
+  id: number;
+  projectId: number;
+  report: CompetitorAnalysis;
+  // 生成报告时使用的竞品文案，与当前文案不一致说明报告已过期
+  sourceTextIds: number[];
+  prompt: PromptRef | null;
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 合规规则：error 级违规会阻止下载，warning 仅提示
+export type ComplianceSeverity = 'error' | 'warning';
+
+// word：按字面匹配（不区分大小写）；regex：正则表达式
+export type ComplianceMatchType = 'word' | 'regex';
+
+// 检查的段落字段，视觉指导不展示给买家，不检查
+export type ComplianceField = 'title' | 'subtitle' | 'description';
+
+// 管理员配置的合规规则，内置规则见 utils/compliance
+export interface ComplianceRule {
+  id: number;
+  type: ComplianceMatchType;
+  pattern: string;
+  reason: string;
+  suggestion: string | null;
+  // 只对该类目的项目生效（项目类目包含该文字即匹配），null 表示全部类目
+  category: string | null;
+  severity: ComplianceSeverity;
+  enabled: boolean;
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 段落文案中的一处违规，start/end 为字段内的字符位置
+export interface ComplianceIssue {
+  id: number;
+  projectId: number;
+  sectionId: number;
+  field: ComplianceField;
+  start: number;
+  end: number;
+  text: string;
+  // 内置规则为 builtin:<code>，自定义规则为 custom:<id>
+  ruleId: string;
+  reason: string;
+  suggestion: string | null;
+  severity: ComplianceSeverity;
+  // 确认后不再阻止下载
+  acknowledgedBy: number | null;
+  acknowledgedAt: string | null;
+  acknowledgeNote: string | null;
+  createdAt: string;
+}
+
+// 刷新令牌只保存哈希；同一次登录轮换出的令牌属于同一 family
+export interface RefreshToken {
+  id: number;
+  userId: number;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface PasswordResetToken {
+  id: number;
+  userId: number;
+  tokenHash: string;
+  expiresAt: string;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+// 返回给前端的图片，附带访问地址
+export interface ImageWithUrl extends Image {
+  url: string;
+  thumbnailUrls: ImageThumbnails;
+}
+
+// 客户端直传的上传会话，确认后登记为图片并删除
+export interface DirectUpload {
+  id: string;
+  projectId: number;
+  userId: number;
+  type: ImageType;
+  // 客户端上传的暂存对象，确认时处理后另存为正式图片
+  r2Key: string;
+  origFilename: string;
+  contentType: string;
+  size: number;
+  // 分片上传时存储返回的上传 ID 和分片大小，单次上传为 null
+  multipartId: string | null;
+  partSize: number | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface ProjectDetail extends Project {
+  // 当前用户在项目所属工作区的角色
+  role: WorkspaceRole;
+  images: ImageWithUrl[];
+  sections: Section[];
+  competitorText: CompetitorText[];
+}
+
+// AI 调用类型：生成脚本、重新生成段落、竞品 OCR、生成详情图、翻译脚本、竞品分析
+export type AiUsageKind = 'script' | 'section' | 'ocr' | 'image' | 'translate' | 'analysis';
+
+// 提示词模板用途，与 AI 调用类型一一对应
+export type PromptKind = AiUsageKind;
+
+// 按用途指定模板，version 省略时使用模板的最新版本
+export type PromptSelection = Partial<Record<PromptKind, { name: string; version?: number }>>;
+
+// 模板声明的变量，渲染时未提供取 default，required 且无值时报错
+export interface PromptVariable {
+  name: string;
+  description?: string;
+  required?: boolean;
+  default?: string;
+}
+
+export interface PromptTemplate {
+  id: number;
+  name: string;
+  kind: PromptKind;
+  category: string | null;
+  description: string | null;
+  latestVersion: number;
+  createdBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 模板版本不可修改，修改模板即新增版本
+export interface PromptTemplateVersion {
+  id: number;
+  templateId: number;
+  version: number;
+  system: string | null;
+  body: string;
+  variables: PromptVariable[];
+  note: string | null;
+  createdBy: number | null;
+  createdAt: string;
+}
+
+export interface AiUsageRecord {
+  id: number;
+  userId: number;
+  projectId: number | null;
+  kind: AiUsageKind;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // 本次调用实际生成的图片数
+  imageCount: number;
+  prompt: PromptRef | null;
+  createdAt: string;
+}
+
+// ===== 幂等请求 =====
+// 同一用户携带相同 Idempotency-Key 的重复请求直接重放首次的响应
+export type IdempotencyStatus = 'pending' | 'completed';
+// 流式接口（SSE）只保存最终的 done 事件
+export type IdempotencyResponseType = 'json' | 'sse';
+
+export interface IdempotencyRecord {
+  id: number;
+  userId: number;
+  key: string;
+  // 请求方法、路径和请求体的哈希，同一 key 用于不同请求时拒绝
+  requestHash: string;
+  status: IdempotencyStatus;
+  responseStatus: number | null;
+  responseType: IdempotencyResponseType | null;
+  responseBody: unknown;
+  expiresAt: string;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+// ===== AI 结果缓存 =====
+// 按模型链和归一化后的提示词内容寻址
+export interface AiCacheEntry {
+  key: string;
+  kind: AiUsageKind;
+  // 实际产生结果的模型
+  model: string;
+  content: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+// 管理后台的平台统计
+export interface PlatformStats {
+  users: { total: number; disabled: number; admins: number };
+  projects: { total: number; byStatus: Partial<Record<ProjectStatus, number>> };
+  images: { total: number; byType: Partial<Record<ImageType, number>> };
+  // 按天统计的 AI 调用次数（UTC 日期，升序）
+  aiCallsPerDay: Array<{ date: string; script: number; section: number; ocr: number; image: number; translate: number; analysis: number; total: number }>;
+}
@@ -0,0 +1,134 @@
+/**
+ * 本地 mock 服务商 - 按调用用途返回固定格式的 JSON 和占位图，同样的输入总是得到同样的输出，
+ * 用于离线开发和测试时跑通完整流程
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import type { AiProvider, ChatMessage, ImageRequest, ImageResult, TextChunk, TextRequest, TextResult } from './types.js';
+import type { AiUsageKind } from '../../types/models.js';
+
+const textOf = (messages: ChatMessage[]) =>
+  messages
+    .map((m) => (typeof m.content === 'string' ? m.content : m.content.map((p) => (p.type === 'text' ? p.text : '')).join('\n')))
+    .join('\n');
+
+const hashOf = (text: string) => crypto.createHash('sha256').update(text).digest();
+
+const mockSection = (i: number) => ({
+  title: `卖点标题 ${i + 1}`,
+  subtitle: `卖点副标题 ${i + 1}`,
+  description: `第 ${i + 1} 屏的卖点说明文案。`,
+  visualGuide: `第 ${i + 1} 屏：产品居中，浅色背景，突出卖点 ${i + 1}。`,
+});
+
+// 从 start 处的 [ 开始找到配对的 ]，跳过字符串中的括号
+function matchingBracket(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+type SourceSection = { title: string; subtitle?: string | null; description?: string | null };
+
+// 翻译请求中的原文段落（提示词里第一个段落 JSON 数组），找不到时按一段处理
+function sourceSectionsOf(prompt: string): SourceSection[] {
+  for (let start = prompt.indexOf('['); start >= 0; start = prompt.indexOf('[', start + 1)) {
+    const end = matchingBracket(prompt, start);
+    if (end < 0) break;
+    try {
+      const parsed = JSON.parse(prompt.slice(start, end + 1));
+      if (Array.isArray(parsed) && parsed.length > 0 && parsed.every((s) => typeof s?.title === 'string')) return parsed;
+    } catch {
+      // 不是合法的 JSON，继续查找
+    }
+  }
+  return [{ title: '标题' }];
+}
+
+function mockContent(purpose: AiUsageKind, prompt: string): unknown {
+  switch (purpose) {
+    case 'script':
+      return { sections: Array.from({ length: 4 }, (_, i) => mockSection(i)) };
+    case 'section':
+      return mockSection(hashOf(prompt)[0] % 10);
+    case 'ocr':
+      return { text: '竞品示例文案：轻薄透气，防水耐磨。', keyPoints: ['轻薄透气', '防水耐磨'] };
+    case 'translate':
+      return {
+        sections: sourceSectionsOf(prompt).map((s) => ({
+          title: `[translated] ${s.title}`,
+          subtitle: s.subtitle ? `[translated] ${s.subtitle}` : null,
+          description: s.description ? `[translated] ${s.description}` : null,
+        })),
+      };
+    case 'analysis':
+      return {
+        summary: '竞品普遍强调防水和轻便，较少提及售后。',
+        sellingPoints: [
+          { point: '防水', sources: [1] },
+          { point: '轻便', sources: [1] },
+        ],
+        claims: [{ theme: 'material', claim: '耐磨面料' }],
+        gaps: [{ gap: '缺少售后承诺', opportunity: '突出质保服务' }],
+        tone: ['简洁直接'],
+      };
+    default:
+      return {};
+  }
+}
+
+// 按字符数粗略估算的用量
+const mockUsage = (prompt: string, content: string) => {
+  const prompt_tokens = Math.ceil(prompt.length / 2);
+  const completion_tokens = Math.ceil(content.length / 2);
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+};
+
+// 流式输出时每个片段的字符数
+const STREAM_CHUNK_SIZE = 16;
+
+export function createMockProvider(): AiProvider {
+  const complete = async (model: string, request: TextRequest): Promise<TextResult> => {
+    request.signal?.throwIfAborted();
+    const prompt = textOf(request.messages);
+    const content = JSON.stringify(mockContent(request.purpose, prompt));
+    return { content, usage: mockUsage(prompt, content) };
+  };
+
+  return {
+    name: 'mock',
+
+    complete,
+
+    async *stream(model: string, request: TextRequest): AsyncIterable<TextChunk> {
+      const { content, usage } = await complete(model, request);
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        yield { delta: content.slice(i, i + STREAM_CHUNK_SIZE) };
+      }
+      yield { usage };
+    },
+
+    // 纯色占位图，颜色由提示词决定
+    async generateImage(model: string, request: ImageRequest): Promise<ImageResult> {
+      request.signal?.throwIfAborted();
+      const [r, g, b] = hashOf(request.prompt);
+      const buffer = await sharp({ create: { width: 1024, height: 1024, channels: 3, background: { r, g, b } } }).png().toBuffer();
+      return { buffer, usage: mockUsage(request.prompt, ''), imageCount: 1 };
+    },
+  };
+}
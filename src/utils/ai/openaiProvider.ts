@@ -0,0 +1,168 @@
+/**
+ * OpenAI 兼容服务商 - 通过 chat completions 调用文本、图片理解和 Gemini 图片生成，
+ * gpt-image / dall-e 系列模型走 images 接口
+ */
+
+import OpenAI, { toFile } from 'openai';
+import { AiProviderError } from './types.js';
+import type { AiProvider, ChatMessage, ImageRequest, ImageResult, TextChunk, TextRequest, TextResult } from './types.js';
+
+export interface OpenAIProviderConfig {
+  apiKey?: string;
+  baseURL: string;
+}
+
+// 走 images 接口的模型
+const IMAGES_API_MODEL = /^(gpt-image|dall-e)/;
+
+// 统一转换为 AiProviderError，调用方取消的请求原样抛出
+function toProviderError(error: unknown): unknown {
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return error;
+  }
+  if (error instanceof OpenAI.APIError) {
+    const retryAfter = error.headers?.get('retry-after');
+    const retryAfterMs = retryAfter && !isNaN(Number(retryAfter)) ? Number(retryAfter) * 1000 : null;
+    return new AiProviderError(error.message, error.status ?? null, retryAfterMs);
+  }
+  return error;
+}
+
+async function call<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    throw toProviderError(error);
+  }
+}
+
+const DATA_URL = /data:image\/[^;]+;base64,([A-Za-z0-9+/=]+)/;
+
+// 从图片地址取得图片数据：data URL 直接解码，http(s) 地址下载
+async function imageFromUrl(url: string): Promise<Buffer | null> {
+  const dataMatch = url.match(DATA_URL);
+  if (dataMatch) {
+    return Buffer.from(dataMatch[1], 'base64');
+  }
+  if (/^https?:\/\//.test(url)) {
+    const response = await fetch(url);
+    return response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+  }
+  return null;
+}
+
+// 兼容各服务商的图片返回格式：文本中的 data URL 或 Markdown 图片链接、多段内容中的 image_url、message.images
+export async function extractImage(message: unknown): Promise<Buffer | null> {
+  if (!message || typeof message !== 'object') return null;
+  const { content, images } = message as { content?: unknown; images?: unknown };
+
+  const urls: string[] = [];
+  if (Array.isArray(images)) {
+    urls.push(...images.map((image) => image?.image_url?.url).filter((url): url is string => typeof url === 'string'));
+  }
+  if (Array.isArray(content)) {
+    for (const part of content) {
+      if (part?.type === 'image_url' && typeof part.image_url?.url === 'string') urls.push(part.image_url.url);
+      if (part?.type === 'text' && typeof part.text === 'string') urls.push(part.text);
+    }
+  } else if (typeof content === 'string') {
+    urls.push(content);
+  }
+
+  for (const text of urls) {
+    const url = text.match(DATA_URL)?.[0] ?? text.match(/!\[[^\]]*\]\((https?:\/\/[^)\s]+)\)/)?.[1] ?? text.trim();
+    const buffer = await imageFromUrl(url);
+    if (buffer) return buffer;
+  }
+  return null;
+}
+
+const toOpenAIMessages = (messages: ChatMessage[]) => messages as OpenAI.Chat.ChatCompletionMessageParam[];
+
+export function createOpenAIProvider(config: OpenAIProviderConfig): AiProvider {
+  // 重试和降级由 aiClient 统一处理
+  const openai = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL, maxRetries: 0 });
+
+  const textParams = (model: string, request: TextRequest) => ({
+    model,
+    messages: toOpenAIMessages(request.messages),
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+  });
+
+  return {
+    name: 'openai',
+
+    async complete(model: string, request: TextRequest): Promise<TextResult> {
+      const completion = await call(() => openai.chat.completions.create(textParams(model, request), { signal: request.signal }));
+      return { content: completion.choices[0]?.message?.content || '', usage: completion.usage };
+    },
+
+    async *stream(model: string, request: TextRequest): AsyncIterable<TextChunk> {
+      const stream = await call(() =>
+        openai.chat.completions.create(
+          { ...textParams(model, request), stream: true, stream_options: { include_usage: true } },
+          { signal: request.signal }
+        )
+      );
+
+      try {
+        for await (const chunk of stream) {
+          yield { delta: chunk.choices[0]?.delta?.content ?? undefined, usage: chunk.usage ?? undefined };
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+
+    async generateImage(model: string, request: ImageRequest): Promise<ImageResult> {
+      const references = request.references ?? [];
+
+      if (IMAGES_API_MODEL.test(model)) {
+        // 有参考图时走图片编辑
+        const files = await Promise.all(references.map((r, i) => toFile(r.buffer, `reference_${i}.jpg`, { type: 'image/jpeg' })));
+        const response = await call(() =>
+          files.length > 0
+            ? openai.images.edit(
+                {
+                  model,
+                  image: files,
+                  prompt: request.prompt,
+                  n: 1,
+                  size: '1024x1024',
+                },
+                { signal: request.signal }
+              )
+            : openai.images.generate(
+                { model, prompt: request.prompt, n: 1, size: '1024x1024', response_format: 'b64_json' },
+                { signal: request.signal }
+              )
+        );
+        const b64 = response.data?.[0]?.b64_json;
+        return { buffer: b64 ? Buffer.from(b64, 'base64') : null, usage: response.usage, imageCount: response.data?.length ?? 0 };
+      }
+
+      // Gemini 图片生成：chat completions 附参考图，要求返回图片
+      const params = {
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: references.length > 0
+              ? [
+                  { type: 'text', text: request.prompt },
+                  ...references.map((r) => ({ type: 'image_url', image_url: { url: r.dataUrl } })),
+                ]
+              : request.prompt,
+          },
+        ],
+        // Gemini 特有参数
+        response_modalities: ['TEXT', 'IMAGE'],
+      } as OpenAI.Chat.ChatCompletionCreateParamsNonStreaming;
+      const response = await call(() => openai.chat.completions.create(params, { signal: request.signal }));
+      const buffer = await extractImage(response.choices[0]?.message);
+      return { buffer, usage: response.usage, imageCount: buffer ? 1 : 0 };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * AI 服务商接口 - OpenAI 兼容服务（VectorEngine 等）/ 本地 mock
+ */
+
+import type { AiUsageKind } from '../../types/models.js';
+
+// 文本（text）、图片理解（vision）和图片生成（image）分别配置模型链
+export type AiCapability = 'text' | 'vision' | 'image';
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface TextRequest {
+  // 调用用途，mock 服务商据此返回对应格式的内容
+  purpose: AiUsageKind;
+  messages: ChatMessage[];
+  // 要求模型返回 JSON 对象
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface TextResult {
+  content: string;
+  usage?: unknown;
+}
+
+// 流式输出的片段，usage 通常只在最后一个片段中出现
+export interface TextChunk {
+  delta?: string;
+  usage?: unknown;
+}
+
+export interface ImageReference {
+  buffer: Buffer;
+  dataUrl: string;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  references?: ImageReference[];
+  // 附带参考图时追加到提示词后的说明
+  referenceNote?: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageResult {
+  // 服务商正常返回但没有图片时为 null
+  buffer: Buffer | null;
+  usage?: unknown;
+  imageCount: number;
+}
+
+export interface AiProvider {
+  name: string;
+  complete(model: string, request: TextRequest): Promise<TextResult>;
+  stream(model: string, request: TextRequest): AsyncIterable<TextChunk>;
+  generateImage(model: string, request: ImageRequest): Promise<ImageResult>;
+}
+
+export class AiProviderError extends Error {
+  constructor(message: string, public status: number | null, public retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'AiProviderError';
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * AI 调用客户端 - 按 AI_PROVIDER 选择服务商，文本、图片理解和图片生成各自按模型链依次尝试，
+ * 限流和服务端错误按指数退避重试，重试用尽或其他错误时降级到链中的下一个模型
+ */
+
+import crypto from 'crypto';
+import { setTimeout as sleep } from 'timers/promises';
+import { aiCache, storeSupports } from './d1Client.js';
+import { createOpenAIProvider } from './ai/openaiProvider.js';
+import { createMockProvider } from './ai/mockProvider.js';
+import { AiProviderError } from './ai/types.js';
+import type { AiCapability, AiProvider, ImageRequest, TextChunk, TextRequest, TextResult } from './ai/types.js';
+
+export type { AiCapability, ChatMessage, ImageReference } from './ai/types.js';
+
+// 服务商：openai（默认，OpenAI 兼容接口）或 mock（本地固定输出，离线测试用）
+const AI_PROVIDER = process.env.AI_PROVIDER || 'openai';
+
+function createProvider(): AiProvider {
+  switch (AI_PROVIDER) {
+    case 'openai':
+      // 默认使用 VectorEngine AI 服务
+      return createOpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_BASE_URL || 'https://api.vectorengine.ai/v1',
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${AI_PROVIDER}`);
+  }
+}
+
+const provider = createProvider();
+
+// 模型链为逗号分隔的模型名，未配置时沿用 TEXT_MODEL / IMAGE_MODEL
+const parseChain = (value: string | undefined, fallback: string[]) => {
+  const models = (value || '').split(',').map((m) => m.trim()).filter(Boolean);
+  return models.length > 0 ? models : fallback;
+};
+
+const TEXT_MODELS = parseChain(process.env.AI_TEXT_MODELS, [process.env.TEXT_MODEL || 'gemini-2.5-flash']);
+
+export const modelChains: Record<AiCapability, string[]> = {
+  text: TEXT_MODELS,
+  vision: parseChain(process.env.AI_VISION_MODELS, TEXT_MODELS),
+  image: parseChain(process.env.AI_IMAGE_MODELS, [process.env.IMAGE_MODEL || 'gemini-2.5-flash-image', 'gpt-image-1']),
+};
+
+// 单个模型的重试次数（不含首次调用）和退避基数
+const AI_MAX_RETRIES = parseInt(process.env.AI_MAX_RETRIES || '2');
+const AI_RETRY_BASE_MS = parseInt(process.env.AI_RETRY_BASE_MS || '500');
+const AI_RETRY_MAX_MS = 10000;
+
+// 单次调用超时；流式输出只限制收到第一个片段前的等待时间
+const TIMEOUTS: Record<AiCapability, number> = {
+  text: parseInt(process.env.AI_TEXT_TIMEOUT_MS || '60000'),
+  vision: parseInt(process.env.AI_VISION_TIMEOUT_MS || '60000'),
+  image: parseInt(process.env.AI_IMAGE_TIMEOUT_MS || '120000'),
+};
+
+// 限流、服务端错误、超时和网络错误可以重试
+const isRetryable = (error: unknown) =>
+  error instanceof AiProviderError && (error.status === null || error.status === 429 || error.status >= 500);
+
+// 优先使用服务商返回的 Retry-After，否则指数退避并加随机抖动
+function retryDelay(error: unknown, attempt: number): number {
+  if (error instanceof AiProviderError && error.retryAfterMs !== null) {
+    return Math.min(error.retryAfterMs, AI_RETRY_MAX_MS);
+  }
+  const base = AI_RETRY_BASE_MS * 2 ** attempt;
+  return Math.min(base + Math.random() * base * 0.5, AI_RETRY_MAX_MS);
+}
+
+// 带超时和重试地调用单个模型，调用方取消时立即抛出
+async function withRetry<T>(capability: AiCapability, model: string, signal: AbortSignal | undefined, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), TIMEOUTS[capability]);
+
+    try {
+      return await fn(signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal);
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      const error = timeout.signal.aborted ? new AiProviderError(`Timed out after ${TIMEOUTS[capability]}ms`, null) : e;
+      if (!isRetryable(error) || attempt >= AI_MAX_RETRIES) throw error;
+
+      const delay = retryDelay(error, attempt);
+      console.warn(`AI ${capability} call to ${model} failed (${(error as Error).message}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, undefined, { signal });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// 按模型链依次尝试，返回第一个成功的结果及所用模型；全部失败时抛出最后一个错误
+async function withFallback<T>(capability: AiCapability, signal: AbortSignal | undefined, fn: (model: string, signal: AbortSignal) => Promise<T>): Promise<{ model: string; result: T }> {
+  let lastError: unknown;
+
+  for (const model of modelChains[capability]) {
+    try {
+      return { model, result: await withRetry(capability, model, signal, (s) => fn(model, s)) };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      lastError = error;
+      console.error(`AI ${capability} call to ${model} failed:`, (error as Error).message);
+    }
+  }
+
+  throw lastError;
+}
+
+// ===== 结果缓存 =====
+
+// 缓存有效期（小时），0 表示不缓存
+const AI_CACHE_TTL_HOURS = parseInt(process.env.AI_CACHE_TTL_HOURS || '168');
+// 流式输出缓存内容时每个片段的字符数
+const CACHED_CHUNK_SIZE = 64;
+
+export interface CacheOptions {
+  // 代替消息中图片数据参与缓存键的标识，如图片的存储 key
+  imageKey?: string;
+  // 跳过已缓存的结果重新生成，新结果仍会写入缓存
+  fresh?: boolean;
+  // JSON 结果解析后的额外校验，不通过的结果不缓存
+  validate?: (parsed: unknown) => boolean;
+}
+
+// 缓存键：能力、模型链、调用参数和归一化后的提示词（合并空白）
+function cacheKeyOf(capability: 'text' | 'vision', request: TextRequest, options: CacheOptions): string {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const messages = request.messages.map((m) => [
+    m.role,
+    typeof m.content === 'string'
+      ? normalize(m.content)
+      : m.content.map((p) => (p.type === 'text' ? normalize(p.text) : options.imageKey ?? p.image_url.url)),
+  ]);
+  const params = [capability, modelChains[capability].join(','), request.purpose, !!request.json, request.temperature ?? null, request.maxTokens ?? null];
+  return crypto.createHash('sha256').update(JSON.stringify([params, messages])).digest('hex');
+}
+
+function isCacheable(request: TextRequest, options: CacheOptions, content: string): boolean {
+  if (!content) return false;
+  if (!request.json) return true;
+  try {
+    const parsed = JSON.parse(content);
+    return options.validate ? options.validate(parsed) : true;
+  } catch {
+    return false;
+  }
+}
+
+// 缓存读写失败不影响生成
+async function readCache(key: string): Promise<{ content: string; model: string } | null> {
+  if (!storeSupports('aiCache')) return null;
+
+  try {
+    const entry = await aiCache.get(key);
+    return entry && new Date(entry.expiresAt).getTime() > Date.now() ? entry : null;
+  } catch (error) {
+    console.error('Failed to read AI cache:', error);
+    return null;
+  }
+}
+
+async function writeCache(key: string, request: TextRequest, model: string, content: string) {
+  if (!storeSupports('aiCache')) return;
+
+  try {
+    await aiCache.set({
+      key,
+      kind: request.purpose,
+      model,
+      content,
+      expiresAt: new Date(Date.now() + AI_CACHE_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to write AI cache:', error);
+  }
+}
+
+// ===== 文本生成 =====
+
+// 文本生成或图片理解。传入 cache 时相同的请求复用缓存的结果（cached 为 true，没有 usage）
+export async function generateText(
+  capability: 'text' | 'vision',
+  request: TextRequest,
+  cache?: CacheOptions
+): Promise<TextResult & { model: string; cached: boolean }> {
+  const cacheKey = cache && AI_CACHE_TTL_HOURS > 0 ? cacheKeyOf(capability, request, cache) : null;
+  if (cacheKey && !cache?.fresh) {
+    const entry = await readCache(cacheKey);
+    if (entry) {
+      return { content: entry.content, model: entry.model, cached: true };
+    }
+  }
+
+  const { model, result } = await withFallback(capability, request.signal, (m, signal) => provider.complete(m, { ...request, signal }));
+  if (cacheKey && cache && isCacheable(request, cache, result.content)) {
+    await writeCache(cacheKey, request, model, result.content);
+  }
+  return { ...result, model, cached: false };
+}
+
+// 流式文本生成。收到第一个片段后才视为调用成功，此前失败的模型会重试或降级，之后的错误直接抛给调用方。
+// 命中缓存时按片段输出缓存的内容；完整输出的结果写入缓存
+export async function streamText(
+  request: TextRequest,
+  cache?: CacheOptions
+): Promise<{ model: string; cached: boolean; chunks: AsyncIterable<TextChunk> }> {
+  const cacheKey = cache && AI_CACHE_TTL_HOURS > 0 ? cacheKeyOf('text', request, cache) : null;
+  if (cacheKey && !cache?.fresh) {
+    const entry = await readCache(cacheKey);
+    if (entry) {
+      async function* cachedChunks(): AsyncIterable<TextChunk> {
+        for (let i = 0; i < entry!.content.length; i += CACHED_CHUNK_SIZE) {
+          yield { delta: entry!.content.slice(i, i + CACHED_CHUNK_SIZE) };
+        }
+      }
+      return { model: entry.model, cached: true, chunks: cachedChunks() };
+    }
+  }
+
+  const { model, result } = await withFallback('text', request.signal, async (m, signal) => {
+    const iterator = provider.stream(m, { ...request, signal })[Symbol.asyncIterator]();
+    return { iterator, first: await iterator.next() };
+  });
+
+  const { iterator, first } = result;
+  async function* chunks(): AsyncIterable<TextChunk> {
+    let content = '';
+    try {
+      for (let next = first; !next.done; next = await iterator.next()) {
+        content += next.value.delta ?? '';
+        yield next.value;
+      }
+    } finally {
+      await iterator.return?.();
+    }
+    if (cacheKey && cache && !request.signal?.aborted && isCacheable(request, cache, content)) {
+      await writeCache(cacheKey, request, model, content);
+    }
+  }
+
+  return { model, cached: false, chunks: chunks() };
+}
+
+// 每次服务商正常返回的调用，用于计量
+export interface ImageCall {
+  model: string;
+  usage?: unknown;
+  imageCount: number;
+}
+
+export interface ImageGeneration {
+  image: { buffer: Buffer; model: string; referencesUsed: boolean } | null;
+  calls: ImageCall[];
+}
+
+// 图片生成：先带参考图依次尝试模型链，都没有产出时去掉参考图再试一遍（只支持文本的服务商），
+// 此时结果不记录参考图。服务商正常返回但没有图片时同样降级到下一个模型
+export async function generateImage(request: ImageRequest): Promise<ImageGeneration> {
+  const calls: ImageCall[] = [];
+  const { referenceNote, ...base } = request;
+  const passes = base.references?.length
+    ? [{ ...base, prompt: referenceNote ? `${base.prompt}\n\n${referenceNote}` : base.prompt }, { ...base, references: [] }]
+    : [base];
+
+  for (const pass of passes) {
+    for (const model of modelChains.image) {
+      try {
+        const result = await withRetry('image', model, request.signal, (signal) => provider.generateImage(model, { ...pass, signal }));
+        calls.push({ model, usage: result.usage, imageCount: result.imageCount });
+        if (result.buffer) {
+          return { image: { buffer: result.buffer, model, referencesUsed: !!pass.references?.length }, calls };
+        }
+      } catch (error) {
+        if (request.signal?.aborted) throw error;
+        console.error(`AI image call to ${model} failed:`, (error as Error).message);
+      }
+    }
+  }
+
+  return { image: null, calls };
+}
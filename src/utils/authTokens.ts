@@ -0,0 +1,119 @@
+/**
+ * 登录会话 - 短期访问令牌 + 轮换刷新令牌，以及一次性密码重置令牌
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { users, refreshTokens, passwordResetTokens, storeSupports } from './d1Client.js';
+import { generateToken, ACCESS_TOKEN_TTL, LEGACY_ACCESS_TOKEN_TTL } from '../middleware/auth.js';
+import type { User } from '../types/models.js';
+
+// 刷新令牌有效期（天）
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+// 密码重置令牌有效期（分钟）
+export const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+
+export interface TokenPair {
+  token: string;
+  // 数据后端不支持刷新令牌时为 null
+  refreshToken: string | null;
+  // 访问令牌有效期（秒）
+  expiresIn: number;
+}
+
+// 数据库只保存令牌的哈希，泄露后无法直接使用
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function expiresAfter(ms: number): string {
+  return new Date(Date.now() + ms).toISOString();
+}
+
+function isExpired(expiresAt: string): boolean {
+  return new Date(expiresAt).getTime() <= Date.now();
+}
+
+// 签发访问令牌和刷新令牌；轮换时沿用原 family，首次登录开启新 family
+export async function issueTokens(user: User, familyId: string = uuidv4()): Promise<TokenPair> {
+  const claims = { id: user.id, email: user.email, name: user.name ?? undefined, role: user.role, ver: user.tokenVersion };
+  if (!storeSupports('authTokens')) {
+    return { token: generateToken(claims, LEGACY_ACCESS_TOKEN_TTL), refreshToken: null, expiresIn: LEGACY_ACCESS_TOKEN_TTL };
+  }
+
+  const refreshToken = randomToken();
+  await refreshTokens.create({
+    userId: user.id,
+    familyId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: expiresAfter(REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  return {
+    token: generateToken(claims),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL,
+  };
+}
+
+// 用刷新令牌换取新的令牌对，旧令牌随即作废。已作废的令牌被再次使用说明可能泄露，
+// 此时撤销整个 family，迫使该会话重新登录
+export async function rotateRefreshToken(refreshToken: string): Promise<{ user: User; tokens: TokenPair } | null> {
+  const record = await refreshTokens.getByHash(hashToken(refreshToken));
+  if (!record || isExpired(record.expiresAt)) {
+    return null;
+  }
+
+  if (record.revokedAt || !(await refreshTokens.revoke(record.id))) {
+    await refreshTokens.revokeFamily(record.familyId);
+    return null;
+  }
+
+  // 已停用的账号不再续期
+  const user = await users.getById(record.userId);
+  if (!user || user.disabledAt) {
+    return null;
+  }
+
+  return { user, tokens: await issueTokens(user, record.familyId) };
+}
+
+// 退出当前会话
+export async function revokeRefreshToken(refreshToken: string): Promise<void> {
+  const record = await refreshTokens.getByHash(hashToken(refreshToken));
+  if (record) {
+    await refreshTokens.revokeFamily(record.familyId);
+  }
+}
+
+// 退出用户的全部会话
+export async function revokeAllSessions(userId: number): Promise<void> {
+  await refreshTokens.revokeAllForUser(userId);
+}
+
+// 生成密码重置令牌，同时作废之前未使用的令牌
+export async function createPasswordResetToken(userId: number): Promise<string> {
+  await passwordResetTokens.invalidateForUser(userId);
+
+  const token = randomToken();
+  await passwordResetTokens.create({
+    userId,
+    tokenHash: hashToken(token),
+    expiresAt: expiresAfter(PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  });
+  return token;
+}
+
+// 校验并消耗密码重置令牌，返回对应的用户 ID；无效、过期或已使用时返回 null
+export async function consumePasswordResetToken(token: string): Promise<number | null> {
+  const record = await passwordResetTokens.getByHash(hashToken(token));
+  if (!record || record.usedAt || isExpired(record.expiresAt)) {
+    return null;
+  }
+
+  return (await passwordResetTokens.markUsed(record.id)) ? record.userId : null;
+}
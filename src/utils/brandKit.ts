@@ -0,0 +1,122 @@
+/**
+ * 品牌套件 - 把项目选用的品牌调性、禁用词、卖点顺序和配色注入提示词，并应用到文字合成和 Logo 叠加
+ */
+
+import sharp from 'sharp';
+import { brandKits, storage, storeSupports } from './d1Client.js';
+import { DEFAULT_FONT, OverlayTemplate, TemplateOverrides } from './textOverlay.js';
+import type { BrandKit, BrandKitWithUrl, LogoPlacement, Project, SectionContent } from '../types/models.js';
+
+export const DEFAULT_LOGO_PLACEMENT: LogoPlacement = { position: 'top-right', widthRatio: 0.18, margin: 32, opacity: 1 };
+
+// Logo 位置以 1024px 宽为基准，与排版模板一致
+const BASE_WIDTH = 1024;
+
+export async function withLogoUrl(kit: BrandKit): Promise<BrandKitWithUrl> {
+  return { ...kit, logoUrl: kit.logoR2Key ? await storage.getUrl(kit.logoR2Key) : null };
+}
+
+// 项目选用的品牌套件；未选用、套件已被删除或数据后端不支持品牌套件时返回 null
+export async function loadProjectBrandKit(project: Project): Promise<BrandKit | null> {
+  return project.brandKitId && storeSupports('brandKits') ? brandKits.getById(project.brandKitId) : null;
+}
+
+function paletteLines(kit: BrandKit): string[] {
+  const { primary, secondary, accent, background, text } = kit.palette;
+  return [
+    `主色 ${primary}`,
+    secondary && `辅助色 ${secondary}`,
+    accent && `强调色 ${accent}`,
+    background && `背景色 ${background}`,
+    text && `文字色 ${text}`,
+  ].filter((line): line is string => Boolean(line));
+}
+
+// 脚本/段落提示词中的品牌规范
+export function brandGuide(kit: BrandKit | null): string | null {
+  if (!kit) return null;
+
+  const lines = [`- 品牌：${kit.name}`];
+  if (kit.tone) {
+    lines.push(`- 品牌调性：${kit.tone}`);
+  }
+  if (kit.sellingPointOrder.length > 0) {
+    lines.push(`- 卖点按以下优先顺序展开：${kit.sellingPointOrder.join(' > ')}`);
+  }
+  if (kit.bannedPhrases.length > 0) {
+    lines.push(`- 禁止使用以下词句：${kit.bannedPhrases.map((p) => `「${p}」`).join('、')}`);
+  }
+  lines.push(`- 视觉指导中的配色遵循品牌色：${paletteLines(kit).join('，')}`);
+  return lines.join('\n');
+}
+
+// 图片提示词中的品牌视觉要求
+export function brandStyle(kit: BrandKit | null): string | null {
+  if (!kit) return null;
+
+  const parts = [`配色以品牌色为主（${paletteLines(kit).join('，')}）`];
+  if (kit.tone) {
+    parts.push(`整体氛围符合品牌调性：${kit.tone}`);
+  }
+  if (kit.logoR2Key) {
+    parts.push(`${kit.logoPlacement.position} 角落留出 Logo 位置`);
+  }
+  return parts.join('；');
+}
+
+// 文案中出现的禁用词
+export function findBannedPhrases(kit: BrandKit | null, contents: SectionContent[]): string[] {
+  if (!kit || kit.bannedPhrases.length === 0) return [];
+
+  const texts = contents.map((c) => [c.title, c.subtitle, c.description].filter(Boolean).join('\n').toLowerCase());
+  return kit.bannedPhrases.filter((phrase) => texts.some((text) => text.includes(phrase.toLowerCase())));
+}
+
+// 品牌字体和配色转为排版覆盖项，位于模板和用户覆盖项之间；只替换模板已有的面板颜色，不额外开启面板
+export function brandOverlayOverrides(kit: BrandKit | null, template: OverlayTemplate): TemplateOverrides {
+  if (!kit) return {};
+
+  const font = (name?: string | null) => (name ? { fontFamily: `'${name.replace(/'/g, '')}', ${DEFAULT_FONT}` } : {});
+  const { primary, secondary, background, text } = kit.palette;
+
+  return {
+    title: { ...font(kit.fonts.title), color: primary },
+    subtitle: { ...font(kit.fonts.body), ...(secondary && { color: secondary }) },
+    description: { ...font(kit.fonts.body), ...(text && { color: text }) },
+    ...(template.panel && background && { panel: { color: background } }),
+  };
+}
+
+// 把 Logo 叠加到图片的指定角落，返回 PNG
+export async function placeLogo(image: Buffer, logo: Buffer, placement: LogoPlacement): Promise<Buffer> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new Error('Unable to read image size');
+  }
+
+  const margin = Math.round((placement.margin * width) / BASE_WIDTH);
+  const { data, info } = await sharp(logo)
+    .resize({
+      width: Math.max(1, Math.round(width * placement.widthRatio)),
+      height: Math.max(1, height - margin * 2),
+      fit: 'inside',
+    })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  if (placement.opacity < 1) {
+    for (let i = 3; i < data.length; i += 4) {
+      data[i] = Math.round(data[i] * placement.opacity);
+    }
+  }
+
+  const [vertical, horizontal] = placement.position.split('-');
+  const top = vertical === 'top' ? margin : height - margin - info.height;
+  const left = horizontal === 'left' ? margin : width - margin - info.width;
+
+  return sharp(image)
+    .composite([{ input: data, raw: { width: info.width, height: info.height, channels: 4 }, top: Math.max(0, top), left: Math.max(0, left) }])
+    .png()
+    .toBuffer();
+}
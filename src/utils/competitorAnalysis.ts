@@ -0,0 +1,136 @@
+/**
+ * 竞品分析 - 把各竞品图的 OCR 文案编号后交给模型分析，合并为去重的结构化报告，并格式化供脚本生成使用
+ */
+
+import type { ClaimTheme, CompetitorAnalysis, CompetitorReport, CompetitorText } from '../types/models.js';
+
+export const CLAIM_THEMES: ClaimTheme[] = ['material', 'function', 'price', 'after_sales', 'other'];
+
+const CLAIM_THEME_LABELS: Record<ClaimTheme, string> = {
+  material: '材质',
+  function: '功能',
+  price: '价格',
+  after_sales: '售后',
+  other: '其他',
+};
+
+// 模型返回的原始分析，sources 为竞品编号（从 1 开始）
+export interface RawCompetitorAnalysis {
+  summary?: string | null;
+  sellingPoints: Array<{ point: string; sources: number[] }>;
+  claims: Array<{ theme: ClaimTheme; claim: string }>;
+  gaps: Array<{ gap: string; opportunity?: string | null }>;
+  tone: string[];
+}
+
+// OCR 时保存的卖点（JSON 数组），解析失败视为没有
+function keyPointsOf(text: CompetitorText): string[] {
+  try {
+    const parsed = JSON.parse(text.analysis || '[]');
+    return Array.isArray(parsed) ? parsed.filter((p): p is string => typeof p === 'string' && p.trim() !== '') : [];
+  } catch {
+    return [];
+  }
+}
+
+// 分析提示词中的竞品文案，编号与 sources 对应
+export function formatCompetitorTexts(texts: CompetitorText[]): string {
+  return texts
+    .map((text, i) => {
+      const keyPoints = keyPointsOf(text);
+      return [`【竞品 ${i + 1}】`, `文案：${text.text || '（无）'}`, ...(keyPoints.length > 0 ? [`卖点：${keyPoints.join('；')}`] : [])].join('\n');
+    })
+    .join('\n\n');
+}
+
+// 去掉空白和标点后比较，合并措辞略有差异的重复项
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\p{P}]/gu, '');
+
+// 按归一化文本去重，保留第一次出现的写法
+function dedupe(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items
+    .map((item) => item.trim())
+    .filter((item) => {
+      const key = normalize(item);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// 合并重复卖点，frequency 按提及的竞品文案数计算；没有标注来源的卖点按 1 次计
+export function mergeCompetitorAnalysis(raw: RawCompetitorAnalysis, texts: CompetitorText[]): CompetitorAnalysis {
+  const points = new Map<string, { point: string; sourceTextIds: Set<number> }>();
+  for (const { point, sources } of raw.sellingPoints) {
+    const key = normalize(point);
+    if (!key) continue;
+
+    const entry = points.get(key) ?? { point: point.trim(), sourceTextIds: new Set<number>() };
+    for (const source of sources) {
+      const text = texts[source - 1];
+      if (text) entry.sourceTextIds.add(text.id);
+    }
+    points.set(key, entry);
+  }
+
+  const claims = Object.fromEntries(
+    CLAIM_THEMES.map((theme) => [theme, dedupe(raw.claims.filter((c) => c.theme === theme).map((c) => c.claim))])
+  ) as Record<ClaimTheme, string[]>;
+
+  const gapKeys = new Set<string>();
+  const gaps = raw.gaps
+    .filter(({ gap }) => {
+      const key = normalize(gap);
+      if (!key || gapKeys.has(key)) return false;
+      gapKeys.add(key);
+      return true;
+    })
+    .map(({ gap, opportunity }) => ({ gap: gap.trim(), opportunity: opportunity?.trim() || null }));
+
+  return {
+    summary: raw.summary?.trim() || '',
+    sellingPoints: [...points.values()]
+      .map(({ point, sourceTextIds }) => ({ point, frequency: Math.max(1, sourceTextIds.size), sourceTextIds: [...sourceTextIds] }))
+      .sort((a, b) => b.frequency - a.frequency),
+    claims,
+    gaps,
+    tone: dedupe(raw.tone),
+  };
+}
+
+// 报告生成后竞品文案有增删即视为过期
+export function isReportOutdated(report: CompetitorReport, texts: CompetitorText[]): boolean {
+  const current = new Set(texts.map((t) => t.id));
+  return report.sourceTextIds.length !== current.size || report.sourceTextIds.some((id) => !current.has(id));
+}
+
+// 脚本提示词中的竞品分析
+export function formatCompetitorAnalysis(report: CompetitorAnalysis, competitorCount: number): string {
+  const lines: string[] = [];
+  if (report.summary) {
+    lines.push(`总结：${report.summary}`);
+  }
+
+  if (report.sellingPoints.length > 0) {
+    lines.push('', `竞品卖点（共 ${competitorCount} 款竞品，按提及次数排序）：`);
+    lines.push(...report.sellingPoints.map((p) => `- ${p.point}（${p.frequency} 款提及）`));
+  }
+
+  const themes = CLAIM_THEMES.filter((theme) => report.claims[theme].length > 0);
+  if (themes.length > 0) {
+    lines.push('', '竞品宣称：');
+    lines.push(...themes.map((theme) => `- ${CLAIM_THEME_LABELS[theme]}：${report.claims[theme].join('；')}`));
+  }
+
+  if (report.gaps.length > 0) {
+    lines.push('', '竞品空白（我方可差异化的方向）：');
+    lines.push(...report.gaps.map((g) => `- ${g.gap}${g.opportunity ? `：${g.opportunity}` : ''}`));
+  }
+
+  if (report.tone.length > 0) {
+    lines.push('', `竞品文案风格：${report.tone.join('；')}`);
+  }
+
+  return lines.join('\n').trim();
+}
@@ -0,0 +1,256 @@
+/**
+ * 广告法合规检查 - 按内置规则和管理员配置的规则检查段落文案，标出违规片段、原因和修改建议
+ */
+
+import { complianceRules, complianceIssues, storeSupports } from './d1Client.js';
+import type { ComplianceIssueInput } from './store/types.js';
+import type { ComplianceField, ComplianceIssue, ComplianceMatchType, ComplianceSeverity, Project, Section } from '../types/models.js';
+
+// 存在未确认的 error 级违规时是否阻止下载
+export const COMPLIANCE_BLOCK_DOWNLOAD = process.env.COMPLIANCE_BLOCK_DOWNLOAD !== 'false';
+
+const CHECKED_FIELDS: ComplianceField[] = ['title', 'subtitle', 'description'];
+
+export interface BuiltinComplianceRule {
+  code: string;
+  type: ComplianceMatchType;
+  pattern: string;
+  reason: string;
+  suggestion: string;
+  // 只对这些类目生效，null 表示全部类目
+  categories: string[] | null;
+  severity: ComplianceSeverity;
+}
+
+// 《广告法》常见禁用表述，内置规则不可修改
+export const builtinComplianceRules: BuiltinComplianceRule[] = [
+  {
+    code: 'superlative',
+    type: 'regex',
+    pattern: '最(?:好|佳|优|强|高|低|大|新|先进|便宜|实惠|舒适|安全|耐用|受欢迎|畅销|流行|专业|高级|高端|顶级|时尚|火爆|划算|值得)',
+    reason: '《广告法》第九条禁止使用“最”等绝对化用语',
+    suggestion: '删除“最”，或改为“更”“很”等不含比较结论的描述',
+    categories: null,
+    severity: 'error',
+  },
+  {
+    code: 'first',
+    type: 'regex',
+    pattern: '第一|首个|首家|首选|首款|NO\\.?\\s*1|TOP\\s*1|冠军|销量王',
+    reason: '《广告法》第九条禁止使用“第一”“首个”等排名用语',
+    suggestion: '改为可查证的具体数据，如“上市一年销量 10 万件”',
+    categories: null,
+    severity: 'error',
+  },
+  {
+    code: 'grade',
+    type: 'regex',
+    pattern: '国家级|世界级|全球级|宇宙级|国际级|顶级|极品|极致',
+    reason: '《广告法》第九条禁止使用“国家级”“顶级”等级别用语',
+    suggestion: '删除级别表述，或改为具体的工艺、材质说明',
+    categories: null,
+    severity: 'error',
+  },
+  {
+    code: 'absolute',
+    type: 'regex',
+    pattern: '100\\s*%|百分之百|唯一|独一无二|绝对|万能|永久|零风险|无副作用|无任何副作用|全网最低',
+    reason: '绝对化承诺无法证实，属于《广告法》禁止的虚假或引人误解的表述',
+    suggestion: '改为客观、可证实的描述，如“检测通过率 99.5%”并注明来源',
+    categories: null,
+    severity: 'error',
+  },
+  {
+    code: 'authority',
+    type: 'regex',
+    pattern: '国家(?:机关)?推荐|领导人推荐|特供|专供|央视推荐|国宾',
+    reason: '《广告法》第九条禁止使用国家机关、国家机关工作人员的名义或形象',
+    suggestion: '删除该表述',
+    categories: null,
+    severity: 'error',
+  },
+  {
+    code: 'medical',
+    type: 'regex',
+    pattern: '治疗|治愈|根治|疗效|药效|消炎|抗癌|防癌|抗肿瘤|药用|处方|降血压|降血糖|降血脂|包治|医疗级|医用级',
+    reason: '《广告法》第十七条规定，药品、医疗器械以外的商品不得涉及疾病治疗功能',
+    suggestion: '删除疾病治疗相关表述，改为描述产品本身的使用感受',
+    categories: null,
+    severity: 'error',
+  },
+  {
+    code: 'guarantee',
+    type: 'regex',
+    pattern: '保证(?:有效|见效|治愈|收益)|无效退款|立竿见影|一次见效|稳赚',
+    reason: '《广告法》禁止对功效、收益作出保证性承诺',
+    suggestion: '删除保证性承诺，如需说明售后政策请写明具体条款',
+    categories: null,
+    severity: 'error',
+  },
+  {
+    code: 'sterilize',
+    type: 'regex',
+    pattern: '杀菌|除菌|抑菌|灭菌|除螨',
+    reason: '杀菌、除菌等功效需要有检测报告支持，平台审核时通常要求提供',
+    suggestion: '确认已有检测报告，并写明检测机构和条件，如“经 XX 检测，对大肠杆菌抑菌率 99%”',
+    categories: null,
+    severity: 'warning',
+  },
+  {
+    code: 'food_health',
+    type: 'regex',
+    pattern: '减肥|瘦身|排毒|燃脂|增强免疫力|提高免疫力|抗衰老|延年益寿|补肾|壮阳|养肝|护肝',
+    reason: '普通食品不得宣传保健功能，保健食品的功能宣传须与注册批准的内容一致',
+    suggestion: '删除功能性表述，改为口味、原料、工艺等描述',
+    categories: ['食品', '保健', '饮品', '零食', '茶'],
+    severity: 'error',
+  },
+  {
+    code: 'cosmetics_medical',
+    type: 'regex',
+    pattern: '药妆|医学护肤|医美级|械字号|祛斑|祛痘|去疤|修复受损|细胞再生|换肤|速效|生发|防脱',
+    reason: '化妆品不得宣传医疗作用或使用医疗术语，祛斑、防脱等特殊功效须取得特殊化妆品注册证',
+    suggestion: '删除医疗相关表述；如已取得特殊化妆品注册证，请按注册证载明的功效描述并确认',
+    categories: ['美妆', '化妆品', '护肤', '彩妆', '个护'],
+    severity: 'error',
+  },
+];
+
+const BUILTIN_RULE_PREFIX = 'builtin:';
+const CUSTOM_RULE_PREFIX = 'custom:';
+
+// 参与检查的规则
+interface ActiveRule {
+  ruleId: string;
+  regex: RegExp;
+  reason: string;
+  suggestion: string | null;
+  severity: ComplianceSeverity;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function compile(type: ComplianceMatchType, pattern: string): RegExp {
+  return new RegExp(type === 'word' ? escapeRegExp(pattern) : pattern, 'gi');
+}
+
+// 校验自定义规则：正则需合法且不能匹配空字符串
+export function validateRulePattern(type: ComplianceMatchType, pattern: string): string | null {
+  let regex: RegExp;
+  try {
+    regex = compile(type, pattern);
+  } catch (e: any) {
+    return e.message;
+  }
+  return regex.test('') ? 'Pattern must not match an empty string' : null;
+}
+
+// 类目规则按包含关系匹配，如“美妆”规则适用于“美妆个护”类目
+const matchesCategory = (category: string | null, ruleCategories: string[] | null) =>
+  !ruleCategories || (category !== null && ruleCategories.some((c) => category.includes(c)));
+
+// 对项目生效的规则：内置规则加上已启用的自定义规则
+export async function loadActiveRules(category: string | null): Promise<ActiveRule[]> {
+  const builtins = builtinComplianceRules
+    .filter((rule) => matchesCategory(category, rule.categories))
+    .map((rule) => ({
+      ruleId: `${BUILTIN_RULE_PREFIX}${rule.code}`,
+      regex: compile(rule.type, rule.pattern),
+      reason: rule.reason,
+      suggestion: rule.suggestion,
+      severity: rule.severity,
+    }));
+
+  const custom = (await complianceRules.list())
+    .filter((rule) => rule.enabled && matchesCategory(category, rule.category ? [rule.category] : null))
+    .flatMap((rule) => {
+      // 校验通过后入库的规则理论上都能编译，个别失效的规则跳过而不影响整次检查
+      try {
+        return [{ ruleId: `${CUSTOM_RULE_PREFIX}${rule.id}`, regex: compile(rule.type, rule.pattern), reason: rule.reason, suggestion: rule.suggestion, severity: rule.severity }];
+      } catch (e) {
+        console.error(`Skipping invalid compliance rule ${rule.id}:`, e);
+        return [];
+      }
+    });
+
+  return [...builtins, ...custom];
+}
+
+// 查找段落文案中的全部违规片段
+export function findViolations(sections: Section[], rules: ActiveRule[]): ComplianceIssueInput[] {
+  const issues: ComplianceIssueInput[] = [];
+
+  for (const section of sections) {
+    for (const field of CHECKED_FIELDS) {
+      const text = section[field];
+      if (!text) continue;
+
+      for (const rule of rules) {
+        for (const match of text.matchAll(rule.regex)) {
+          if (!match[0]) continue;
+          issues.push({
+            sectionId: section.id,
+            field,
+            start: match.index!,
+            end: match.index! + match[0].length,
+            text: match[0],
+            ruleId: rule.ruleId,
+            reason: rule.reason,
+            suggestion: rule.suggestion,
+            severity: rule.severity,
+            acknowledgedBy: null,
+            acknowledgedAt: null,
+            acknowledgeNote: null,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+// 同一段落、字段、规则和违规文字视为同一处违规，重新检查时沿用确认信息
+const issueKey = (issue: Pick<ComplianceIssue, 'sectionId' | 'field' | 'ruleId' | 'text'>) =>
+  `${issue.sectionId}|${issue.field}|${issue.ruleId}|${issue.text}`;
+
+// 检查项目的指定段落并替换这些段落的检查结果，返回项目的全部违规
+export async function checkCompliance(project: Project, sections: Section[]): Promise<ComplianceIssue[]> {
+  const [rules, existing] = await Promise.all([loadActiveRules(project.category), complianceIssues.listByProject(project.id)]);
+
+  const acknowledged = new Map(existing.filter((i) => i.acknowledgedAt).map((i) => [issueKey(i), i]));
+  const issues = findViolations(sections, rules).map((issue) => {
+    const previous = acknowledged.get(issueKey(issue));
+    return previous
+      ? { ...issue, acknowledgedBy: previous.acknowledgedBy, acknowledgedAt: previous.acknowledgedAt, acknowledgeNote: previous.acknowledgeNote }
+      : issue;
+  });
+
+  return complianceIssues.replaceForSections(project.id, sections.map((s) => s.id), issues);
+}
+
+// 段落内容变更后自动检查。检查失败只打日志，不影响已保存的内容；数据后端不支持合规检查时跳过
+export async function recheckCompliance(project: Project, sections: Section[]): Promise<ComplianceIssue[] | null> {
+  if (!storeSupports('compliance')) return null;
+
+  try {
+    return await checkCompliance(project, sections);
+  } catch (error) {
+    console.error('Failed to check compliance:', error);
+    return null;
+  }
+}
+
+// 阻止下载的违规：未确认的 error 级违规
+export function blockingIssues(issues: ComplianceIssue[]): ComplianceIssue[] {
+  return issues.filter((issue) => issue.severity === 'error' && !issue.acknowledgedAt);
+}
+
+export function summarizeIssues(issues: ComplianceIssue[]) {
+  return {
+    total: issues.length,
+    errors: issues.filter((i) => i.severity === 'error').length,
+    warnings: issues.filter((i) => i.severity === 'warning').length,
+    blocking: blockingIssues(issues).length,
+  };
+}
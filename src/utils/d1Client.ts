@@ -1,143 +1,137 @@
 /**
- * D1 API 客户端 - 通过 Cloudflare Workers 访问 D1 数据库
+ * 数据访问客户端 - 按 DB_DRIVER 选择数据后端（Cloudflare Workers D1 或本地 SQLite），
+ * 按 STORAGE_DRIVER 选择对象存储驱动
  */
 
-const WORKERS_API_URL = process.env.WORKERS_API_URL || 'https://ecommerce-detail-api.workers.dev';
-const API_SECRET = process.env.WORKERS_API_SECRET || '';
+import { createWorkersStore } from './store/workersStore.js';
+import { createSqliteStore, openDatabase } from './store/sqliteStore.js';
+import { STORE_FEATURES, StoreFeature } from './store/features.js';
+import { detectWorkersSchemaVersion } from './workersApi.js';
+import { createWorkersStorage } from './storage/workersStorage.js';
+import { createLocalStorage } from './storage/localStorage.js';
+import { createS3Storage } from './storage/s3Storage.js';
+import type { DataStore } from './store/types.js';
+import type { StorageDriver } from './storage/types.js';
 
-interface RequestOptions {
-  method?: string;
-  body?: any;
-  headers?: Record<string, string>;
+// 数据后端：workers（默认，Cloudflare D1）或 sqlite（本地嵌入式）。
+// workers 后端按 Worker 报告的数据结构版本启用新功能，见 docs/workers-api.md
+const DB_DRIVER = process.env.DB_DRIVER || 'workers';
+const SQLITE_PATH = process.env.SQLITE_PATH || './data/app.db';
+
+function createStore(): DataStore {
+  switch (DB_DRIVER) {
+    case 'workers':
+      return createWorkersStore();
+    case 'sqlite':
+      return createSqliteStore(openDatabase(SQLITE_PATH));
+    default:
+      throw new Error(`Unknown DB_DRIVER: ${DB_DRIVER}`);
+  }
 }
 
-async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
-  const url = `${WORKERS_API_URL}${path}`;
-  
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'X-API-Key': API_SECRET,
-    ...options.headers,
-  };
+export const store = createStore();
 
-  const response = await fetch(url, {
-    method: options.method || 'GET',
-    headers,
-    body: options.body ? JSON.stringify(options.body) : undefined,
-  });
+// 启动前查询 Worker 的数据结构版本，提示旧版 Worker 上不可用的功能
+export async function checkStore() {
+  if (DB_DRIVER !== 'workers') return;
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error((error as any).error || `HTTP ${response.status}`);
+  const version = await detectWorkersSchemaVersion();
+  const unavailable = (Object.keys(STORE_FEATURES) as StoreFeature[]).filter((feature) => !store.supports(feature));
+  if (unavailable.length > 0) {
+    console.warn(`Workers API schema version ${version}, unavailable features: ${unavailable.join(', ')}`);
   }
-
-  return response.json() as Promise<T>;
 }
 
-// ===== 用户操作 =====
-export const users = {
-  create: (data: { email: string; passwordHash: string; name?: string }) =>
-    request<any>('/api/users', { method: 'POST', body: data }),
-  
-  login: (email: string) =>
-    request<any>('/api/users/login', { method: 'POST', body: { email } }),
-  
-  getById: (id: number) =>
-    request<any>(`/api/users/${id}`),
-};
+// 当前数据后端是否支持某项功能，不支持时调用方跳过或返回 501
+export const storeSupports = (feature: StoreFeature) => store.supports(feature);
 
-// ===== 项目操作 =====
-export const projects = {
-  list: (userId?: number) =>
-    request<any[]>(`/api/projects${userId ? `?userId=${userId}` : ''}`),
-  
-  create: (data: { userId: number; productName: string; productDesc?: string; status?: string }) =>
-    request<any>('/api/projects', { method: 'POST', body: data }),
-  
-  getById: (id: number) =>
-    request<any>(`/api/projects/${id}`),
-  
-  update: (id: number, data: { productName?: string; productDesc?: string; status?: string }) =>
-    request<any>(`/api/projects/${id}`, { method: 'PUT', body: data }),
-  
-  delete: (id: number) =>
-    request<any>(`/api/projects/${id}`, { method: 'DELETE' }),
-};
+export const users = store.users;
+export const projects = store.projects;
+export const images = store.images;
+export const directUploads = store.directUploads;
+export const sections = store.sections;
+export const sectionVersions = store.sectionVersions;
+export const scriptVersions = store.scriptVersions;
+export const sectionTranslations = store.sectionTranslations;
+export const competitorText = store.competitorText;
+export const competitorReports = store.competitorReports;
+export const complianceRules = store.complianceRules;
+export const complianceIssues = store.complianceIssues;
+export const workspaces = store.workspaces;
+export const workspaceMembers = store.workspaceMembers;
+export const workspaceInvitations = store.workspaceInvitations;
+export const refreshTokens = store.refreshTokens;
+export const passwordResetTokens = store.passwordResetTokens;
+export const idempotencyKeys = store.idempotencyKeys;
+export const aiUsage = store.aiUsage;
+export const aiCache = store.aiCache;
+export const promptTemplates = store.promptTemplates;
+export const brandKits = store.brandKits;
+export const stats = store.stats;
 
-// ===== 图片操作 =====
-export const images = {
-  listByProject: (projectId: number) =>
-    request<any[]>(`/api/projects/${projectId}/images`),
-  
-  create: (data: { projectId: number; sectionId?: number; type: string; r2Key: string; origFilename?: string }) =>
-    request<any>('/api/images', { method: 'POST', body: data }),
-  
-  delete: (id: number) =>
-    request<any>(`/api/images/${id}`, { method: 'DELETE' }),
-};
+// ===== 对象存储操作 =====
+// 存储驱动：workers（默认，R2 代理）、local（本地磁盘）或 s3（S3 兼容直连）
+export const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'workers';
+// 签名 URL 默认有效期（秒）
+const STORAGE_URL_TTL = parseInt(process.env.STORAGE_URL_TTL || '3600');
 
-// ===== 脚本段落操作 =====
-export const sections = {
-  listByProject: (projectId: number) =>
-    request<any[]>(`/api/projects/${projectId}/sections`),
-  
-  create: (data: { projectId: number; orderIndex: number; title: string; subtitle?: string; description?: string; visualGuide?: string }) =>
-    request<any>('/api/sections', { method: 'POST', body: data }),
-  
-  update: (id: number, data: { title?: string; subtitle?: string; description?: string; visualGuide?: string }) =>
-    request<any>(`/api/sections/${id}`, { method: 'PUT', body: data }),
-  
-  delete: (id: number) =>
-    request<any>(`/api/sections/${id}`, { method: 'DELETE' }),
-  
-  batchCreate: (projectId: number, sectionsData: Array<{ title: string; subtitle?: string; description?: string; visualGuide?: string }>) =>
-    request<any[]>('/api/sections/batch', { method: 'POST', body: { projectId, sections: sectionsData } }),
-};
+export const STORAGE_SIGNING_SECRET = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'your-secret-key';
 
-// ===== 竞品文案操作 =====
-export const competitorText = {
-  listByProject: (projectId: number) =>
-    request<any[]>(`/api/projects/${projectId}/competitor-text`),
-  
-  create: (data: { projectId: number; text: string; analysis?: string }) =>
-    request<any>('/api/competitor-text', { method: 'POST', body: data }),
-};
+function createStorage(): StorageDriver {
+  switch (STORAGE_DRIVER) {
+    case 'workers':
+      return createWorkersStorage();
+    case 'local':
+      return createLocalStorage({
+        rootDir: process.env.LOCAL_STORAGE_DIR || './data/storage',
+        publicUrl: process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`,
+        signingSecret: STORAGE_SIGNING_SECRET,
+        defaultExpiresIn: STORAGE_URL_TTL,
+      });
+    case 's3':
+      if (!process.env.S3_BUCKET) {
+        throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+      }
+      return createS3Storage({
+        bucket: process.env.S3_BUCKET,
+        endpoint: process.env.S3_ENDPOINT,
+        region: process.env.S3_REGION || 'auto',
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        publicUrl: process.env.S3_PUBLIC_URL,
+        defaultExpiresIn: STORAGE_URL_TTL,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${STORAGE_DRIVER}`);
+  }
+}
 
-// ===== R2 存储操作 =====
-export const storage = {
-  getUrl: (key: string) => `${WORKERS_API_URL}/api/storage/${key}`,
-  
-  upload: async (key: string, file: Buffer | Uint8Array, contentType: string) => {
-    const formData = new FormData();
-    // 将 Buffer/Uint8Array 转换为 ArrayBuffer 再创建 Blob 以确保类型兼容
-    const arrayBuffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
-    formData.append('file', new Blob([arrayBuffer], { type: contentType }), key);
-    formData.append('key', key);
-    
-    const response = await fetch(`${WORKERS_API_URL}/api/storage/upload`, {
-      method: 'POST',
-      headers: {
-        'X-API-Key': API_SECRET,
-      },
-      body: formData,
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Upload failed: ${response.status}`);
-    }
-    
-    return response.json();
-  },
-  
-  delete: (key: string) =>
-    request<any>(`/api/storage/${key}`, { method: 'DELETE' }),
-};
+export const storage = createStorage();
 
 export default {
   users,
   projects,
   images,
+  directUploads,
   sections,
+  sectionVersions,
+  scriptVersions,
+  sectionTranslations,
   competitorText,
+  competitorReports,
+  complianceRules,
+  complianceIssues,
+  workspaces,
+  workspaceMembers,
+  workspaceInvitations,
+  refreshTokens,
+  passwordResetTokens,
+  idempotencyKeys,
+  aiUsage,
+  aiCache,
+  promptTemplates,
+  brandKits,
+  stats,
   storage,
 };
@@ -0,0 +1,178 @@
+/**
+ * 客户端直传 - 按文件签发预签名上传地址（大文件分片上传，可断点续传），
+ * 客户端直接上传到存储后确认，校验对象完整后按普通上传流程处理并登记为图片
+ */
+
+import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { directUploads, storage } from './d1Client.js';
+import { ImageUploadError, processUpload, ProcessedUpload } from './imageUpload.js';
+import type { PresignedRequest, UploadedPart } from './storage/types.js';
+import type { DirectUpload, ImageType } from '../types/models.js';
+
+// 单个文件大小上限
+export const DIRECT_UPLOAD_MAX_BYTES = parseInt(process.env.DIRECT_UPLOAD_MAX_MB || '200') * 1024 * 1024;
+// 分片大小，超过一个分片的文件使用分片上传；S3 要求除最后一片外每片不小于 5MB
+export const DIRECT_UPLOAD_PART_SIZE = Math.max(5, parseInt(process.env.DIRECT_UPLOAD_PART_SIZE_MB || '16')) * 1024 * 1024;
+// 预签名地址有效期（秒），过期后可重新获取
+const DIRECT_UPLOAD_URL_TTL = parseInt(process.env.DIRECT_UPLOAD_URL_TTL || '3600');
+// 上传会话有效期（小时），过期未确认的会话不能再确认
+const DIRECT_UPLOAD_TTL_HOURS = parseInt(process.env.DIRECT_UPLOAD_TTL_HOURS || '24');
+
+// 允许直传的图片类型及暂存对象的扩展名，实际格式在确认时按文件头识别
+export const DIRECT_UPLOAD_CONTENT_TYPES = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/avif': 'avif',
+} as const;
+
+export type DirectUploadContentType = keyof typeof DIRECT_UPLOAD_CONTENT_TYPES;
+
+// 返回给客户端的上传说明：单次上传给出 PUT 请求，分片上传给出尚未上传的分片的请求
+export interface DirectUploadInstructions {
+  id: string;
+  filename: string;
+  size: number;
+  expiresAt: string;
+  upload: PresignedRequest | null;
+  multipart: {
+    partSize: number;
+    partCount: number;
+    uploadedParts: number[];
+    parts: (PresignedRequest & { partNumber: number })[];
+  } | null;
+}
+
+const partCountOf = (upload: DirectUpload) => Math.ceil(upload.size / upload.partSize!);
+
+const isExpired = (upload: DirectUpload) => new Date(upload.expiresAt).getTime() <= Date.now();
+
+// 当前存储驱动的直传接口，不支持时抛出 501
+function directDriver() {
+  if (!storage.direct) {
+    throw new ImageUploadError('Direct uploads are not supported by the current storage driver', 501);
+  }
+  return storage.direct;
+}
+
+export async function createDirectUpload(data: {
+  projectId: number;
+  userId: number;
+  type: ImageType;
+  filename: string;
+  contentType: DirectUploadContentType;
+  size: number;
+}): Promise<DirectUploadInstructions> {
+  const direct = directDriver();
+  const id = uuidv4();
+  const r2Key = `projects/${data.projectId}/uploads/${id}.${DIRECT_UPLOAD_CONTENT_TYPES[data.contentType]}`;
+  const multipart = data.size > DIRECT_UPLOAD_PART_SIZE;
+
+  const upload = await directUploads.create({
+    id,
+    projectId: data.projectId,
+    userId: data.userId,
+    type: data.type,
+    r2Key,
+    origFilename: data.filename,
+    contentType: data.contentType,
+    size: data.size,
+    multipartId: multipart ? await direct.createMultipart(r2Key, data.contentType) : null,
+    partSize: multipart ? DIRECT_UPLOAD_PART_SIZE : null,
+    expiresAt: new Date(Date.now() + DIRECT_UPLOAD_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+  });
+
+  return describeDirectUpload(upload);
+}
+
+// 签发上传地址；分片上传时查询已上传的分片，只为其余分片签发地址，用于断点续传
+export async function describeDirectUpload(upload: DirectUpload): Promise<DirectUploadInstructions> {
+  const direct = directDriver();
+  const base = { id: upload.id, filename: upload.origFilename, size: upload.size, expiresAt: upload.expiresAt };
+
+  if (!upload.multipartId) {
+    return { ...base, upload: await direct.presignPut(upload.r2Key, upload.contentType, DIRECT_UPLOAD_URL_TTL), multipart: null };
+  }
+
+  const uploaded = new Set((await direct.listParts(upload.r2Key, upload.multipartId)).map((p) => p.partNumber));
+  const parts: (PresignedRequest & { partNumber: number })[] = [];
+  for (let partNumber = 1; partNumber <= partCountOf(upload); partNumber++) {
+    if (uploaded.has(partNumber)) continue;
+    parts.push({ partNumber, ...(await direct.presignPart(upload.r2Key, upload.multipartId, partNumber, DIRECT_UPLOAD_URL_TTL)) });
+  }
+
+  return {
+    ...base,
+    upload: null,
+    multipart: { partSize: upload.partSize!, partCount: partCountOf(upload), uploadedParts: [...uploaded].sort((a, b) => a - b), parts },
+  };
+}
+
+// 校验上传完整并下载到本地文件：分片上传先检查所有分片齐全后合并，再核对对象大小，
+// 内容按流写入文件，不整体载入内存。上传未完成时抛出 409，会话保留以便继续上传。
+// 合并后清空会话的分片上传 ID，合并后处理失败再次确认时对象已存在，不再查询分片
+async function downloadDirectUpload(upload: DirectUpload, filePath: string) {
+  const direct = directDriver();
+  if (isExpired(upload)) {
+    throw new ImageUploadError('Upload session has expired', 410);
+  }
+
+  let object = await storage.stat(upload.r2Key);
+  if (!object && upload.multipartId) {
+    const parts = await direct.listParts(upload.r2Key, upload.multipartId);
+    const byNumber = new Map<number, UploadedPart>(parts.map((p) => [p.partNumber, p]));
+    const missing = Array.from({ length: partCountOf(upload) }, (_, i) => i + 1).filter((n) => !byNumber.has(n));
+    if (missing.length > 0) {
+      throw new ImageUploadError(`Upload is incomplete, missing parts: ${missing.join(', ')}`, 409);
+    }
+    await direct.completeMultipart(upload.r2Key, upload.multipartId, Array.from(byNumber.values()));
+    await directUploads.clearMultipart(upload.id);
+    upload.multipartId = null;
+    object = await storage.stat(upload.r2Key);
+  }
+
+  if (!object) {
+    throw new ImageUploadError('Uploaded file not found in storage', 409);
+  }
+  if (object.size !== upload.size) {
+    throw new ImageUploadError(`Uploaded size ${object.size} does not match declared size ${upload.size}`);
+  }
+
+  const stream = await storage.getStream(upload.r2Key);
+  if (!stream) {
+    throw new ImageUploadError('Uploaded file not found in storage', 409);
+  }
+  await pipeline(stream, createWriteStream(filePath));
+}
+
+// 下载到临时文件后按普通上传流程处理，处理完删除临时文件
+export async function processDirectUpload(upload: DirectUpload): Promise<ProcessedUpload> {
+  const filePath = path.join(os.tmpdir(), `direct-upload-${uuidv4()}`);
+  try {
+    await downloadDirectUpload(upload, filePath);
+    return await processUpload(filePath);
+  } finally {
+    await fs.rm(filePath, { force: true });
+  }
+}
+
+// 删除上传会话及暂存对象，未完成的分片上传一并取消
+export async function discardDirectUpload(upload: DirectUpload) {
+  try {
+    if (upload.multipartId && storage.direct) {
+      await storage.direct.abortMultipart(upload.r2Key, upload.multipartId).catch(() => undefined);
+    }
+    await storage.delete(upload.r2Key);
+  } catch (e) {
+    console.error(`Failed to delete direct upload object ${upload.r2Key}:`, e);
+  }
+  await directUploads.delete(upload.id);
+}
@@ -0,0 +1,158 @@
+/**
+ * 导出预设 - 按各电商平台的尺寸、格式和体积要求转换详情图
+ */
+
+import sharp, { Sharp } from 'sharp';
+
+export type ExportFormat = 'jpeg' | 'webp' | 'png';
+
+export interface ExportPreset {
+  name: string;
+  label: string;
+  // 输出宽度；height 为空时按原图比例缩放，不限制高度
+  width: number;
+  height: number | null;
+  // cover：裁切填满；contain：等比缩放后用背景色补边
+  fit: 'cover' | 'contain';
+  background: string;
+  format: ExportFormat;
+  // 单张图片体积上限（字节）
+  maxBytes: number;
+  // 按导出序号（从 1 开始）生成文件名，不含扩展名
+  fileName: (index: number) => string;
+}
+
+export interface ExportedImage {
+  buffer: Buffer;
+  fileName: string;
+  // 压缩后仍超出体积上限
+  oversized: boolean;
+}
+
+const MB = 1024 * 1024;
+
+// 逐级降低的压缩质量
+const QUALITY_STEPS = [90, 82, 74, 66, 58, 50, 42];
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  jpeg: 'jpg',
+  webp: 'webp',
+  png: 'png',
+};
+
+const pad = (index: number) => String(index).padStart(2, '0');
+
+export const exportPresets: Record<string, ExportPreset> = {
+  taobao: {
+    name: 'taobao',
+    label: '淘宝/天猫详情',
+    width: 750,
+    height: null,
+    fit: 'cover',
+    background: '#FFFFFF',
+    format: 'jpeg',
+    maxBytes: 3 * MB,
+    fileName: (index) => `tb_detail_${pad(index)}`,
+  },
+  jd: {
+    name: 'jd',
+    label: '京东详情',
+    width: 990,
+    height: null,
+    fit: 'cover',
+    background: '#FFFFFF',
+    format: 'jpeg',
+    maxBytes: 1 * MB,
+    fileName: (index) => `jd_detail_${pad(index)}`,
+  },
+  pinduoduo: {
+    name: 'pinduoduo',
+    label: '拼多多详情',
+    width: 750,
+    height: null,
+    fit: 'cover',
+    background: '#FFFFFF',
+    format: 'jpeg',
+    maxBytes: 1 * MB,
+    fileName: (index) => `pdd_${pad(index)}`,
+  },
+  douyin: {
+    name: 'douyin',
+    label: '抖音商品主图',
+    width: 1080,
+    height: 1080,
+    fit: 'cover',
+    background: '#FFFFFF',
+    format: 'jpeg',
+    maxBytes: 2 * MB,
+    fileName: (index) => `douyin_${pad(index)}`,
+  },
+  amazon: {
+    name: 'amazon',
+    label: 'Amazon 商品图',
+    width: 2000,
+    height: 2000,
+    fit: 'contain',
+    background: '#FFFFFF',
+    format: 'jpeg',
+    maxBytes: 10 * MB,
+    // 亚马逊命名约定：首张为 MAIN，其余为 PT01、PT02…
+    fileName: (index) => (index === 1 ? 'MAIN' : `PT${pad(index - 1)}`),
+  },
+  webp: {
+    name: 'webp',
+    label: '通用 WebP',
+    width: 1024,
+    height: null,
+    fit: 'cover',
+    background: '#FFFFFF',
+    format: 'webp',
+    maxBytes: 500 * 1024,
+    fileName: (index) => `detail_${pad(index)}`,
+  },
+};
+
+export const EXPORT_PRESET_NAMES = Object.keys(exportPresets) as [string, ...string[]];
+
+function encode(pipeline: Sharp, format: ExportFormat, quality: number): Promise<Buffer> {
+  switch (format) {
+    case 'jpeg':
+      return pipeline.jpeg({ quality, mozjpeg: true }).toBuffer();
+    case 'webp':
+      return pipeline.webp({ quality }).toBuffer();
+    case 'png':
+      return pipeline.png({ compressionLevel: 9, palette: quality < 90, quality }).toBuffer();
+  }
+}
+
+// 按预设缩放/裁切/补边并转换格式，逐级降低质量直到满足体积上限
+export async function renderForPreset(input: Buffer, preset: ExportPreset, index: number): Promise<ExportedImage> {
+  const resized = await sharp(input)
+    .rotate()
+    .resize(preset.width, preset.height ?? undefined, {
+      fit: preset.height ? preset.fit : 'inside',
+      position: 'centre',
+      background: preset.background,
+    })
+    // JPEG 不支持透明通道，统一铺底色
+    .flatten({ background: preset.background })
+    .toBuffer();
+
+  let buffer: Buffer | null = null;
+  for (const quality of QUALITY_STEPS) {
+    buffer = await encode(sharp(resized), preset.format, quality);
+    if (buffer.length <= preset.maxBytes) break;
+  }
+
+  return {
+    buffer: buffer!,
+    fileName: `${preset.fileName(index)}.${EXTENSIONS[preset.format]}`,
+    oversized: buffer!.length > preset.maxBytes,
+  };
+}
+
+// 预设的公开信息（不含命名函数）
+export function describePreset(preset: ExportPreset) {
+  const { fileName, ...rest } = preset;
+  return { ...rest, extension: EXTENSIONS[preset.format], example: `${fileName(1)}.${EXTENSIONS[preset.format]}` };
+}
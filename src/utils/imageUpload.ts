@@ -0,0 +1,184 @@
+/**
+ * 上传图片处理 - 按文件头识别格式，去除 EXIF/GPS 等元数据，HEIC/WebP 等格式统一转为 JPEG/PNG，
+ * 记录尺寸和内容哈希（同项目去重），并生成固定尺寸的缩略图
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { images, storage, storeSupports } from './d1Client.js';
+import type { Image, ImageThumbnails, ImageType, ImageWithUrl, ThumbnailSize } from '../types/models.js';
+
+// 缩略图长边像素，均输出 WebP
+export const THUMBNAIL_SIZES: Record<ThumbnailSize, number> = {
+  small: 256,
+  medium: 768,
+};
+
+// 允许解码的最大像素数（百万像素），超出的图片直接拒绝，避免解码时占用过多内存
+const UPLOAD_MAX_MEGAPIXELS = parseInt(process.env.UPLOAD_MAX_MEGAPIXELS || '100');
+const UPLOAD_MAX_PIXELS = UPLOAD_MAX_MEGAPIXELS * 1000000;
+// 识别格式读取的文件头长度
+const HEADER_BYTES = 4096;
+
+type SniffedFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'heic' | 'avif';
+
+export class ImageUploadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ImageUploadError';
+  }
+}
+
+// ISO BMFF（HEIC/AVIF）容器的 ftyp 品牌
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+// 按文件头识别图片格式，不信任客户端提供的文件名和 MIME 类型
+export function sniffImageFormat(buffer: Buffer): SniffedFormat | null {
+  const ascii = (start: number, end: number) => buffer.toString('latin1', start, end);
+
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (buffer.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  if (buffer.length >= 6 && (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a')) return 'gif';
+  if (buffer.length >= 12 && ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    // 部分文件的主品牌是 mif1，实际格式由兼容品牌决定
+    const compatible = ascii(16, Math.min(buffer.length, buffer.readUInt32BE(0)));
+    if (AVIF_BRANDS.includes(brand) || (brand === 'mif1' && /avif/.test(compatible))) return 'avif';
+    if (HEIC_BRANDS.includes(brand)) return 'heic';
+  }
+  return null;
+}
+
+export interface ProcessedUpload {
+  buffer: Buffer;
+  contentType: string;
+  ext: string;
+  width: number;
+  height: number;
+  // 原始文件的 SHA-256，相同文件重复上传时据此去重
+  contentHash: string;
+}
+
+export const contentHashOf = (buffer: Buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+// 按流计算文件哈希，不整体读入内存
+async function contentHashOfFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+async function readHeader(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath);
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(HEADER_BYTES), 0, HEADER_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+// 按 EXIF 方向旋转后重新编码，输出不带任何元数据。JPEG、PNG 保持原格式，
+// 其他格式有透明通道时转为 PNG，否则转为 JPEG；动图只保留第一帧。
+// input 为文件内容，或本地文件路径（直传的大文件，由 sharp 直接读取文件）
+export async function processUpload(input: Buffer | string): Promise<ProcessedUpload> {
+  const format = sniffImageFormat(typeof input === 'string' ? await readHeader(input) : input);
+  if (!format) {
+    throw new ImageUploadError('Unsupported image format. Allowed: JPEG, PNG, WebP, GIF, HEIC, AVIF', 415);
+  }
+
+  // 读取尺寸只解析文件头，不受像素上限限制，超出上限时给出明确的错误
+  const metadata = await sharp(input, { limitInputPixels: false })
+    .metadata()
+    .catch(() => {
+      throw format === 'heic'
+        ? new ImageUploadError('HEIC images cannot be decoded on this server, please convert to JPEG', 415)
+        : new ImageUploadError('Invalid or corrupt image file');
+    });
+  if ((metadata.width ?? 0) * (metadata.height ?? 0) > UPLOAD_MAX_PIXELS) {
+    throw new ImageUploadError(`Image exceeds ${UPLOAD_MAX_MEGAPIXELS} megapixels`, 413);
+  }
+
+  const asPng = format === 'png' || (format !== 'jpeg' && (metadata.hasAlpha ?? false));
+  const pipeline = sharp(input, { limitInputPixels: UPLOAD_MAX_PIXELS }).rotate();
+  try {
+    const { data, info } = await (asPng ? pipeline.png() : pipeline.jpeg({ quality: 90, mozjpeg: true })).toBuffer({ resolveWithObject: true });
+    return {
+      buffer: data,
+      contentType: asPng ? 'image/png' : 'image/jpeg',
+      ext: asPng ? 'png' : 'jpg',
+      width: info.width,
+      height: info.height,
+      contentHash: typeof input === 'string' ? await contentHashOfFile(input) : contentHashOf(input),
+    };
+  } catch {
+    throw new ImageUploadError('Invalid or corrupt image file');
+  }
+}
+
+// 生成并上传各尺寸缩略图，key 为原图 key 去掉扩展名后加尺寸后缀
+export async function uploadThumbnails(r2Key: string, buffer: Buffer): Promise<ImageThumbnails> {
+  const base = r2Key.replace(/\.[^./]+$/, '');
+  const thumbnails: ImageThumbnails = {};
+
+  for (const [size, pixels] of Object.entries(THUMBNAIL_SIZES) as [ThumbnailSize, number][]) {
+    const thumbnail = await sharp(buffer)
+      .resize(pixels, pixels, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+    const key = `${base}_${size}.webp`;
+    await storage.upload(key, thumbnail, 'image/webp');
+    thumbnails[size] = key;
+  }
+
+  return thumbnails;
+}
+
+// 保存处理后的上传图片并生成缩略图。项目中已有内容相同的同类型图片时不重复保存，返回已有图片（数据后端不支持去重时总是保存）
+export async function saveProcessedUpload(
+  projectId: number,
+  type: ImageType,
+  origFilename: string,
+  processed: ProcessedUpload
+): Promise<{ image: Image; duplicate: boolean }> {
+  const existing = storeSupports('imageDedup') ? await images.findByHash(projectId, type, processed.contentHash) : null;
+  if (existing) {
+    return { image: existing, duplicate: true };
+  }
+
+  // 生成唯一文件名，扩展名取处理后的格式
+  const r2Key = `projects/${projectId}/${type}/${uuidv4()}.${processed.ext}`;
+  await storage.upload(r2Key, processed.buffer, processed.contentType);
+  const thumbnails = await uploadThumbnails(r2Key, processed.buffer);
+
+  const image = await images.create({
+    projectId,
+    type,
+    r2Key,
+    origFilename,
+    width: processed.width,
+    height: processed.height,
+    contentHash: processed.contentHash,
+    thumbnails,
+  });
+  return { image, duplicate: false };
+}
+
+// 图片及其缩略图的所有存储对象
+export const imageObjectKeys = (image: Image) => [image.r2Key, ...Object.values(image.thumbnails)];
+
+// 附带原图和缩略图访问地址
+export async function withImageUrls(image: Image): Promise<ImageWithUrl> {
+  const thumbnailUrls: ImageThumbnails = {};
+  for (const [size, key] of Object.entries(image.thumbnails) as [ThumbnailSize, string][]) {
+    thumbnailUrls[size] = await storage.getUrl(key);
+  }
+  return { ...image, url: await storage.getUrl(image.r2Key), thumbnailUrls };
+}
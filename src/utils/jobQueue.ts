@@ -0,0 +1,147 @@
+/**
+ * 后台任务队列 - 进程内执行耗时任务并通过事件推送进度
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type JobItemStatus = 'queued' | 'generating' | 'uploaded' | 'failed';
+
+export interface JobItem {
+  sectionId: number;
+  orderIndex: number;
+  title: string;
+  status: JobItemStatus;
+  // 选中图（或第一张候选图）
+  imageId?: number;
+  url?: string;
+  // 本次生成的全部候选图
+  imageIds?: number[];
+  error?: string;
+}
+
+export interface Job {
+  id: string;
+  type: string;
+  projectId: number;
+  userId: number;
+  status: JobStatus;
+  items: JobItem[];
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type JobEvent =
+  | { type: 'job'; job: Job }
+  | { type: 'item'; jobId: string; item: JobItem };
+
+export type JobRunner = (job: Job, queue: JobQueue) => Promise<void>;
+
+// 同时运行的任务数
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2');
+// 已结束任务的保留时间
+const JOB_RETENTION_MS = parseInt(process.env.JOB_RETENTION_MS || String(60 * 60 * 1000));
+
+export class JobQueue {
+  private jobs = new Map<string, Job>();
+  private pending: Array<{ job: Job; runner: JobRunner }> = [];
+  private running = 0;
+  private events = new EventEmitter();
+
+  constructor(private concurrency: number, private retentionMs: number) {
+    this.events.setMaxListeners(0);
+  }
+
+  enqueue(data: { type: string; projectId: number; userId: number; items: Array<Omit<JobItem, 'status'>> }, runner: JobRunner): Job {
+    const job: Job = {
+      id: uuidv4(),
+      type: data.type,
+      projectId: data.projectId,
+      userId: data.userId,
+      status: 'queued',
+      items: data.items.map((item) => ({ ...item, status: 'queued' as const })),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push({ job, runner });
+    this.drain();
+    return job;
+  }
+
+  get(jobId: string): Job | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  // 查找项目当前未结束的任务
+  findActive(projectId: number, type: string): Job | undefined {
+    for (const job of this.jobs.values()) {
+      if (job.projectId === projectId && job.type === type && (job.status === 'queued' || job.status === 'running')) {
+        return job;
+      }
+    }
+    return undefined;
+  }
+
+  updateItem(jobId: string, sectionId: number, patch: Partial<Omit<JobItem, 'sectionId'>>) {
+    const job = this.jobs.get(jobId);
+    const item = job?.items.find((i) => i.sectionId === sectionId);
+    if (!job || !item) return;
+
+    Object.assign(item, patch);
+    this.emit(jobId, { type: 'item', jobId, item: { ...item } });
+  }
+
+  subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  private setStatus(job: Job, status: JobStatus, error?: string) {
+    job.status = status;
+    if (status === 'running') {
+      job.startedAt = new Date().toISOString();
+    }
+    if (status === 'completed' || status === 'failed') {
+      job.finishedAt = new Date().toISOString();
+      if (error) job.error = error;
+      setTimeout(() => this.jobs.delete(job.id), this.retentionMs).unref();
+    }
+    this.emit(job.id, { type: 'job', job: { ...job, items: job.items.map((i) => ({ ...i })) } });
+  }
+
+  private emit(jobId: string, event: JobEvent) {
+    this.events.emit(jobId, event);
+  }
+
+  private drain() {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const { job, runner } = this.pending.shift()!;
+      this.running++;
+      this.setStatus(job, 'running');
+
+      runner(job, this)
+        .then(() => {
+          const allFailed = job.items.length > 0 && job.items.every((i) => i.status === 'failed');
+          this.setStatus(job, allFailed ? 'failed' : 'completed', allFailed ? 'All items failed' : undefined);
+        })
+        .catch((error: any) => {
+          console.error(`Job ${job.id} failed:`, error);
+          this.setStatus(job, 'failed', error.message || 'Job failed');
+        })
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+}
+
+export const jobQueue = new JobQueue(JOB_CONCURRENCY, JOB_RETENTION_MS);
+
+export default jobQueue;
@@ -0,0 +1,87 @@
+/**
+ * 多语言 - 支持的脚本语言，以及把段落译文合并为某一语言版本的段落
+ */
+
+import { sections, sectionTranslations, storeSupports } from './d1Client.js';
+import type { Project, Section, SectionTranslation } from '../types/models.js';
+
+export interface LocaleInfo {
+  code: string;
+  label: string;
+  // 写入提示词的语言名称
+  language: string;
+}
+
+export const DEFAULT_LOCALE = 'zh-CN';
+
+export const locales: Record<string, LocaleInfo> = {
+  'zh-CN': { code: 'zh-CN', label: '简体中文', language: '简体中文' },
+  'zh-TW': { code: 'zh-TW', label: '繁體中文', language: '繁体中文（台湾用语）' },
+  'en-US': { code: 'en-US', label: 'English (US)', language: '美式英语' },
+  'en-GB': { code: 'en-GB', label: 'English (UK)', language: '英式英语' },
+  'ja-JP': { code: 'ja-JP', label: '日本語', language: '日语' },
+  'ko-KR': { code: 'ko-KR', label: '한국어', language: '韩语' },
+  'de-DE': { code: 'de-DE', label: 'Deutsch', language: '德语' },
+  'fr-FR': { code: 'fr-FR', label: 'Français', language: '法语' },
+  'es-ES': { code: 'es-ES', label: 'Español', language: '西班牙语' },
+  'pt-BR': { code: 'pt-BR', label: 'Português (Brasil)', language: '巴西葡萄牙语' },
+  'th-TH': { code: 'th-TH', label: 'ไทย', language: '泰语' },
+  'vi-VN': { code: 'vi-VN', label: 'Tiếng Việt', language: '越南语' },
+  'id-ID': { code: 'id-ID', label: 'Bahasa Indonesia', language: '印尼语' },
+  'ms-MY': { code: 'ms-MY', label: 'Bahasa Melayu', language: '马来语' },
+};
+
+export const LOCALE_CODES = Object.keys(locales) as [string, ...string[]];
+
+export function languageOf(locale: string): string {
+  return locales[locale]?.language ?? locale;
+}
+
+// 某一语言版本的段落：id 与基础段落相同，文案替换为译文
+export interface LocalizedSection extends Section {
+  locale: string;
+  // 基础段落在翻译之后又被修改过
+  outdated: boolean;
+}
+
+// 图片记录的 locale：基础语言记为 null，其他语言记语言代码
+export function imageLocaleOf(project: Project, locale?: string | null): string | null {
+  return locale && locale !== project.locale ? locale : null;
+}
+
+export function localizeSections(baseSections: Section[], translations: SectionTranslation[], locale: string): { sections: LocalizedSection[]; missing: number[] } {
+  const bySection = new Map(translations.filter((t) => t.locale === locale).map((t) => [t.sectionId, t]));
+  const localized: LocalizedSection[] = [];
+  const missing: number[] = [];
+
+  for (const section of baseSections) {
+    const translation = bySection.get(section.id);
+    if (!translation) {
+      missing.push(section.id);
+      continue;
+    }
+    localized.push({
+      ...section,
+      title: translation.title,
+      subtitle: translation.subtitle,
+      description: translation.description,
+      locale,
+      outdated: translation.sourceUpdatedAt < section.updatedAt,
+    });
+  }
+
+  return { sections: localized, missing };
+}
+
+// 加载项目指定语言版本的段落；基础语言直接返回基础段落，missing 为尚未翻译的段落 ID
+export async function loadLocalizedSections(project: Project, locale?: string | null): Promise<{ sections: Section[]; missing: number[] }> {
+  const baseSections = await sections.listByProject(project.id);
+  const imageLocale = imageLocaleOf(project, locale);
+  if (!imageLocale) {
+    return { sections: baseSections, missing: [] };
+  }
+
+  // 数据后端不支持翻译时所有段落都视为尚未翻译
+  const translations = storeSupports('translations') ? await sectionTranslations.listByProject(project.id, imageLocale) : [];
+  return localizeSections(baseSections, translations, imageLocale);
+}
@@ -0,0 +1,153 @@
+/**
+ * 长图拼接 - 把各段落详情图按顺序拼成一张竖版详情页长图，并按平台高度限制切片
+ */
+
+import sharp, { OverlayOptions } from 'sharp';
+
+export interface LongImageOptions {
+  // 长图宽度，各段落图等比缩放到该宽度
+  width: number;
+  // 段落之间的间距
+  gutter: number;
+  background: string;
+  // 单张切片的最大高度
+  maxSliceHeight: number;
+  format: 'jpeg' | 'png';
+}
+
+export interface LongImageSlice {
+  buffer: Buffer;
+  top: number;
+  height: number;
+}
+
+export interface LongImage {
+  width: number;
+  height: number;
+  contentType: string;
+  extension: string;
+  slices: LongImageSlice[];
+}
+
+interface Placement {
+  buffer: Buffer;
+  top: number;
+  height: number;
+}
+
+// 计算切分位置：优先在段落边界处切开，单个段落超过限高时在段落内部切开
+export function planSlices(placements: Array<{ top: number; height: number }>, totalHeight: number, maxSliceHeight: number): Array<{ top: number; height: number }> {
+  const boundaries = placements.map((p) => p.top + p.height).filter((b) => b < totalHeight);
+  const slices: Array<{ top: number; height: number }> = [];
+  let start = 0;
+
+  while (start < totalHeight) {
+    const limit = start + maxSliceHeight;
+    if (limit >= totalHeight) {
+      slices.push({ top: start, height: totalHeight - start });
+      break;
+    }
+
+    const cut = boundaries.filter((b) => b > start && b <= limit).pop() ?? limit;
+    slices.push({ top: start, height: cut - start });
+    start = cut;
+  }
+
+  return slices;
+}
+
+// 拼接长图。切片直接从各段落图合成，不生成完整大图，避免超出编码器的尺寸上限
+export async function stitchLongImage(inputs: Buffer[], options: LongImageOptions): Promise<LongImage> {
+  const placements: Placement[] = [];
+  let top = 0;
+
+  for (const input of inputs) {
+    const { data, info } = await sharp(input)
+      .rotate()
+      .resize({ width: options.width })
+      .flatten({ background: options.background })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    if (placements.length > 0) top += options.gutter;
+    placements.push({ buffer: data, top, height: info.height });
+    top += info.height;
+  }
+
+  const totalHeight = top;
+  const slices: LongImageSlice[] = [];
+
+  for (const slice of planSlices(placements, totalHeight, options.maxSliceHeight)) {
+    const layers: OverlayOptions[] = [];
+
+    for (const placement of placements) {
+      const visibleTop = Math.max(placement.top, slice.top);
+      const visibleBottom = Math.min(placement.top + placement.height, slice.top + slice.height);
+      if (visibleBottom <= visibleTop) continue;
+
+      const input = visibleTop === placement.top && visibleBottom === placement.top + placement.height
+        ? placement.buffer
+        : await sharp(placement.buffer)
+            .extract({ left: 0, top: visibleTop - placement.top, width: options.width, height: visibleBottom - visibleTop })
+            .toBuffer();
+
+      layers.push({ input, top: visibleTop - slice.top, left: 0 });
+    }
+
+    const canvas = sharp({
+      create: { width: options.width, height: slice.height, channels: 3, background: options.background },
+    }).composite(layers);
+
+    const buffer = options.format === 'jpeg'
+      ? await canvas.jpeg({ quality: 88, mozjpeg: true }).toBuffer()
+      : await canvas.png().toBuffer();
+
+    slices.push({ buffer, top: slice.top, height: slice.height });
+  }
+
+  return {
+    width: options.width,
+    height: totalHeight,
+    contentType: options.format === 'jpeg' ? 'image/jpeg' : 'image/png',
+    extension: options.format === 'jpeg' ? 'jpg' : 'png',
+    slices,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// 生成自包含的详情页预览 HTML，切片以 data URL 内嵌，可直接离线打开
+export function renderPreviewHtml(title: string, longImage: LongImage): string {
+  const slices = longImage.slices
+    .map((slice, index) => {
+      const src = `data:${longImage.contentType};base64,${slice.buffer.toString('base64')}`;
+      return `    <img src="${src}" width="${longImage.width}" height="${slice.height}" alt="${escapeHtml(title)} ${index + 1}">`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)} - 详情页预览</title>
+  <style>
+    body { margin: 0; background: #f2f2f2; }
+    .page { max-width: ${longImage.width}px; margin: 0 auto; background: #fff; box-shadow: 0 0 12px rgba(0, 0, 0, 0.08); }
+    .page img { display: block; width: 100%; height: auto; }
+  </style>
+</head>
+<body>
+  <div class="page">
+${slices}
+  </div>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,13 @@
+/**
+ * 控制台邮件驱动 - 本地开发时直接把邮件打印到日志
+ */
+
+import type { Mailer } from './types.js';
+
+export function createConsoleMailer(): Mailer {
+  return {
+    send: async (message) => {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    },
+  };
+}
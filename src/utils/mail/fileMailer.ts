@@ -0,0 +1,27 @@
+/**
+ * 文件邮件驱动 - 每封邮件写成一个 .eml 文件，便于本地调试和测试时读取
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { Mailer } from './types.js';
+
+export function createFileMailer(outboxDir: string): Mailer {
+  return {
+    send: async (message) => {
+      await fs.mkdir(outboxDir, { recursive: true });
+
+      const content = [
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+      ].join('\n');
+
+      await fs.writeFile(path.join(outboxDir, `${Date.now()}_${uuidv4()}.eml`), content, 'utf-8');
+    },
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * 邮件驱动接口 - 控制台 / 本地文件 / Webhook
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
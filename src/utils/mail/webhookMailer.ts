@@ -0,0 +1,24 @@
+/**
+ * Webhook 邮件驱动 - 把邮件以 JSON POST 给外部发信服务
+ */
+
+import type { Mailer } from './types.js';
+
+export function createWebhookMailer(options: { url: string; secret?: string; from?: string }): Mailer {
+  return {
+    send: async (message) => {
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.secret ? { Authorization: `Bearer ${options.secret}` } : {}),
+        },
+        body: JSON.stringify({ from: options.from, ...message }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mail webhook failed: ${response.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * 邮件发送 - 按 MAIL_DRIVER 选择邮件驱动
+ */
+
+import { createConsoleMailer } from './mail/consoleMailer.js';
+import { createFileMailer } from './mail/fileMailer.js';
+import { createWebhookMailer } from './mail/webhookMailer.js';
+import type { Mailer } from './mail/types.js';
+
+// 邮件驱动：console（开发环境默认，打印到日志）、file（写入本地目录）或 webhook（转发给外部发信服务）
+const MAIL_DRIVER = process.env.MAIL_DRIVER;
+
+function createMailer(): Mailer {
+  // 生产环境必须显式配置：console 驱动会把密码重置和邀请链接写入日志
+  if (!MAIL_DRIVER && process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_DRIVER is required when NODE_ENV=production');
+  }
+
+  switch (MAIL_DRIVER || 'console') {
+    case 'console':
+      return createConsoleMailer();
+    case 'file':
+      return createFileMailer(process.env.MAIL_OUTBOX_DIR || './data/outbox');
+    case 'webhook':
+      if (!process.env.MAIL_WEBHOOK_URL) {
+        throw new Error('MAIL_WEBHOOK_URL is required when MAIL_DRIVER=webhook');
+      }
+      return createWebhookMailer({
+        url: process.env.MAIL_WEBHOOK_URL,
+        secret: process.env.MAIL_WEBHOOK_SECRET,
+        from: process.env.MAIL_FROM,
+      });
+    default:
+      throw new Error(`Unknown MAIL_DRIVER: ${MAIL_DRIVER}`);
+  }
+}
+
+export const mailer = createMailer();
+
+export default mailer;
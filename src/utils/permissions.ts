@@ -0,0 +1,81 @@
+/**
+ * 权限校验 - 所有项目/段落/图片/工作区/品牌套件的访问都通过这里按成员角色判断
+ */
+
+import { projects, sections, images, workspaces, workspaceMembers, brandKits } from './d1Client.js';
+import type { Project, Section, Image, Workspace, WorkspaceRole, BrandKit } from '../types/models.js';
+
+// view：只读；edit：修改项目内容；manage：管理成员、删除项目
+export type Permission = 'view' | 'edit' | 'manage';
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+const REQUIRED_ROLE: Record<Permission, WorkspaceRole> = {
+  view: 'viewer',
+  edit: 'editor',
+  manage: 'owner',
+};
+
+export function can(role: WorkspaceRole, permission: Permission): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[REQUIRED_ROLE[permission]];
+}
+
+// 用户在工作区中的角色，非成员返回 null
+export async function getWorkspaceRole(workspaceId: number, userId: number): Promise<WorkspaceRole | null> {
+  const member = await workspaceMembers.get(workspaceId, userId);
+  return member?.role ?? null;
+}
+
+// 用户对项目的角色；未归属工作区的旧项目只有创建者可访问
+export async function getProjectRole(project: Project, userId: number): Promise<WorkspaceRole | null> {
+  if (project.workspaceId === null) {
+    return project.userId === userId ? 'owner' : null;
+  }
+  return getWorkspaceRole(project.workspaceId, userId);
+}
+
+// 以下 authorize* 在资源不存在或权限不足时返回 null，路由统一返回 403/404
+
+export async function authorizeWorkspace(workspaceId: number, userId: number, permission: Permission): Promise<{ workspace: Workspace; role: WorkspaceRole } | null> {
+  const [workspace, role] = await Promise.all([workspaces.getById(workspaceId), getWorkspaceRole(workspaceId, userId)]);
+  if (!workspace || !role || !can(role, permission)) return null;
+  return { workspace, role };
+}
+
+export async function authorizeProject(projectId: number, userId: number, permission: Permission): Promise<{ project: Project; role: WorkspaceRole } | null> {
+  const project = await projects.getById(projectId);
+  if (!project) return null;
+
+  const role = await getProjectRole(project, userId);
+  if (!role || !can(role, permission)) return null;
+  return { project, role };
+}
+
+export async function authorizeSection(sectionId: number, userId: number, permission: Permission): Promise<{ section: Section; project: Project } | null> {
+  const section = await sections.getById(sectionId);
+  if (!section) return null;
+
+  const access = await authorizeProject(section.projectId, userId, permission);
+  return access ? { section, project: access.project } : null;
+}
+
+export async function authorizeImage(imageId: number, userId: number, permission: Permission): Promise<{ image: Image; project: Project } | null> {
+  const image = await images.getById(imageId);
+  if (!image) return null;
+
+  const access = await authorizeProject(image.projectId, userId, permission);
+  return access ? { image, project: access.project } : null;
+}
+
+export async function authorizeBrandKit(brandKitId: number, userId: number, permission: Permission): Promise<{ brandKit: BrandKit; role: WorkspaceRole } | null> {
+  const brandKit = await brandKits.getById(brandKitId);
+  if (!brandKit) return null;
+
+  const role = await getWorkspaceRole(brandKit.workspaceId, userId);
+  if (!role || !can(role, permission)) return null;
+  return { brandKit, role };
+}
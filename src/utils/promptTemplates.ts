@@ -0,0 +1,258 @@
+/**
+ * 提示词模板 - 按项目指定 → 类目模板 → 内置模板的顺序选择模板，并用项目数据渲染
+ */
+
+import { promptTemplates, storeSupports } from './d1Client.js';
+import { languageOf } from './locales.js';
+import { brandGuide, brandStyle } from './brandKit.js';
+import { formatCompetitorAnalysis, formatCompetitorTexts } from './competitorAnalysis.js';
+import { builtinPromptTemplates, getBuiltinByName, BuiltinPromptTemplate } from './prompts/builtin.js';
+import { extractVariables, findSyntaxError, resolveValues, findMissing, renderTemplate, PromptValues } from './prompts/render.js';
+import type { Project, Section, CompetitorText, CompetitorAnalysis, BrandKit, PromptKind, PromptRef, PromptVariable } from '../types/models.js';
+
+export { builtinPromptTemplates, BUILTIN_PREFIX } from './prompts/builtin.js';
+export type { PromptValues } from './prompts/render.js';
+
+// 各用途可用的变量，模板只能声明这里列出的变量
+export const PROMPT_VARIABLES: Record<PromptKind, Record<string, string>> = {
+  script: {
+    product_name: '产品名称',
+    product_desc: '产品描述',
+    category: '商品类目',
+    competitor_text: '竞品详情页文案（OCR 提取结果）',
+    competitor_analysis: '竞品分析报告，未使用报告时为空',
+    language: '脚本语言',
+    brand_guide: '品牌规范（调性、卖点顺序、禁用词、品牌色），项目未选用品牌套件时为空',
+    instruction: '用户的额外要求',
+  },
+  section: {
+    product_name: '产品名称',
+    product_desc: '产品描述',
+    category: '商品类目',
+    title: '段落主标题',
+    subtitle: '段落副标题',
+    description: '段落描述',
+    visual_guide: '段落视觉指导',
+    language: '脚本语言',
+    brand_guide: '品牌规范（调性、卖点顺序、禁用词、品牌色），项目未选用品牌套件时为空',
+    instruction: '用户的额外要求',
+  },
+  ocr: {
+    product_name: '产品名称',
+    category: '商品类目',
+  },
+  image: {
+    product_name: '产品名称',
+    product_desc: '产品描述',
+    category: '商品类目',
+    title: '段落主标题',
+    subtitle: '段落副标题',
+    description: '段落描述',
+    visual_guide: '段落视觉指导',
+    brand_style: '品牌视觉要求（品牌色、调性、Logo 留位），项目未选用品牌套件时为空',
+    instruction: '用户的额外要求',
+  },
+  translate: {
+    product_name: '产品名称',
+    category: '商品类目',
+    source_language: '原文语言',
+    language: '目标语言',
+    sections: '待翻译的段落（JSON 数组，含 title/subtitle/description）',
+    instruction: '用户的额外要求',
+  },
+  analysis: {
+    product_name: '产品名称',
+    product_desc: '产品描述',
+    category: '商品类目',
+    competitor_texts: '按编号列出的竞品文案及 OCR 提取的卖点',
+    competitor_count: '竞品文案数量',
+    instruction: '用户的额外要求',
+  },
+};
+
+export const PROMPT_KINDS = Object.keys(PROMPT_VARIABLES) as PromptKind[];
+
+// 模板的选择来源
+export type PromptSource = 'project' | 'category' | 'builtin';
+
+export interface ResolvedPrompt {
+  name: string;
+  version: number;
+  kind: PromptKind;
+  source: PromptSource;
+  system: string | null;
+  body: string;
+  variables: PromptVariable[];
+}
+
+export interface RenderedPrompt {
+  ref: PromptRef;
+  system: string | null;
+  prompt: string;
+  // 必填但没有取值的变量
+  missing: string[];
+}
+
+function fromBuiltin(template: BuiltinPromptTemplate, source: PromptSource = 'builtin'): ResolvedPrompt {
+  return {
+    name: template.name,
+    version: template.version,
+    kind: template.kind,
+    source,
+    system: template.system,
+    body: template.body,
+    variables: template.variables,
+  };
+}
+
+// 按名称和版本加载模板（含内置模板），不存在或用途不符时返回 null
+export async function loadPromptTemplate(kind: PromptKind, name: string, version?: number, source: PromptSource = 'project'): Promise<ResolvedPrompt | null> {
+  const builtin = getBuiltinByName(name);
+  if (builtin) {
+    return builtin.kind === kind && (version === undefined || version === builtin.version) ? fromBuiltin(builtin, source) : null;
+  }
+
+  // 数据后端不支持自定义模板时只有内置模板
+  if (!storeSupports('promptTemplates')) return null;
+
+  const template = await promptTemplates.getByName(name);
+  if (!template || template.kind !== kind) return null;
+
+  const templateVersion = await promptTemplates.getVersion(template.id, version);
+  if (!templateVersion) return null;
+
+  return {
+    name: template.name,
+    version: templateVersion.version,
+    kind,
+    source,
+    system: templateVersion.system,
+    body: templateVersion.body,
+    variables: templateVersion.variables,
+  };
+}
+
+// 选择项目使用的模板；项目指定的模板已被删除时退回类目模板或内置模板
+export async function resolvePromptTemplate(kind: PromptKind, project: Project): Promise<ResolvedPrompt> {
+  const selection = project.promptTemplates[kind];
+  if (selection) {
+    const selected = await loadPromptTemplate(kind, selection.name, selection.version, 'project');
+    if (selected) return selected;
+    console.warn(`Prompt template ${selection.name} selected by project ${project.id} not found, falling back`);
+  }
+
+  if (project.category && storeSupports('promptTemplates')) {
+    const template = await promptTemplates.findForCategory(kind, project.category);
+    const resolved = template && (await loadPromptTemplate(kind, template.name, undefined, 'category'));
+    if (resolved) return resolved;
+  }
+
+  return fromBuiltin(builtinPromptTemplates[kind]);
+}
+
+export function renderPrompt(template: ResolvedPrompt, values: PromptValues): RenderedPrompt {
+  const resolved = resolveValues(template.variables, values);
+  return {
+    ref: { name: template.name, version: template.version },
+    system: template.system ? renderTemplate(template.system, resolved) : null,
+    prompt: renderTemplate(template.body, resolved),
+    missing: findMissing(template.variables, resolved),
+  };
+}
+
+// 校验模板内容：语法正确、引用的变量都已声明、声明的变量都是该用途可用的变量
+export function validatePromptTemplate(kind: PromptKind, data: { system?: string | null; body: string; variables: PromptVariable[] }): string[] {
+  const errors: string[] = [];
+  const available = PROMPT_VARIABLES[kind];
+  const declared = new Set(data.variables.map((v) => v.name));
+
+  for (const [field, text] of [['body', data.body], ['system', data.system ?? '']] as const) {
+    const syntaxError = findSyntaxError(text);
+    if (syntaxError) {
+      errors.push(`${field}: ${syntaxError}`);
+    }
+    for (const name of extractVariables(text)) {
+      if (!declared.has(name)) {
+        errors.push(`${field}: variable "${name}" is not declared`);
+      }
+    }
+  }
+
+  for (const variable of data.variables) {
+    if (!(variable.name in available)) {
+      errors.push(`variables: "${variable.name}" is not available for ${kind} prompts`);
+    }
+  }
+
+  return errors;
+}
+
+// ===== 各用途的变量取值 =====
+
+function projectValues(project: Project): PromptValues {
+  return {
+    product_name: project.productName,
+    product_desc: project.productDesc,
+    category: project.category,
+  };
+}
+
+function sectionValues(section: Section): PromptValues {
+  return {
+    title: section.title,
+    subtitle: section.subtitle,
+    description: section.description,
+    visual_guide: section.visualGuide,
+  };
+}
+
+// analysis 为 null 时模板使用原始竞品文案
+export function scriptPromptValues(
+  project: Project,
+  competitorTexts: CompetitorText[],
+  analysis: CompetitorAnalysis | null,
+  brandKit: BrandKit | null,
+  instruction?: string
+): PromptValues {
+  return {
+    ...projectValues(project),
+    competitor_text: competitorTexts.map((ct) => ct.text).join('\n\n'),
+    competitor_analysis: analysis && formatCompetitorAnalysis(analysis, competitorTexts.length),
+    language: languageOf(project.locale),
+    brand_guide: brandGuide(brandKit),
+    instruction,
+  };
+}
+
+export function sectionPromptValues(project: Project, section: Section, brandKit: BrandKit | null, instruction?: string): PromptValues {
+  return { ...projectValues(project), ...sectionValues(section), language: languageOf(project.locale), brand_guide: brandGuide(brandKit), instruction };
+}
+
+export function ocrPromptValues(project: Project): PromptValues {
+  return projectValues(project);
+}
+
+export function imagePromptValues(project: Project, section: Section, brandKit: BrandKit | null, instruction?: string): PromptValues {
+  return { ...projectValues(project), ...sectionValues(section), brand_style: brandStyle(brandKit), instruction };
+}
+
+export function translatePromptValues(project: Project, sourceSections: Section[], locale: string, instruction?: string): PromptValues {
+  const contents = sourceSections.map(({ title, subtitle, description }) => ({ title, subtitle, description }));
+  return {
+    product_name: project.productName,
+    category: project.category,
+    source_language: languageOf(project.locale),
+    language: languageOf(locale),
+    sections: JSON.stringify(contents, null, 2),
+    instruction,
+  };
+}
+
+export function analysisPromptValues(project: Project, competitorTexts: CompetitorText[], instruction?: string): PromptValues {
+  return {
+    ...projectValues(project),
+    competitor_texts: formatCompetitorTexts(competitorTexts),
+    competitor_count: String(competitorTexts.length),
+    instruction,
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * 内置提示词模板 - 项目和类目都没有指定模板时使用，不可修改
+ */
+
+import type { PromptKind, PromptVariable } from '../../types/models.js';
+
+export interface BuiltinPromptTemplate {
+  name: string;
+  kind: PromptKind;
+  version: number;
+  description: string;
+  system: string | null;
+  body: string;
+  variables: PromptVariable[];
+}
+
+// 内置模板名称前缀，自定义模板不可使用
+export const BUILTIN_PREFIX = 'builtin_';
+
+const sectionVariables: PromptVariable[] = [
+  { name: 'product_name', description: '产品名称', required: true },
+  { name: 'title', description: '段落主标题', required: true },
+  { name: 'subtitle', description: '段落副标题' },
+  { name: 'description', description: '段落描述' },
+  { name: 'visual_guide', description: '段落视觉指导' },
+  { name: 'instruction', description: '用户的额外要求' },
+];
+
+export const builtinPromptTemplates: Record<PromptKind, BuiltinPromptTemplate> = {
+  script: {
+    name: `${BUILTIN_PREFIX}script`,
+    kind: 'script',
+    version: 4,
+    description: '生成整套详情页图文脚本',
+    system: '你是一个专业的电商详情页文案策划师，擅长撰写有吸引力的产品文案。请始终以JSON格式输出。',
+    body: `你是一个专业的电商详情页文案策划师。请根据以下信息，为产品生成详情页图文脚本。
+
+产品名称：{{product_name}}
+产品描述：{{product_desc}}
+
+{{#competitor_analysis}}竞品分析报告（请围绕竞品空白建立差异化，不要重复竞品已有的宣称方式）：
+{{competitor_analysis}}{{/competitor_analysis}}{{^competitor_analysis}}竞品详情页文案参考：
+{{competitor_text}}{{/competitor_analysis}}
+
+请生成5-7张详情图的脚本，每张图包含：
+1. 主标题（吸引眼球的卖点）
+2. 副标题（补充说明）
+3. 详细描述（产品特点、优势说明）
+4. 视觉指导（建议的画面风格、场景、色调）
+
+请以JSON格式输出，格式如下：
+{
+  "sections": [
+    {
+      "title": "主标题",
+      "subtitle": "副标题",
+      "description": "详细描述",
+      "visualGuide": "视觉指导"
+    }
+  ]
+}
+
+注意：
+1. 文案要有吸引力，突出产品卖点
+2. 避免直接抄袭竞品文案，要有差异化
+3. 视觉指导要具体，便于后续AI生成图片
+4. 第一张图应该是主视觉+核心卖点
+5. 最后一张图可以是购买引导或品牌信息
+6. 主标题、副标题和描述使用{{language}}撰写，符合目标市场买家的表达习惯；视觉指导使用简体中文{{#brand_guide}}
+
+品牌规范（必须遵守）：
+{{brand_guide}}{{/brand_guide}}{{#instruction}}
+
+用户要求：{{instruction}}{{/instruction}}`,
+    variables: [
+      { name: 'product_name', description: '产品名称', required: true },
+      { name: 'product_desc', description: '产品描述', default: '无' },
+      { name: 'competitor_text', description: '竞品详情页文案（OCR 提取结果）', default: '无竞品参考' },
+      { name: 'competitor_analysis', description: '竞品分析报告' },
+      { name: 'language', description: '脚本语言', default: '简体中文' },
+      { name: 'brand_guide', description: '品牌规范' },
+      { name: 'instruction', description: '用户的额外要求' },
+    ],
+  },
+  section: {
+    name: `${BUILTIN_PREFIX}section`,
+    kind: 'section',
+    version: 3,
+    description: '重新生成单个脚本段落',
+    system: '你是一个专业的电商详情页文案策划师。请始终以JSON格式输出。',
+    body: `请重新生成以下详情图脚本段落：
+
+当前内容：
+- 主标题：{{title}}
+- 副标题：{{subtitle}}
+- 描述：{{description}}
+- 视觉指导：{{visual_guide}}
+
+{{#brand_guide}}品牌规范（必须遵守）：
+{{brand_guide}}
+
+{{/brand_guide}}{{#instruction}}用户要求：{{instruction}}{{/instruction}}{{^instruction}}请生成一个更有吸引力的版本{{/instruction}}
+
+主标题、副标题和描述使用{{language}}撰写，视觉指导使用简体中文。
+
+请以JSON格式输出：
+{
+  "title": "新主标题",
+  "subtitle": "新副标题",
+  "description": "新描述",
+  "visualGuide": "新视觉指导"
+}`,
+    variables: [
+      ...sectionVariables.filter((v) => v.name !== 'product_name'),
+      { name: 'language', description: '脚本语言', default: '简体中文' },
+      { name: 'brand_guide', description: '品牌规范' },
+    ],
+  },
+  ocr: {
+    name: `${BUILTIN_PREFIX}ocr`,
+    kind: 'ocr',
+    version: 1,
+    description: '识别竞品详情图中的文字和卖点',
+    system: null,
+    body: '请分析这张电商详情页图片，提取其中的文字内容和主要卖点。以JSON格式输出：{"text": "提取的文字", "keyPoints": ["卖点1", "卖点2"]}',
+    variables: [],
+  },
+  image: {
+    name: `${BUILTIN_PREFIX}image`,
+    kind: 'image',
+    version: 2,
+    description: '生成段落详情图背景',
+    system: null,
+    body: `电商产品详情页设计图，专业商业摄影风格。
+产品：{{product_name}}
+主题：{{title}}
+副标题：{{subtitle}}
+视觉要求：{{visual_guide}}
+
+要求：
+- 专业的电商详情页布局
+- 清晰的产品展示区域
+- 预留文字排版空间
+- 高品质商业摄影风格
+- 背景干净，突出产品{{#brand_style}}
+- 品牌视觉：{{brand_style}}{{/brand_style}}{{#instruction}}
+
+特别要求：{{instruction}}{{/instruction}}`,
+    variables: [
+      ...sectionVariables.map((v) => (v.name === 'visual_guide' ? { ...v, default: '现代简约风格，高端质感' } : v)),
+      { name: 'brand_style', description: '品牌视觉要求' },
+    ],
+  },
+  translate: {
+    name: `${BUILTIN_PREFIX}translate`,
+    kind: 'translate',
+    version: 1,
+    description: '将脚本翻译为其他语言版本',
+    system: '你是一名专业的跨境电商本地化译者，熟悉各海外市场的电商文案风格。请始终以JSON格式输出。',
+    body: `请将以下电商详情页文案从{{source_language}}翻译为{{language}}。
+
+产品名称：{{product_name}}
+
+待翻译的段落（JSON）：
+{{sections}}
+
+要求：
+1. 逐段翻译，输出的段落数量和顺序必须与输入完全一致
+2. 使用目标市场买家习惯的电商表达，可以意译，避免生硬的逐字直译
+3. 保留品牌名、型号、数字和计量单位
+4. 主标题保持简短有力{{#instruction}}
+
+用户要求：{{instruction}}{{/instruction}}
+
+请以JSON格式输出：
+{
+  "sections": [
+    {
+      "title": "译文主标题",
+      "subtitle": "译文副标题",
+      "description": "译文描述"
+    }
+  ]
+}`,
+    variables: [
+      { name: 'product_name', description: '产品名称', required: true },
+      { name: 'source_language', description: '原文语言', required: true },
+      { name: 'language', description: '目标语言', required: true },
+      { name: 'sections', description: '待翻译的段落（JSON 数组）', required: true },
+      { name: 'instruction', description: '用户的额外要求' },
+    ],
+  },
+  analysis: {
+    name: `${BUILTIN_PREFIX}analysis`,
+    kind: 'analysis',
+    version: 1,
+    description: '合并全部竞品文案生成竞品分析报告',
+    system: '你是一名资深的电商竞品分析师，擅长从竞品详情页中归纳卖点、发现市场空白。请始终以JSON格式输出。',
+    body: `请分析以下 {{competitor_count}} 份竞品详情页文案（OCR 提取结果，按编号列出），为我方产品撰写竞品分析报告。
+
+我方产品：{{product_name}}
+产品描述：{{product_desc}}
+
+竞品文案：
+{{competitor_texts}}
+
+要求：
+1. sellingPoints：合并含义相同的卖点，sources 列出提及该卖点的全部竞品编号
+2. claims：按主题归类竞品的具体宣称，theme 取 material（材质）、function（功能）、price（价格）、after_sales（售后）或 other（其他）
+3. gaps：竞品没有覆盖或表达薄弱、我方产品可以切入的点，opportunity 给出切入方式
+4. tone：竞品文案的语气和表达风格
+5. summary：用一两句话总结竞争格局{{#instruction}}
+
+用户要求：{{instruction}}{{/instruction}}
+
+请以JSON格式输出：
+{
+  "summary": "总结",
+  "sellingPoints": [{ "point": "卖点", "sources": [1, 2] }],
+  "claims": [{ "theme": "material", "claim": "宣称内容" }],
+  "gaps": [{ "gap": "竞品空白", "opportunity": "切入方式" }],
+  "tone": ["风格观察"]
+}`,
+    variables: [
+      { name: 'product_name', description: '产品名称', required: true },
+      { name: 'product_desc', description: '产品描述', default: '无' },
+      { name: 'competitor_texts', description: '按编号列出的竞品文案', required: true },
+      { name: 'competitor_count', description: '竞品文案数量', required: true },
+      { name: 'instruction', description: '用户的额外要求' },
+    ],
+  },
+};
+
+export function getBuiltinByName(name: string): BuiltinPromptTemplate | null {
+  return Object.values(builtinPromptTemplates).find((t) => t.name === name) ?? null;
+}
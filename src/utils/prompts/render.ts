@@ -0,0 +1,68 @@
+/**
+ * 提示词模板渲染 - 支持 {{变量}}、{{#变量}}…{{/变量}}（有值时输出）和 {{^变量}}…{{/变量}}（无值时输出）
+ */
+
+import type { PromptVariable } from '../../types/models.js';
+
+export type PromptValues = Record<string, string | null | undefined>;
+
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+// 模板中引用的全部变量名
+export function extractVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(SECTION_PATTERN)) {
+    names.add(match[2]);
+    extractVariables(match[3]).forEach((name) => names.add(name));
+  }
+  for (const match of template.replace(SECTION_PATTERN, '').matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+// 语法检查：去掉所有合法标签后不应再有残留的 {{ 或 }}
+export function findSyntaxError(template: string): string | null {
+  let stripped = template;
+  let previous: string;
+  do {
+    previous = stripped;
+    stripped = stripped.replace(SECTION_PATTERN, (_, _type, _name, inner: string) => inner);
+  } while (stripped !== previous);
+
+  stripped = stripped.replace(VARIABLE_PATTERN, '');
+  return stripped.includes('{{') || stripped.includes('}}') ? 'Unbalanced or malformed template tag' : null;
+}
+
+// 变量的实际取值：传入值为空时使用声明的默认值
+export function resolveValues(variables: PromptVariable[], values: PromptValues): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (value) resolved[name] = value;
+  }
+  for (const variable of variables) {
+    if (!resolved[variable.name] && variable.default) {
+      resolved[variable.name] = variable.default;
+    }
+  }
+  return resolved;
+}
+
+// 必填但没有取值的变量
+export function findMissing(variables: PromptVariable[], values: Record<string, string>): string[] {
+  return variables.filter((v) => v.required && !values[v.name]).map((v) => v.name);
+}
+
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  let output = template;
+  let previous: string;
+  do {
+    previous = output;
+    output = output.replace(SECTION_PATTERN, (_, type: string, name: string, inner: string) =>
+      (type === '#') === Boolean(values[name]) ? inner : ''
+    );
+  } while (output !== previous);
+
+  return output.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? '');
+}
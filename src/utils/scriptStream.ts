@@ -0,0 +1,77 @@
+/**
+ * 流式脚本生成 - 从模型逐步输出的 JSON 中解析出已经完整的段落，供 SSE 提前推送
+ */
+
+// 增量解析 {"sections": [{...}, {...}]}，每个段落对象闭合后立即返回
+export class SectionStreamParser {
+  private buffer = '';
+  private pos = 0;
+  // 当前所在的容器（对象或数组）
+  private stack: Array<'{' | '['> = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  // 根对象中最近读到的字符串，数组开始时用来判断是否为 sections
+  private lastRootString: string | null = null;
+  // sections 数组所在的深度，-1 表示不在数组中
+  private sectionsDepth = -1;
+  private sectionsClosed = false;
+  private sectionStart = -1;
+
+  push(text: string): unknown[] {
+    this.buffer += text;
+    const completed: unknown[] = [];
+
+    for (; this.pos < this.buffer.length; this.pos++) {
+      const char = this.buffer[this.pos];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.stack.length === 1) {
+            this.lastRootString = this.buffer.slice(this.stringStart + 1, this.pos);
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+        this.stringStart = this.pos;
+      } else if (char === '{' || char === '[') {
+        if (char === '[' && this.stack.length === 1 && !this.sectionsClosed && this.lastRootString === 'sections') {
+          this.sectionsDepth = this.stack.length + 1;
+        }
+        this.stack.push(char);
+        if (char === '{' && this.sectionsDepth > 0 && this.stack.length === this.sectionsDepth + 1) {
+          this.sectionStart = this.pos;
+        }
+      } else if (char === '}' || char === ']') {
+        if (char === '}' && this.sectionStart >= 0 && this.stack.length === this.sectionsDepth + 1) {
+          try {
+            completed.push(JSON.parse(this.buffer.slice(this.sectionStart, this.pos + 1)));
+          } catch {
+            // 单个段落解析失败时跳过，以最终的完整结果为准
+          }
+          this.sectionStart = -1;
+        }
+        if (char === ']' && this.stack.length === this.sectionsDepth) {
+          this.sectionsDepth = -1;
+          this.sectionsClosed = true;
+        }
+        this.stack.pop();
+      }
+    }
+
+    return completed;
+  }
+
+  // 已收到的完整输出
+  get text(): string {
+    return this.buffer;
+  }
+}
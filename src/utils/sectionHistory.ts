@@ -0,0 +1,196 @@
+/**
+ * 脚本段落版本管理 - 所有对段落内容的修改都通过这里写入并记录版本。
+ * 数据后端不支持版本历史时（旧版 Worker）只写入段落内容
+ */
+
+import { sections, sectionVersions, scriptVersions, images, storage, storeSupports } from './d1Client.js';
+import { diffText, DiffSegment } from './textDiff.js';
+import type { VersionMeta } from './store/types.js';
+import type { Section, SectionContent } from '../types/models.js';
+
+export const CONTENT_FIELDS = ['title', 'subtitle', 'description', 'visualGuide'] as const;
+
+export type ContentField = (typeof CONTENT_FIELDS)[number];
+
+export interface FieldDiff {
+  field: ContentField;
+  changed: boolean;
+  from: string | null;
+  to: string | null;
+  segments: DiffSegment[];
+}
+
+export interface SectionDiff {
+  index: number;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  fields: FieldDiff[];
+}
+
+export function contentOf(section: SectionContent): Required<SectionContent> {
+  return {
+    title: section.title,
+    subtitle: section.subtitle || null,
+    description: section.description || null,
+    visualGuide: section.visualGuide || null,
+  };
+}
+
+export function sameContent(a: SectionContent, b: SectionContent): boolean {
+  const ca = contentOf(a);
+  const cb = contentOf(b);
+  return CONTENT_FIELDS.every((field) => ca[field] === cb[field]);
+}
+
+// 段落还没有任何版本时，先把当前内容存为基线版本
+async function ensureBaseline(section: Section) {
+  const existing = await sectionVersions.listBySection(section.id);
+  if (existing.length === 0) {
+    await sectionVersions.create({
+      ...contentOf(section),
+      sectionId: section.id,
+      projectId: section.projectId,
+      source: 'manual',
+    });
+  }
+}
+
+// 更新段落并记录新版本，内容未变化时不产生版本
+export async function updateSectionWithHistory(section: Section, patch: Partial<SectionContent>, meta: VersionMeta): Promise<Section> {
+  const next = contentOf({ ...contentOf(section), ...stripUndefined(patch) });
+  if (sameContent(section, next)) {
+    return section;
+  }
+
+  const versioned = storeSupports('sectionHistory');
+  if (versioned) {
+    await ensureBaseline(section);
+  }
+  const updated = await sections.update(section.id, next);
+  if (!updated) {
+    throw new Error(`Section ${section.id} not found`);
+  }
+  if (!versioned) {
+    return updated;
+  }
+
+  await sectionVersions.create({
+    ...contentOf(updated),
+    sectionId: section.id,
+    projectId: section.projectId,
+    ...meta,
+  });
+  return updated;
+}
+
+// 在指定位置新建段落并记录首个版本
+export async function createSectionWithHistory(projectId: number, position: number | undefined, content: SectionContent, meta: VersionMeta): Promise<Section> {
+  if (!storeSupports('sectionHistory')) {
+    // 旧版 Worker 不支持插入，只能追加到末尾
+    const orderIndex = position ?? (await sections.listByProject(projectId)).length;
+    return sections.create({ ...contentOf(content), projectId, orderIndex });
+  }
+
+  const created = await sections.insertAt(projectId, position, contentOf(content));
+  await sectionVersions.create({
+    ...contentOf(created),
+    sectionId: created.id,
+    projectId,
+    ...meta,
+  });
+  return created;
+}
+
+// 删除段落及其生成的图片（背景图和合成图的记录与存储对象）
+export async function deleteSection(section: Section) {
+  const projectImages = await images.listByProject(section.projectId);
+  const sectionImages = projectImages.filter((img) => img.sectionId === section.id);
+
+  for (const img of sectionImages) {
+    try {
+      await storage.delete(img.r2Key);
+    } catch (e) {
+      console.error(`Failed to delete object ${img.r2Key}:`, e);
+    }
+    await images.delete(img.id);
+  }
+
+  await sections.delete(section.id);
+}
+
+// 当前脚本与最近一次快照不同时保存快照，避免整体替换前丢失人工修改
+export async function snapshotScript(projectId: number, meta: VersionMeta) {
+  if (!storeSupports('sectionHistory')) return;
+
+  const current = await sections.listByProject(projectId);
+  if (current.length === 0) return;
+
+  const [latest] = await scriptVersions.listByProject(projectId);
+  const unchanged = latest
+    && latest.sections.length === current.length
+    && latest.sections.every((s, i) => sameContent(s, current[i]));
+
+  if (!unchanged) {
+    await scriptVersions.create({ projectId, sections: current.map(contentOf), ...meta });
+  }
+}
+
+// 用一整套内容替换项目脚本：按顺序原地更新已有段落，多出的新建，多余的删除
+export async function applyScript(projectId: number, contents: SectionContent[], meta: VersionMeta): Promise<Section[]> {
+  await snapshotScript(projectId, { source: 'manual', authorId: meta.authorId });
+
+  const current = await sections.listByProject(projectId);
+
+  for (let i = 0; i < contents.length; i++) {
+    if (current[i]) {
+      await updateSectionWithHistory(current[i], contentOf(contents[i]), meta);
+    } else {
+      await createSectionWithHistory(projectId, i, contents[i], meta);
+    }
+  }
+
+  for (const surplus of current.slice(contents.length)) {
+    await deleteSection(surplus);
+  }
+
+  if (storeSupports('sectionHistory')) {
+    await scriptVersions.create({ projectId, sections: contents.map(contentOf), ...meta });
+  }
+  return sections.listByProject(projectId);
+}
+
+export function diffContent(from: SectionContent | null, to: SectionContent | null): FieldDiff[] {
+  const a = from ? contentOf(from) : null;
+  const b = to ? contentOf(to) : null;
+
+  return CONTENT_FIELDS.map((field) => {
+    const fromValue = a?.[field] ?? null;
+    const toValue = b?.[field] ?? null;
+    return {
+      field,
+      changed: fromValue !== toValue,
+      from: fromValue,
+      to: toValue,
+      segments: diffText(fromValue || '', toValue || ''),
+    };
+  });
+}
+
+// 两套脚本按段落顺序对齐比较
+export function diffScript(from: SectionContent[], to: SectionContent[]): SectionDiff[] {
+  const length = Math.max(from.length, to.length);
+  const result: SectionDiff[] = [];
+
+  for (let index = 0; index < length; index++) {
+    const a = from[index] ?? null;
+    const b = to[index] ?? null;
+    const fields = diffContent(a, b);
+    const status = !a ? 'added' : !b ? 'removed' : fields.some((f) => f.changed) ? 'changed' : 'unchanged';
+    result.push({ index, status, fields });
+  }
+
+  return result;
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
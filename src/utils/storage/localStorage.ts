@@ -0,0 +1,181 @@
+/**
+ * 本地磁盘存储驱动 - 文件保存在 LOCAL_STORAGE_DIR，通过带签名和有效期的 /files 路由访问
+ */
+
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import path from 'path';
+import crypto from 'crypto';
+import type { StorageDriver, UploadedPart } from './types.js';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+  '.html': 'text/html; charset=utf-8',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+};
+
+const MULTIPART_DIR = '.multipart';
+
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+}
+
+export interface LocalStorageOptions {
+  rootDir: string;
+  publicUrl: string;
+  signingSecret: string;
+  defaultExpiresIn: number;
+}
+
+// 读取（GET）和直传（PUT）的签名互不通用
+export function signKey(secret: string, key: string, expires: number, method: 'GET' | 'PUT' = 'GET'): string {
+  const payload = method === 'GET' ? `${key}:${expires}` : `${method}:${key}:${expires}`;
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+// 校验 /files 请求的签名和有效期
+export function verifySignedKey(secret: string, key: string, expires: number, signature: string, method: 'GET' | 'PUT' = 'GET'): boolean {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signKey(secret, key, expires, method), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function createLocalStorage(options: LocalStorageOptions): StorageDriver {
+  const root = path.resolve(options.rootDir);
+
+  // 防止通过 ../ 访问存储目录之外的文件
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  const signedUrl = (key: string, expiresIn: number, method: 'GET' | 'PUT') => {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = signKey(options.signingSecret, key, expires, method);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${options.publicUrl}/files/${encodedKey}?expires=${expires}&signature=${signature}`;
+  };
+
+  // 分片上传的各分片暂存在 .multipart/<uploadId>/<partNumber>，合并后删除
+  const partKey = (uploadId: string, partNumber: number) => `${MULTIPART_DIR}/${uploadId}/${partNumber}`;
+
+  return {
+    getUrl: async (key, { expiresIn = options.defaultExpiresIn } = {}) => signedUrl(key, expiresIn, 'GET'),
+
+    upload: async (key, file) => {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, file);
+    },
+
+    get: async (key) => {
+      try {
+        const body = await fs.readFile(resolveKey(key));
+        return { body, contentType: contentTypeForKey(key) };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    getStream: async (key) => {
+      try {
+        const handle = await fs.open(resolveKey(key));
+        return handle.createReadStream();
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    stat: async (key) => {
+      try {
+        const { size } = await fs.stat(resolveKey(key));
+        return { size, contentType: contentTypeForKey(key) };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    exists: async (key) => {
+      try {
+        await fs.access(resolveKey(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    delete: async (key) => {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+
+    // 客户端通过带签名的 PUT /files 请求上传
+    direct: {
+      presignPut: async (key, contentType, expiresIn) => ({
+        url: signedUrl(key, expiresIn, 'PUT'),
+        method: 'PUT',
+        headers: { 'Content-Type': contentType },
+      }),
+
+      createMultipart: async () => crypto.randomUUID(),
+
+      presignPart: async (key, uploadId, partNumber, expiresIn) => ({
+        url: signedUrl(partKey(uploadId, partNumber), expiresIn, 'PUT'),
+        method: 'PUT',
+        headers: {},
+      }),
+
+      listParts: async (key, uploadId) => {
+        const dir = resolveKey(`${MULTIPART_DIR}/${uploadId}`);
+        let names: string[];
+        try {
+          names = await fs.readdir(dir);
+        } catch (error: any) {
+          if (error.code === 'ENOENT') return [];
+          throw error;
+        }
+
+        const parts: UploadedPart[] = [];
+        for (const name of names) {
+          const partNumber = parseInt(name);
+          if (!Number.isInteger(partNumber)) continue;
+          const { size, mtimeMs } = await fs.stat(path.join(dir, name));
+          parts.push({ partNumber, etag: `${size}-${Math.floor(mtimeMs)}`, size });
+        }
+        return parts.sort((a, b) => a.partNumber - b.partNumber);
+      },
+
+      completeMultipart: async (key, uploadId, parts) => {
+        const filePath = resolveKey(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const output = createWriteStream(filePath);
+        for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+          await pipeline(createReadStream(resolveKey(partKey(uploadId, part.partNumber))), output, { end: false });
+        }
+        await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => (error ? reject(error) : resolve())));
+        await fs.rm(resolveKey(`${MULTIPART_DIR}/${uploadId}`), { recursive: true, force: true });
+      },
+
+      abortMultipart: async (key, uploadId) => {
+        await fs.rm(resolveKey(`${MULTIPART_DIR}/${uploadId}`), { recursive: true, force: true });
+      },
+    },
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * S3 兼容存储驱动 - 直连 AWS S3 / MinIO / Cloudflare R2
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { Readable } from 'stream';
+import type { StorageDriver, UploadedPart } from './types.js';
+
+export interface S3StorageOptions {
+  bucket: string;
+  endpoint?: string;
+  region: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+  // 公开访问域名，设置后 getUrl 不再签名
+  publicUrl?: string;
+  defaultExpiresIn: number;
+}
+
+function isNotFound(error: any): boolean {
+  return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+}
+
+export function createS3Storage(options: S3StorageOptions): StorageDriver {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials: options.accessKeyId && options.secretAccessKey
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined,
+  });
+
+  return {
+    getUrl: async (key, { expiresIn = options.defaultExpiresIn } = {}) => {
+      if (options.publicUrl) {
+        return `${options.publicUrl}/${key}`;
+      }
+      return getSignedUrl(client, new GetObjectCommand({ Bucket: options.bucket, Key: key }), { expiresIn });
+    },
+
+    upload: async (key, file, contentType) => {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        Body: file,
+        ContentType: contentType,
+      }));
+    },
+
+    get: async (key) => {
+      try {
+        const response = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+        const bytes = await response.Body!.transformToByteArray();
+        return {
+          body: Buffer.from(bytes),
+          contentType: response.ContentType || 'application/octet-stream',
+        };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    getStream: async (key) => {
+      try {
+        const response = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+        return response.Body as Readable;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    stat: async (key) => {
+      try {
+        const response = await client.send(new HeadObjectCommand({ Bucket: options.bucket, Key: key }));
+        return { size: response.ContentLength ?? 0, contentType: response.ContentType || 'application/octet-stream' };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    exists: async (key) => {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket: options.bucket, Key: key }));
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    delete: async (key) => {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+
+    // 客户端直传需要存储桶的 CORS 允许 PUT
+    direct: {
+      presignPut: async (key, contentType, expiresIn) => ({
+        url: await getSignedUrl(client, new PutObjectCommand({ Bucket: options.bucket, Key: key, ContentType: contentType }), { expiresIn }),
+        method: 'PUT',
+        headers: { 'Content-Type': contentType },
+      }),
+
+      createMultipart: async (key, contentType) => {
+        const response = await client.send(new CreateMultipartUploadCommand({ Bucket: options.bucket, Key: key, ContentType: contentType }));
+        return response.UploadId!;
+      },
+
+      presignPart: async (key, uploadId, partNumber, expiresIn) => ({
+        url: await getSignedUrl(
+          client,
+          new UploadPartCommand({ Bucket: options.bucket, Key: key, UploadId: uploadId, PartNumber: partNumber }),
+          { expiresIn }
+        ),
+        method: 'PUT',
+        headers: {},
+      }),
+
+      listParts: async (key, uploadId) => {
+        const parts: UploadedPart[] = [];
+        let marker: string | undefined;
+        do {
+          const response = await client.send(
+            new ListPartsCommand({ Bucket: options.bucket, Key: key, UploadId: uploadId, PartNumberMarker: marker })
+          );
+          for (const part of response.Parts ?? []) {
+            parts.push({ partNumber: part.PartNumber!, etag: part.ETag!, size: part.Size ?? 0 });
+          }
+          marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+        } while (marker);
+        return parts;
+      },
+
+      completeMultipart: async (key, uploadId, parts) => {
+        await client.send(new CompleteMultipartUploadCommand({
+          Bucket: options.bucket,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: { Parts: parts.map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })) },
+        }));
+      },
+
+      abortMultipart: async (key, uploadId) => {
+        await client.send(new AbortMultipartUploadCommand({ Bucket: options.bucket, Key: key, UploadId: uploadId }));
+      },
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * 对象存储驱动接口 - Workers R2 代理 / 本地磁盘 / S3 兼容存储
+ */
+
+import type { Readable } from 'stream';
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface ObjectInfo {
+  size: number;
+  contentType: string;
+}
+
+export interface StorageDriver {
+  upload(key: string, file: Buffer | Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  // 大文件按流读取，不整体载入内存
+  getStream(key: string): Promise<Readable | null>;
+  // 只查询大小和类型，不读取内容
+  stat(key: string): Promise<ObjectInfo | null>;
+  delete(key: string): Promise<void>;
+  // 返回可直接访问的地址，私有存储返回带有效期的签名 URL
+  getUrl(key: string, options?: { expiresIn?: number }): Promise<string>;
+  exists(key: string): Promise<boolean>;
+  // 客户端直传，不支持的驱动（Workers 代理）为 undefined
+  direct?: DirectUploads;
+}
+
+// 预签名的上传请求，客户端需带上 headers 中的请求头
+export interface PresignedRequest {
+  url: string;
+  method: 'PUT';
+  headers: Record<string, string>;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+// 客户端直传：单次上传使用预签名 PUT，大文件使用分片上传，已上传的分片可查询以便断点续传
+export interface DirectUploads {
+  presignPut(key: string, contentType: string, expiresIn: number): Promise<PresignedRequest>;
+  // 返回存储的分片上传 ID
+  createMultipart(key: string, contentType: string): Promise<string>;
+  presignPart(key: string, uploadId: string, partNumber: number, expiresIn: number): Promise<PresignedRequest>;
+  listParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+  completeMultipart(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+  abortMultipart(key: string, uploadId: string): Promise<void>;
+}
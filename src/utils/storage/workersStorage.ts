@@ -0,0 +1,100 @@
+/**
+ * Workers 存储驱动 - 通过 Cloudflare Workers /api/storage 代理访问 R2
+ */
+
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { WORKERS_API_URL, API_SECRET, request } from '../workersApi.js';
+import type { StorageDriver } from './types.js';
+
+export function createWorkersStorage(): StorageDriver {
+  const objectUrl = (key: string) => `${WORKERS_API_URL}/api/storage/${key}`;
+
+  return {
+    getUrl: async (key) => objectUrl(key),
+
+    upload: async (key, file, contentType) => {
+      const formData = new FormData();
+      // 将 Buffer/Uint8Array 转换为 ArrayBuffer 再创建 Blob 以确保类型兼容
+      const arrayBuffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+      formData.append('file', new Blob([arrayBuffer], { type: contentType }), key);
+      formData.append('key', key);
+
+      const response = await fetch(`${WORKERS_API_URL}/api/storage/upload`, {
+        method: 'POST',
+        headers: {
+          'X-API-Key': API_SECRET,
+        },
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Upload failed: ${response.status}`);
+      }
+    },
+
+    get: async (key) => {
+      const response = await fetch(objectUrl(key), {
+        headers: { 'X-API-Key': API_SECRET },
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Download failed: ${response.status}`);
+      }
+
+      return {
+        body: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+      };
+    },
+
+    getStream: async (key) => {
+      const response = await fetch(objectUrl(key), {
+        headers: { 'X-API-Key': API_SECRET },
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Download failed: ${response.status}`);
+      }
+
+      return Readable.fromWeb(response.body as WebReadableStream);
+    },
+
+    stat: async (key) => {
+      const response = await fetch(objectUrl(key), {
+        method: 'HEAD',
+        headers: { 'X-API-Key': API_SECRET },
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Stat failed: ${response.status}`);
+      }
+
+      return {
+        size: parseInt(response.headers.get('content-length') || '0'),
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+      };
+    },
+
+    exists: async (key) => {
+      const response = await fetch(objectUrl(key), {
+        method: 'HEAD',
+        headers: { 'X-API-Key': API_SECRET },
+      });
+      return response.ok;
+    },
+
+    delete: async (key) => {
+      await request<any>(`/api/storage/${key}`, { method: 'DELETE' });
+    },
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * 数据后端功能 - 每项功能需要的数据结构版本（对应 migrations.ts 中的迁移版本）。
+ * SQLite 始终支持全部功能；Workers 后端按 Worker 报告的版本启用，旧版 Worker 只提供基础的用户、项目、图片、段落和竞品文案接口
+ */
+
+export const STORE_FEATURES = {
+  // 按 id 查询/插入/排序段落，段落和脚本版本历史
+  sectionHistory: 2,
+  // 按 id 查询图片，多版本图片选择
+  imageVariants: 3,
+  // 刷新令牌、退出登录和密码重置
+  authTokens: 5,
+  // 团队工作区、成员和邀请
+  workspaces: 6,
+  // 管理后台：角色、停用、套餐和平台统计
+  userAdmin: 7,
+  // AI 用量计量和额度
+  aiUsage: 8,
+  promptTemplates: 9,
+  translations: 10,
+  brandKits: 11,
+  competitorReports: 12,
+  compliance: 13,
+  idempotency: 14,
+  aiCache: 14,
+  // 按内容哈希去重上传图片
+  imageDedup: 15,
+  directUploads: 16,
+  // 修改密码，同时递增令牌版本使旧访问令牌失效
+  passwordChange: 17,
+} as const;
+
+export type StoreFeature = keyof typeof STORE_FEATURES;
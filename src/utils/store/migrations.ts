@@ -0,0 +1,451 @@
+/**
+ * SQLite 数据库迁移 - 按版本号顺序执行，已执行的版本记录在 schema_migrations 表
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: `
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        name TEXT,
+        role TEXT NOT NULL DEFAULT 'user',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE projects (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        product_name TEXT NOT NULL,
+        product_desc TEXT,
+        status TEXT NOT NULL DEFAULT 'uploaded',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_projects_user_id ON projects(user_id);
+
+      CREATE TABLE sections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        order_index INTEGER NOT NULL DEFAULT 0,
+        title TEXT NOT NULL,
+        subtitle TEXT,
+        description TEXT,
+        visual_guide TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_sections_project_id ON sections(project_id, order_index);
+
+      CREATE TABLE images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        section_id INTEGER REFERENCES sections(id) ON DELETE SET NULL,
+        type TEXT NOT NULL,
+        r2_key TEXT NOT NULL,
+        orig_filename TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_images_project_id ON images(project_id);
+
+      CREATE TABLE competitor_text (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        text TEXT NOT NULL,
+        analysis TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_competitor_text_project_id ON competitor_text(project_id);
+    `,
+  },
+  {
+    version: 2,
+    name: 'version_history',
+    up: `
+      CREATE TABLE section_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        section_id INTEGER NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+        project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        subtitle TEXT,
+        description TEXT,
+        visual_guide TEXT,
+        source TEXT NOT NULL,
+        instruction TEXT,
+        author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE (section_id, version)
+      );
+
+      CREATE TABLE script_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        instruction TEXT,
+        author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        sections TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE (project_id, version)
+      );
+    `,
+  },
+  {
+    version: 3,
+    name: 'image_variants',
+    up: `
+      ALTER TABLE images ADD COLUMN selected INTEGER NOT NULL DEFAULT 0;
+
+      -- 已有数据：每个段落最新的生成图作为选中图
+      UPDATE images SET selected = 1
+      WHERE type = 'generated_output'
+        AND section_id IS NOT NULL
+        AND id = (
+          SELECT MAX(i2.id) FROM images i2
+          WHERE i2.project_id = images.project_id AND i2.section_id = images.section_id AND i2.type = 'generated_output'
+        );
+    `,
+  },
+  {
+    version: 4,
+    name: 'image_references',
+    up: `
+      -- JSON 数组，记录生成时使用的产品参考图
+      ALTER TABLE images ADD COLUMN reference_image_ids TEXT NOT NULL DEFAULT '[]';
+    `,
+  },
+  {
+    version: 5,
+    name: 'auth_tokens',
+    up: `
+      CREATE TABLE refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        family_id TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at TEXT NOT NULL,
+        revoked_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+      CREATE INDEX idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+
+      CREATE TABLE password_reset_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at TEXT NOT NULL,
+        used_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+    `,
+  },
+  {
+    version: 6,
+    name: 'workspaces',
+    up: `
+      CREATE TABLE workspaces (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        owner_id INTEGER NOT NULL REFERENCES users(id),
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE workspace_members (
+        workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (workspace_id, user_id)
+      );
+      CREATE INDEX idx_workspace_members_user_id ON workspace_members(user_id);
+
+      CREATE TABLE workspace_invitations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        email TEXT NOT NULL,
+        role TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        invited_by INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        expires_at TEXT NOT NULL,
+        accepted_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_workspace_invitations_workspace_id ON workspace_invitations(workspace_id);
+
+      ALTER TABLE projects ADD COLUMN workspace_id INTEGER REFERENCES workspaces(id) ON DELETE CASCADE;
+      CREATE INDEX idx_projects_workspace_id ON projects(workspace_id);
+
+      -- 已有数据：每个用户一个个人工作区，原有项目归入创建者的个人工作区
+      INSERT INTO workspaces (name, owner_id)
+        SELECT COALESCE(name, email) || ' 的工作区', id FROM users ORDER BY id;
+      INSERT INTO workspace_members (workspace_id, user_id, role)
+        SELECT id, owner_id, 'owner' FROM workspaces;
+      UPDATE projects SET workspace_id = (SELECT w.id FROM workspaces w WHERE w.owner_id = projects.user_id);
+    `,
+  },
+  {
+    version: 7,
+    name: 'user_admin',
+    up: `
+      ALTER TABLE users ADD COLUMN disabled_at TEXT;
+    `,
+  },
+  {
+    version: 8,
+    name: 'ai_usage',
+    up: `
+      ALTER TABLE users ADD COLUMN plan TEXT NOT NULL DEFAULT 'free';
+
+      CREATE TABLE ai_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+        kind TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        total_tokens INTEGER NOT NULL DEFAULT 0,
+        image_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_ai_usage_user_id ON ai_usage(user_id, created_at);
+      CREATE INDEX idx_ai_usage_created_at ON ai_usage(created_at);
+    `,
+  },
+  {
+    version: 9,
+    name: 'prompt_templates',
+    up: `
+      CREATE TABLE prompt_templates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        kind TEXT NOT NULL,
+        category TEXT,
+        description TEXT,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_prompt_templates_kind ON prompt_templates(kind, category);
+
+      CREATE TABLE prompt_template_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        template_id INTEGER NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        system TEXT,
+        body TEXT NOT NULL,
+        variables TEXT NOT NULL DEFAULT '[]',
+        note TEXT,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE (template_id, version)
+      );
+
+      ALTER TABLE projects ADD COLUMN category TEXT;
+      ALTER TABLE projects ADD COLUMN prompt_templates TEXT NOT NULL DEFAULT '{}';
+
+      ALTER TABLE images ADD COLUMN prompt_template TEXT;
+      ALTER TABLE images ADD COLUMN prompt_version INTEGER;
+      ALTER TABLE section_versions ADD COLUMN prompt_template TEXT;
+      ALTER TABLE section_versions ADD COLUMN prompt_version INTEGER;
+      ALTER TABLE script_versions ADD COLUMN prompt_template TEXT;
+      ALTER TABLE script_versions ADD COLUMN prompt_version INTEGER;
+      ALTER TABLE ai_usage ADD COLUMN prompt_template TEXT;
+      ALTER TABLE ai_usage ADD COLUMN prompt_version INTEGER;
+    `,
+  },
+  {
+    version: 10,
+    name: 'section_translations',
+    up: `
+      ALTER TABLE projects ADD COLUMN locale TEXT NOT NULL DEFAULT 'zh-CN';
+      ALTER TABLE images ADD COLUMN locale TEXT;
+
+      CREATE TABLE section_translations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        section_id INTEGER NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+        project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        locale TEXT NOT NULL,
+        title TEXT NOT NULL,
+        subtitle TEXT,
+        description TEXT,
+        source_updated_at TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE (section_id, locale)
+      );
+      CREATE INDEX idx_section_translations_project ON section_translations(project_id, locale);
+    `,
+  },
+  {
+    version: 11,
+    name: 'brand_kits',
+    up: `
+      CREATE TABLE brand_kits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        palette TEXT NOT NULL,
+        fonts TEXT NOT NULL DEFAULT '{}',
+        logo_r2_key TEXT,
+        logo_placement TEXT NOT NULL,
+        tone TEXT,
+        banned_phrases TEXT NOT NULL DEFAULT '[]',
+        selling_point_order TEXT NOT NULL DEFAULT '[]',
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_brand_kits_workspace ON brand_kits(workspace_id);
+
+      ALTER TABLE projects ADD COLUMN brand_kit_id INTEGER REFERENCES brand_kits(id) ON DELETE SET NULL;
+    `,
+  },
+  {
+    version: 12,
+    name: 'competitor_reports',
+    up: `
+      CREATE TABLE competitor_reports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id INTEGER NOT NULL UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+        report TEXT NOT NULL,
+        source_text_ids TEXT NOT NULL DEFAULT '[]',
+        prompt_template TEXT,
+        prompt_version INTEGER,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `,
+  },
+  {
+    version: 13,
+    name: 'compliance',
+    up: `
+      CREATE TABLE compliance_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        pattern TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        suggestion TEXT,
+        category TEXT,
+        severity TEXT NOT NULL DEFAULT 'error',
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE compliance_issues (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        section_id INTEGER NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+        field TEXT NOT NULL,
+        start_offset INTEGER NOT NULL,
+        end_offset INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        rule_id TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        suggestion TEXT,
+        severity TEXT NOT NULL,
+        acknowledged_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        acknowledged_at TEXT,
+        acknowledge_note TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_compliance_issues_project ON compliance_issues(project_id);
+      CREATE INDEX idx_compliance_issues_section ON compliance_issues(section_id);
+    `,
+  },
+  {
+    version: 14,
+    name: 'idempotency_and_ai_cache',
+    up: `
+      CREATE TABLE idempotency_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        key TEXT NOT NULL,
+        request_hash TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        response_status INTEGER,
+        response_type TEXT,
+        response_body TEXT,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        completed_at TEXT,
+        UNIQUE (user_id, key)
+      );
+
+      CREATE TABLE ai_cache (
+        key TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        model TEXT NOT NULL,
+        content TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `,
+  },
+  {
+    version: 15,
+    name: 'image_metadata',
+    up: `
+      ALTER TABLE images ADD COLUMN width INTEGER;
+      ALTER TABLE images ADD COLUMN height INTEGER;
+      ALTER TABLE images ADD COLUMN content_hash TEXT;
+      ALTER TABLE images ADD COLUMN thumbnails TEXT NOT NULL DEFAULT '{}';
+      CREATE INDEX idx_images_content_hash ON images(project_id, content_hash);
+    `,
+  },
+  {
+    version: 16,
+    name: 'direct_uploads',
+    up: `
+      CREATE TABLE direct_uploads (
+        id TEXT PRIMARY KEY,
+        project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        r2_key TEXT NOT NULL,
+        orig_filename TEXT NOT NULL,
+        content_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        multipart_id TEXT,
+        part_size INTEGER,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX idx_direct_uploads_project_id ON direct_uploads(project_id);
+    `,
+  },
+  {
+    version: 17,
+    name: 'user_token_version',
+    up: `
+      ALTER TABLE users ADD COLUMN token_version INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    version: 18,
+    name: 'users_email_nocase',
+    up: `
+      -- 已有数据：邮箱改为小写。存在仅大小写不同的重复账号时迁移失败，需先人工合并
+      UPDATE users SET email = lower(email) WHERE email <> lower(email);
+      CREATE UNIQUE INDEX idx_users_email_nocase ON users(email COLLATE NOCASE);
+    `,
+  },
+];
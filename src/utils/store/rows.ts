@@ -0,0 +1,682 @@
+/**
+ * 数据库行结构（snake_case）及到领域模型的映射
+ */
+
+import type {
+  User, UserRecord, Project, Image, Section, SectionTranslation, CompetitorText, CompetitorReport, ComplianceRule, ComplianceIssue, ComplianceMatchType, ComplianceSeverity, ComplianceField, ProjectStatus, ImageType, BrandKit,
+  SectionVersion, ScriptVersion, VersionSource, RefreshToken, PasswordResetToken, AiUsageRecord, AiUsageKind, AiCacheEntry, DirectUpload,
+  IdempotencyRecord, IdempotencyStatus, IdempotencyResponseType,
+  PromptRef, PromptKind, PromptTemplate, PromptTemplateVersion,
+  Workspace, WorkspaceWithRole, WorkspaceMember, WorkspaceInvitation, WorkspaceRole,
+} from '../../types/models.js';
+
+export interface UserRow {
+  id: number;
+  email: string;
+  password_hash: string;
+  name: string | null;
+  role: string | null;
+  plan: string | null;
+  disabled_at: string | null;
+  token_version: number | null;
+  created_at: string;
+}
+
+export interface ProjectRow {
+  id: number;
+  user_id: number;
+  workspace_id: number | null;
+  product_name: string;
+  product_desc: string | null;
+  category: string | null;
+  // JSON 对象
+  prompt_templates: string | null;
+  locale: string | null;
+  brand_kit_id: number | null;
+  status: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ImageRow {
+  id: number;
+  project_id: number;
+  section_id: number | null;
+  type: string;
+  r2_key: string;
+  orig_filename: string | null;
+  selected: number | boolean | null;
+  reference_image_ids: string | null;
+  prompt_template: string | null;
+  prompt_version: number | null;
+  locale: string | null;
+  width: number | null;
+  height: number | null;
+  content_hash: string | null;
+  thumbnails: string | null;
+  created_at: string;
+}
+
+export interface SectionRow {
+  id: number;
+  project_id: number;
+  order_index: number;
+  title: string;
+  subtitle: string | null;
+  description: string | null;
+  visual_guide: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BrandKitRow {
+  id: number;
+  workspace_id: number;
+  name: string;
+  // palette/fonts/logo_placement/banned_phrases/selling_point_order 为 JSON
+  palette: string;
+  fonts: string;
+  logo_r2_key: string | null;
+  logo_placement: string;
+  tone: string | null;
+  banned_phrases: string;
+  selling_point_order: string;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SectionTranslationRow {
+  id: number;
+  section_id: number;
+  project_id: number;
+  locale: string;
+  title: string;
+  subtitle: string | null;
+  description: string | null;
+  source_updated_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SectionVersionRow {
+  id: number;
+  section_id: number;
+  project_id: number;
+  version: number;
+  title: string;
+  subtitle: string | null;
+  description: string | null;
+  visual_guide: string | null;
+  source: string;
+  instruction: string | null;
+  author_id: number | null;
+  prompt_template: string | null;
+  prompt_version: number | null;
+  created_at: string;
+}
+
+export interface ScriptVersionRow {
+  id: number;
+  project_id: number;
+  version: number;
+  source: string;
+  instruction: string | null;
+  author_id: number | null;
+  prompt_template: string | null;
+  prompt_version: number | null;
+  // JSON 数组
+  sections: string;
+  created_at: string;
+}
+
+export interface CompetitorTextRow {
+  id: number;
+  project_id: number;
+  text: string;
+  analysis: string | null;
+  created_at: string;
+}
+
+export interface CompetitorReportRow {
+  id: number;
+  project_id: number;
+  // JSON
+  report: string;
+  // JSON 数组
+  source_text_ids: string;
+  prompt_template: string | null;
+  prompt_version: number | null;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ComplianceRuleRow {
+  id: number;
+  type: string;
+  pattern: string;
+  reason: string;
+  suggestion: string | null;
+  category: string | null;
+  severity: string;
+  enabled: number;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ComplianceIssueRow {
+  id: number;
+  project_id: number;
+  section_id: number;
+  field: string;
+  start_offset: number;
+  end_offset: number;
+  text: string;
+  rule_id: string;
+  reason: string;
+  suggestion: string | null;
+  severity: string;
+  acknowledged_by: number | null;
+  acknowledged_at: string | null;
+  acknowledge_note: string | null;
+  created_at: string;
+}
+
+export interface RefreshTokenRow {
+  id: number;
+  user_id: number;
+  family_id: string;
+  token_hash: string;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface PasswordResetTokenRow {
+  id: number;
+  user_id: number;
+  token_hash: string;
+  expires_at: string;
+  used_at: string | null;
+  created_at: string;
+}
+
+export interface WorkspaceRow {
+  id: number;
+  name: string;
+  owner_id: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceWithRoleRow extends WorkspaceRow {
+  role: string;
+}
+
+// workspace_members 关联 users 查询出的行
+export interface WorkspaceMemberRow {
+  workspace_id: number;
+  user_id: number;
+  role: string;
+  email: string;
+  name: string | null;
+  created_at: string;
+}
+
+export interface WorkspaceInvitationRow {
+  id: number;
+  workspace_id: number;
+  email: string;
+  role: string;
+  token_hash: string;
+  invited_by: number;
+  expires_at: string;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+export interface AiUsageRow {
+  id: number;
+  user_id: number;
+  project_id: number | null;
+  kind: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  image_count: number;
+  prompt_template: string | null;
+  prompt_version: number | null;
+  created_at: string;
+}
+
+export interface IdempotencyKeyRow {
+  id: number;
+  user_id: number;
+  key: string;
+  request_hash: string;
+  status: string;
+  response_status: number | null;
+  response_type: string | null;
+  // JSON
+  response_body: string | null;
+  expires_at: string;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface DirectUploadRow {
+  id: string;
+  project_id: number;
+  user_id: number;
+  type: string;
+  r2_key: string;
+  orig_filename: string;
+  content_type: string;
+  size: number;
+  multipart_id: string | null;
+  part_size: number | null;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface AiCacheRow {
+  key: string;
+  kind: string;
+  model: string;
+  content: string;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface PromptTemplateRow {
+  id: number;
+  name: string;
+  kind: string;
+  category: string | null;
+  description: string | null;
+  // 查询时由版本表聚合
+  latest_version: number;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromptTemplateVersionRow {
+  id: number;
+  template_id: number;
+  version: number;
+  system: string | null;
+  body: string;
+  // JSON 数组
+  variables: string;
+  note: string | null;
+  created_by: number | null;
+  created_at: string;
+}
+
+// 提示词模板列（prompt_template / prompt_version）
+function toPromptRef(row: { prompt_template: string | null; prompt_version: number | null }): PromptRef | null {
+  return row.prompt_template && row.prompt_version !== null && row.prompt_version !== undefined
+    ? { name: row.prompt_template, version: row.prompt_version }
+    : null;
+}
+
+export function toUserRecord(row: UserRow): UserRecord {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name ?? null,
+    role: row.role || 'user',
+    plan: row.plan || 'free',
+    disabledAt: row.disabled_at ?? null,
+    tokenVersion: row.token_version ?? 0,
+    createdAt: row.created_at,
+    passwordHash: row.password_hash,
+  };
+}
+
+export function toUser(row: UserRow): User {
+  const { passwordHash, ...user } = toUserRecord(row);
+  return user;
+}
+
+export function toProject(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    workspaceId: row.workspace_id ?? null,
+    productName: row.product_name,
+    productDesc: row.product_desc ?? null,
+    category: row.category ?? null,
+    promptTemplates: JSON.parse(row.prompt_templates || '{}'),
+    // 多语言支持之前的项目均为简体中文
+    locale: row.locale || 'zh-CN',
+    brandKitId: row.brand_kit_id ?? null,
+    status: row.status as ProjectStatus,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toImage(row: ImageRow): Image {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    sectionId: row.section_id ?? null,
+    type: row.type as ImageType,
+    r2Key: row.r2_key,
+    origFilename: row.orig_filename ?? null,
+    selected: Boolean(row.selected),
+    referenceImageIds: JSON.parse(row.reference_image_ids || '[]'),
+    prompt: toPromptRef(row),
+    locale: row.locale ?? null,
+    width: row.width ?? null,
+    height: row.height ?? null,
+    contentHash: row.content_hash ?? null,
+    thumbnails: JSON.parse(row.thumbnails || '{}'),
+    createdAt: row.created_at,
+  };
+}
+
+export function toSection(row: SectionRow): Section {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    orderIndex: row.order_index,
+    title: row.title,
+    subtitle: row.subtitle ?? null,
+    description: row.description ?? null,
+    visualGuide: row.visual_guide ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toBrandKit(row: BrandKitRow): BrandKit {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    palette: JSON.parse(row.palette),
+    fonts: JSON.parse(row.fonts),
+    logoR2Key: row.logo_r2_key ?? null,
+    logoPlacement: JSON.parse(row.logo_placement),
+    tone: row.tone ?? null,
+    bannedPhrases: JSON.parse(row.banned_phrases),
+    sellingPointOrder: JSON.parse(row.selling_point_order),
+    createdBy: row.created_by ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toSectionTranslation(row: SectionTranslationRow): SectionTranslation {
+  return {
+    id: row.id,
+    sectionId: row.section_id,
+    projectId: row.project_id,
+    locale: row.locale,
+    title: row.title,
+    subtitle: row.subtitle ?? null,
+    description: row.description ?? null,
+    sourceUpdatedAt: row.source_updated_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toSectionVersion(row: SectionVersionRow): SectionVersion {
+  return {
+    id: row.id,
+    sectionId: row.section_id,
+    projectId: row.project_id,
+    version: row.version,
+    title: row.title,
+    subtitle: row.subtitle ?? null,
+    description: row.description ?? null,
+    visualGuide: row.visual_guide ?? null,
+    source: row.source as VersionSource,
+    instruction: row.instruction ?? null,
+    authorId: row.author_id ?? null,
+    prompt: toPromptRef(row),
+    createdAt: row.created_at,
+  };
+}
+
+export function toScriptVersion(row: ScriptVersionRow): ScriptVersion {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    version: row.version,
+    source: row.source as VersionSource,
+    instruction: row.instruction ?? null,
+    authorId: row.author_id ?? null,
+    prompt: toPromptRef(row),
+    sections: JSON.parse(row.sections || '[]'),
+    createdAt: row.created_at,
+  };
+}
+
+export function toCompetitorText(row: CompetitorTextRow): CompetitorText {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    text: row.text,
+    analysis: row.analysis ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function toCompetitorReport(row: CompetitorReportRow): CompetitorReport {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    report: JSON.parse(row.report),
+    sourceTextIds: JSON.parse(row.source_text_ids),
+    prompt: toPromptRef(row),
+    createdBy: row.created_by ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toComplianceRule(row: ComplianceRuleRow): ComplianceRule {
+  return {
+    id: row.id,
+    type: row.type as ComplianceMatchType,
+    pattern: row.pattern,
+    reason: row.reason,
+    suggestion: row.suggestion ?? null,
+    category: row.category ?? null,
+    severity: row.severity as ComplianceSeverity,
+    enabled: Boolean(row.enabled),
+    createdBy: row.created_by ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toComplianceIssue(row: ComplianceIssueRow): ComplianceIssue {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    sectionId: row.section_id,
+    field: row.field as ComplianceField,
+    start: row.start_offset,
+    end: row.end_offset,
+    text: row.text,
+    ruleId: row.rule_id,
+    reason: row.reason,
+    suggestion: row.suggestion ?? null,
+    severity: row.severity as ComplianceSeverity,
+    acknowledgedBy: row.acknowledged_by ?? null,
+    acknowledgedAt: row.acknowledged_at ?? null,
+    acknowledgeNote: row.acknowledge_note ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function toRefreshToken(row: RefreshTokenRow): RefreshToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    familyId: row.family_id,
+    tokenHash: row.token_hash,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function toPasswordResetToken(row: PasswordResetTokenRow): PasswordResetToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tokenHash: row.token_hash,
+    expiresAt: row.expires_at,
+    usedAt: row.used_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function toWorkspace(row: WorkspaceRow): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toWorkspaceWithRole(row: WorkspaceWithRoleRow): WorkspaceWithRole {
+  return { ...toWorkspace(row), role: row.role as WorkspaceRole };
+}
+
+export function toWorkspaceMember(row: WorkspaceMemberRow): WorkspaceMember {
+  return {
+    workspaceId: row.workspace_id,
+    userId: row.user_id,
+    role: row.role as WorkspaceRole,
+    email: row.email,
+    name: row.name ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function toWorkspaceInvitation(row: WorkspaceInvitationRow): WorkspaceInvitation {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    email: row.email,
+    role: row.role as WorkspaceRole,
+    tokenHash: row.token_hash,
+    invitedBy: row.invited_by,
+    expiresAt: row.expires_at,
+    acceptedAt: row.accepted_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function toAiUsageRecord(row: AiUsageRow): AiUsageRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    projectId: row.project_id ?? null,
+    kind: row.kind as AiUsageKind,
+    model: row.model,
+    promptTokens: row.prompt_tokens,
+    completionTokens: row.completion_tokens,
+    totalTokens: row.total_tokens,
+    imageCount: row.image_count,
+    prompt: toPromptRef(row),
+    createdAt: row.created_at,
+  };
+}
+
+export function toPromptTemplate(row: PromptTemplateRow): PromptTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind as PromptKind,
+    category: row.category ?? null,
+    description: row.description ?? null,
+    latestVersion: row.latest_version ?? 0,
+    createdBy: row.created_by ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toPromptTemplateVersion(row: PromptTemplateVersionRow): PromptTemplateVersion {
+  return {
+    id: row.id,
+    templateId: row.template_id,
+    version: row.version,
+    system: row.system ?? null,
+    body: row.body,
+    variables: JSON.parse(row.variables || '[]'),
+    note: row.note ?? null,
+    createdBy: row.created_by ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function toIdempotencyRecord(row: IdempotencyKeyRow): IdempotencyRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    key: row.key,
+    requestHash: row.request_hash,
+    status: row.status as IdempotencyStatus,
+    responseStatus: row.response_status ?? null,
+    responseType: (row.response_type as IdempotencyResponseType) ?? null,
+    responseBody: row.response_body ? JSON.parse(row.response_body) : null,
+    expiresAt: toIsoTimestamp(row.expires_at),
+    createdAt: toIsoTimestamp(row.created_at),
+    completedAt: row.completed_at ? toIsoTimestamp(row.completed_at) : null,
+  };
+}
+
+export function toDirectUpload(row: DirectUploadRow): DirectUpload {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    userId: row.user_id,
+    type: row.type as ImageType,
+    r2Key: row.r2_key,
+    origFilename: row.orig_filename,
+    contentType: row.content_type,
+    size: row.size,
+    multipartId: row.multipart_id ?? null,
+    partSize: row.part_size ?? null,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function toAiCacheEntry(row: AiCacheRow): AiCacheEntry {
+  return {
+    key: row.key,
+    kind: row.kind as AiUsageKind,
+    model: row.model,
+    content: row.content,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
+
+// SQLite 的 datetime('now') 为不带时区的 UTC 时间（YYYY-MM-DD HH:MM:SS），D1 可能返回 ISO 字符串，统一转为 ISO 格式
+export function toIsoTimestamp(value: string): string {
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+// 行不存在时返回 null
+export function mapOrNull<R, M>(row: R | null | undefined, mapper: (row: R) => M): M | null {
+  return row ? mapper(row) : null;
+}
+
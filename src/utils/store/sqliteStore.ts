@@ -0,0 +1,1126 @@
+/**
+ * SQLite 数据后端 - 嵌入式数据库，用于本地开发、测试和私有化部署
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { migrations } from './migrations.js';
+import {
+  UserRow, ProjectRow, ImageRow, SectionRow, SectionTranslationRow, SectionVersionRow, ScriptVersionRow, CompetitorTextRow, CompetitorReportRow, ComplianceRuleRow, ComplianceIssueRow,
+  RefreshTokenRow, PasswordResetTokenRow, IdempotencyKeyRow, AiUsageRow, AiCacheRow, DirectUploadRow, PromptTemplateRow, PromptTemplateVersionRow, BrandKitRow, WorkspaceRow, WorkspaceWithRoleRow, WorkspaceMemberRow, WorkspaceInvitationRow,
+  toUser, toUserRecord, toProject, toImage, toSection, toSectionTranslation, toSectionVersion, toScriptVersion, toCompetitorText, toCompetitorReport, toComplianceRule, toComplianceIssue,
+  toRefreshToken, toPasswordResetToken, toIdempotencyRecord, toAiUsageRecord, toAiCacheEntry, toDirectUpload, toPromptTemplate, toPromptTemplateVersion, toBrandKit, toWorkspace, toWorkspaceWithRole, toWorkspaceMember, toWorkspaceInvitation, mapOrNull,
+} from './rows.js';
+import type { DataStore, PromptVersionInput } from './types.js';
+import type { ProjectStatus, ImageType, AiUsageKind } from '../../types/models.js';
+
+// 执行尚未应用的迁移
+export function migrate(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+
+  const applied = new Set(
+    db.prepare('SELECT version FROM schema_migrations').all().map((row: any) => row.version as number)
+  );
+
+  const pending = migrations
+    .filter((m) => !applied.has(m.version))
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.up);
+      db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+    })();
+    console.log(`Applied migration ${migration.version}_${migration.name}`);
+  }
+}
+
+export function openDatabase(filename: string): Database.Database {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
+
+// 只更新传入的字段（undefined 表示不修改，null 表示清空），并刷新 updated_at
+function updateColumns(db: Database.Database, table: string, id: number, columns: Record<string, unknown>) {
+  const entries = Object.entries(columns).filter(([, value]) => value !== undefined);
+  const assignments = [...entries.map(([column]) => `${column} = ?`), "updated_at = datetime('now')"];
+  db.prepare(`UPDATE ${table} SET ${assignments.join(', ')} WHERE id = ?`).run(...entries.map(([, value]) => value), id);
+}
+
+// 最近 days 天的 UTC 日期（YYYY-MM-DD），升序
+function lastDays(days: number): string[] {
+  const now = new Date();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Array.from({ length: days }, (_, i) => new Date(today - (days - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10));
+}
+
+export function createSqliteStore(db: Database.Database): DataStore {
+  const getProject = db.prepare<[number | bigint], ProjectRow>('SELECT * FROM projects WHERE id = ?');
+  const getSection = db.prepare<[number | bigint], SectionRow>('SELECT * FROM sections WHERE id = ?');
+  const getImage = db.prepare<[number | bigint], ImageRow>('SELECT * FROM images WHERE id = ?');
+  const getDirectUpload = db.prepare<[string], DirectUploadRow>('SELECT * FROM direct_uploads WHERE id = ?');
+  const getUser = db.prepare<[number | bigint], UserRow>('SELECT * FROM users WHERE id = ?');
+  const getWorkspace = db.prepare<[number | bigint], WorkspaceRow>('SELECT * FROM workspaces WHERE id = ?');
+  const getInvitation = db.prepare<[number | bigint], WorkspaceInvitationRow>('SELECT * FROM workspace_invitations WHERE id = ?');
+
+  const selectMember = `
+    SELECT m.workspace_id, m.user_id, m.role, m.created_at, u.email, u.name
+    FROM workspace_members m JOIN users u ON u.id = m.user_id
+  `;
+  const getMember = db.prepare<[number, number], WorkspaceMemberRow>(`${selectMember} WHERE m.workspace_id = ? AND m.user_id = ?`);
+
+  const insertSection = db.prepare(`
+    INSERT INTO sections (project_id, order_index, title, subtitle, description, visual_guide)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const listSectionIds = db.prepare<[number], { id: number }>(
+    'SELECT id FROM sections WHERE project_id = ? ORDER BY order_index, id'
+  );
+  const setOrderIndex = db.prepare<[number, number]>('UPDATE sections SET order_index = ? WHERE id = ?');
+
+  // 按给定顺序重写 order_index，保持从 0 开始连续
+  const writeOrder = (ids: number[]) => {
+    ids.forEach((id, index) => setOrderIndex.run(index, id));
+  };
+
+  const reindex = (projectId: number) => {
+    writeOrder(listSectionIds.all(projectId).map((row) => row.id));
+  };
+
+  const nextOrderIndex = (projectId: number): number => {
+    const row = db
+      .prepare<[number], { max_index: number | null }>('SELECT MAX(order_index) AS max_index FROM sections WHERE project_id = ?')
+      .get(projectId);
+    return row?.max_index === null || row?.max_index === undefined ? 0 : row.max_index + 1;
+  };
+
+  const selectPromptTemplate = `
+    SELECT t.*, (SELECT COALESCE(MAX(v.version), 0) FROM prompt_template_versions v WHERE v.template_id = t.id) AS latest_version
+    FROM prompt_templates t
+  `;
+  const getPromptTemplate = db.prepare<[number | bigint], PromptTemplateRow>(`${selectPromptTemplate} WHERE t.id = ?`);
+
+  const insertPromptVersion = (templateId: number, version: number, data: PromptVersionInput) => {
+    const result = db
+      .prepare('INSERT INTO prompt_template_versions (template_id, version, system, body, variables, note, created_by) VALUES (?, ?, ?, ?, ?, ?, ?)')
+      .run(templateId, version, data.system ?? null, data.body, JSON.stringify(data.variables), data.note ?? null, data.createdBy ?? null);
+    return toPromptTemplateVersion(
+      db.prepare<[number | bigint], PromptTemplateVersionRow>('SELECT * FROM prompt_template_versions WHERE id = ?').get(result.lastInsertRowid)!
+    );
+  };
+
+  const getCompetitorReport = db.prepare<[number], CompetitorReportRow>('SELECT * FROM competitor_reports WHERE project_id = ?');
+  const getComplianceRule = db.prepare<[number | bigint], ComplianceRuleRow>('SELECT * FROM compliance_rules WHERE id = ?');
+  const getComplianceIssue = db.prepare<[number], ComplianceIssueRow>('SELECT * FROM compliance_issues WHERE id = ?');
+  const listComplianceIssues = db.prepare<[number], ComplianceIssueRow>(`
+    SELECT c.* FROM compliance_issues c
+    JOIN sections s ON s.id = c.section_id
+    WHERE c.project_id = ?
+    ORDER BY s.order_index, s.id, CASE c.field WHEN 'title' THEN 0 WHEN 'subtitle' THEN 1 ELSE 2 END, c.start_offset, c.id
+  `);
+  const getBrandKit = db.prepare<[number | bigint], BrandKitRow>('SELECT * FROM brand_kits WHERE id = ?');
+
+  return {
+    // 迁移在打开数据库时已全部应用
+    supports: () => true,
+
+    // ===== 用户操作 =====
+    users: {
+      create: async (data) => {
+        const result = db
+          .prepare('INSERT INTO users (email, password_hash, name) VALUES (?, ?, ?)')
+          .run(data.email, data.passwordHash, data.name ?? null);
+        return toUser(getUser.get(result.lastInsertRowid)!);
+      },
+
+      login: async (email) =>
+        mapOrNull(db.prepare<[string], UserRow>('SELECT * FROM users WHERE email = ? COLLATE NOCASE').get(email), toUserRecord),
+
+      getById: async (id) =>
+        mapOrNull(getUser.get(id), toUser),
+
+      getRecordById: async (id) =>
+        mapOrNull(getUser.get(id), toUserRecord),
+
+      updatePassword: async (id, passwordHash) => {
+        db.prepare("UPDATE users SET password_hash = ?, token_version = token_version + 1, updated_at = datetime('now') WHERE id = ?").run(passwordHash, id);
+      },
+
+      search: async (query) => {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (query.q) {
+          conditions.push("(email LIKE ? ESCAPE '\\' OR name LIKE ? ESCAPE '\\')");
+          const pattern = `%${query.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+          params.push(pattern, pattern);
+        }
+        if (query.role) {
+          conditions.push('role = ?');
+          params.push(query.role);
+        }
+        if (query.disabled !== undefined) {
+          conditions.push(query.disabled ? 'disabled_at IS NOT NULL' : 'disabled_at IS NULL');
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const { total } = db.prepare<unknown[], { total: number }>(`SELECT COUNT(*) AS total FROM users ${where}`).get(...params)!;
+        const rows = db
+          .prepare<unknown[], UserRow>(`SELECT * FROM users ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+          .all(...params, query.limit, query.offset);
+        return { users: rows.map(toUser), total };
+      },
+
+      updateRole: async (id, role) => {
+        if (!getUser.get(id)) return null;
+        updateColumns(db, 'users', id, { role });
+        return toUser(getUser.get(id)!);
+      },
+
+      setDisabled: async (id, disabled) => {
+        if (!getUser.get(id)) return null;
+        db.prepare(`UPDATE users SET disabled_at = ${disabled ? "COALESCE(disabled_at, datetime('now'))" : 'NULL'}, updated_at = datetime('now') WHERE id = ?`).run(id);
+        return toUser(getUser.get(id)!);
+      },
+
+      updatePlan: async (id, plan) => {
+        if (!getUser.get(id)) return null;
+        updateColumns(db, 'users', id, { plan });
+        return toUser(getUser.get(id)!);
+      },
+    },
+
+    // ===== 项目操作 =====
+    projects: {
+      list: async (userId) =>
+        (userId
+          ? db.prepare<[number], ProjectRow>('SELECT * FROM projects WHERE user_id = ? ORDER BY updated_at DESC, id DESC').all(userId)
+          : db.prepare<[], ProjectRow>('SELECT * FROM projects ORDER BY updated_at DESC, id DESC').all()
+        ).map(toProject),
+
+      search: async (query) => {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (query.userId) {
+          conditions.push('user_id = ?');
+          params.push(query.userId);
+        }
+        if (query.status) {
+          conditions.push('status = ?');
+          params.push(query.status);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const { total } = db.prepare<unknown[], { total: number }>(`SELECT COUNT(*) AS total FROM projects ${where}`).get(...params)!;
+        const rows = db
+          .prepare<unknown[], ProjectRow>(`SELECT * FROM projects ${where} ORDER BY updated_at DESC, id DESC LIMIT ? OFFSET ?`)
+          .all(...params, query.limit, query.offset);
+        return { projects: rows.map(toProject), total };
+      },
+
+      listAccessible: async (userId) =>
+        db
+          .prepare<[number, number], ProjectRow>(`
+            SELECT * FROM projects
+            WHERE workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = ?)
+               OR (workspace_id IS NULL AND user_id = ?)
+            ORDER BY updated_at DESC, id DESC
+          `)
+          .all(userId, userId)
+          .map(toProject),
+
+      listByWorkspace: async (workspaceId) =>
+        db
+          .prepare<[number], ProjectRow>('SELECT * FROM projects WHERE workspace_id = ? ORDER BY updated_at DESC, id DESC')
+          .all(workspaceId)
+          .map(toProject),
+
+      create: async (data) => {
+        const result = db
+          .prepare('INSERT INTO projects (user_id, workspace_id, product_name, product_desc, category, locale, status) VALUES (?, ?, ?, ?, ?, ?, ?)')
+          .run(
+            data.userId,
+            data.workspaceId ?? null,
+            data.productName,
+            data.productDesc ?? null,
+            data.category ?? null,
+            data.locale ?? 'zh-CN',
+            data.status || 'uploaded'
+          );
+        return toProject(getProject.get(result.lastInsertRowid)!);
+      },
+
+      getById: async (id) =>
+        mapOrNull(getProject.get(id), toProject),
+
+      update: async (id, data) => {
+        updateColumns(db, 'projects', id, {
+          product_name: data.productName,
+          product_desc: data.productDesc,
+          category: data.category,
+          prompt_templates: data.promptTemplates && JSON.stringify(data.promptTemplates),
+          locale: data.locale,
+          brand_kit_id: data.brandKitId,
+          status: data.status,
+        });
+        return mapOrNull(getProject.get(id), toProject);
+      },
+
+      delete: async (id) => {
+        db.prepare('DELETE FROM projects WHERE id = ?').run(id);
+      },
+    },
+
+    // ===== 图片操作 =====
+    images: {
+      listByProject: async (projectId) =>
+        db.prepare<[number], ImageRow>('SELECT * FROM images WHERE project_id = ? ORDER BY id').all(projectId).map(toImage),
+
+      getById: async (id) =>
+        mapOrNull(getImage.get(id), toImage),
+
+      create: async (data) => {
+        const result = db
+          .prepare(`
+            INSERT INTO images (project_id, section_id, type, r2_key, orig_filename, selected, reference_image_ids, prompt_template, prompt_version, locale, width, height, content_hash, thumbnails)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `)
+          .run(
+            data.projectId,
+            data.sectionId ?? null,
+            data.type,
+            data.r2Key,
+            data.origFilename ?? null,
+            data.selected ? 1 : 0,
+            JSON.stringify(data.referenceImageIds ?? []),
+            data.prompt?.name ?? null,
+            data.prompt?.version ?? null,
+            data.locale ?? null,
+            data.width ?? null,
+            data.height ?? null,
+            data.contentHash ?? null,
+            JSON.stringify(data.thumbnails ?? {}),
+          );
+        return toImage(getImage.get(result.lastInsertRowid)!);
+      },
+
+      findByHash: async (projectId, type, contentHash) =>
+        mapOrNull(
+          db.prepare<[number, string, string], ImageRow>('SELECT * FROM images WHERE project_id = ? AND type = ? AND content_hash = ? ORDER BY id LIMIT 1')
+            .get(projectId, type, contentHash),
+          toImage
+        ),
+
+      select: async (id) =>
+        db.transaction(() => {
+          const image = getImage.get(id);
+          if (!image) return null;
+          db.prepare('UPDATE images SET selected = 0 WHERE project_id = ? AND section_id IS ? AND type = ? AND locale IS ?')
+            .run(image.project_id, image.section_id, image.type, image.locale);
+          db.prepare('UPDATE images SET selected = 1 WHERE id = ?').run(id);
+          return toImage(getImage.get(id)!);
+        })(),
+
+      delete: async (id) => {
+        db.prepare('DELETE FROM images WHERE id = ?').run(id);
+      },
+    },
+
+    // ===== 直传上传会话 =====
+    directUploads: {
+      create: async (data) => {
+        db.prepare(`
+          INSERT INTO direct_uploads (id, project_id, user_id, type, r2_key, orig_filename, content_type, size, multipart_id, part_size, expires_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          data.id,
+          data.projectId,
+          data.userId,
+          data.type,
+          data.r2Key,
+          data.origFilename,
+          data.contentType,
+          data.size,
+          data.multipartId,
+          data.partSize,
+          data.expiresAt,
+        );
+        return toDirectUpload(getDirectUpload.get(data.id)!);
+      },
+
+      getById: async (id) =>
+        mapOrNull(getDirectUpload.get(id), toDirectUpload),
+
+      clearMultipart: async (id) => {
+        db.prepare('UPDATE direct_uploads SET multipart_id = NULL WHERE id = ?').run(id);
+      },
+
+      delete: async (id) => {
+        db.prepare('DELETE FROM direct_uploads WHERE id = ?').run(id);
+      },
+    },
+
+    // ===== 脚本段落操作 =====
+    sections: {
+      listByProject: async (projectId) =>
+        db.prepare<[number], SectionRow>('SELECT * FROM sections WHERE project_id = ? ORDER BY order_index, id').all(projectId).map(toSection),
+
+      getById: async (id) =>
+        mapOrNull(getSection.get(id), toSection),
+
+      create: async (data) => {
+        const result = insertSection.run(
+          data.projectId,
+          data.orderIndex,
+          data.title,
+          data.subtitle ?? null,
+          data.description ?? null,
+          data.visualGuide ?? null
+        );
+        return toSection(getSection.get(result.lastInsertRowid)!);
+      },
+
+      insertAt: async (projectId, position, data) =>
+        db.transaction(() => {
+          const ids = listSectionIds.all(projectId).map((row) => row.id);
+          const index = position === undefined ? ids.length : Math.min(Math.max(position, 0), ids.length);
+          const result = insertSection.run(
+            projectId,
+            index,
+            data.title,
+            data.subtitle ?? null,
+            data.description ?? null,
+            data.visualGuide ?? null
+          );
+          ids.splice(index, 0, Number(result.lastInsertRowid));
+          writeOrder(ids);
+          return toSection(getSection.get(result.lastInsertRowid)!);
+        })(),
+
+      update: async (id, data) => {
+        updateColumns(db, 'sections', id, {
+          title: data.title,
+          subtitle: data.subtitle,
+          description: data.description,
+          visual_guide: data.visualGuide,
+        });
+        return mapOrNull(getSection.get(id), toSection);
+      },
+
+      delete: async (id) => {
+        db.transaction(() => {
+          const section = getSection.get(id);
+          if (!section) return;
+          db.prepare('DELETE FROM sections WHERE id = ?').run(id);
+          reindex(section.project_id);
+        })();
+      },
+
+      reorder: async (projectId, sectionIds) =>
+        db.transaction(() => {
+          const current = listSectionIds.all(projectId).map((row) => row.id);
+          const unique = new Set(sectionIds);
+          if (unique.size !== sectionIds.length || sectionIds.length !== current.length || !current.every((id) => unique.has(id))) {
+            throw new Error('sectionIds must list every section of the project exactly once');
+          }
+          writeOrder(sectionIds);
+          return db
+            .prepare<[number], SectionRow>('SELECT * FROM sections WHERE project_id = ? ORDER BY order_index, id')
+            .all(projectId)
+            .map(toSection);
+        })(),
+
+      batchCreate: async (projectId, sectionsData) =>
+        db.transaction(() => {
+          const start = nextOrderIndex(projectId);
+          return sectionsData.map((s, i) => {
+            const result = insertSection.run(
+              projectId,
+              start + i,
+              s.title,
+              s.subtitle ?? null,
+              s.description ?? null,
+              s.visualGuide ?? null
+            );
+            return toSection(getSection.get(result.lastInsertRowid)!);
+          });
+        })(),
+    },
+
+    // ===== 段落版本历史 =====
+    sectionVersions: {
+      listBySection: async (sectionId) =>
+        db
+          .prepare<[number], SectionVersionRow>('SELECT * FROM section_versions WHERE section_id = ? ORDER BY version DESC')
+          .all(sectionId)
+          .map(toSectionVersion),
+
+      get: async (sectionId, version) =>
+        mapOrNull(
+          db.prepare<[number, number], SectionVersionRow>('SELECT * FROM section_versions WHERE section_id = ? AND version = ?').get(sectionId, version),
+          toSectionVersion
+        ),
+
+      create: async (data) =>
+        db.transaction(() => {
+          const { next } = db
+            .prepare<[number], { next: number }>('SELECT COALESCE(MAX(version), 0) + 1 AS next FROM section_versions WHERE section_id = ?')
+            .get(data.sectionId)!;
+          const result = db.prepare(`
+            INSERT INTO section_versions
+              (section_id, project_id, version, title, subtitle, description, visual_guide, source, instruction, author_id, prompt_template, prompt_version)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `).run(
+            data.sectionId,
+            data.projectId,
+            next,
+            data.title,
+            data.subtitle ?? null,
+            data.description ?? null,
+            data.visualGuide ?? null,
+            data.source,
+            data.instruction ?? null,
+            data.authorId ?? null,
+            data.prompt?.name ?? null,
+            data.prompt?.version ?? null
+          );
+          return toSectionVersion(
+            db.prepare<[number | bigint], SectionVersionRow>('SELECT * FROM section_versions WHERE id = ?').get(result.lastInsertRowid)!
+          );
+        })(),
+    },
+
+    // ===== 脚本版本历史 =====
+    scriptVersions: {
+      listByProject: async (projectId) =>
+        db
+          .prepare<[number], ScriptVersionRow>('SELECT * FROM script_versions WHERE project_id = ? ORDER BY version DESC')
+          .all(projectId)
+          .map(toScriptVersion),
+
+      get: async (projectId, version) =>
+        mapOrNull(
+          db.prepare<[number, number], ScriptVersionRow>('SELECT * FROM script_versions WHERE project_id = ? AND version = ?').get(projectId, version),
+          toScriptVersion
+        ),
+
+      create: async (data) =>
+        db.transaction(() => {
+          const { next } = db
+            .prepare<[number], { next: number }>('SELECT COALESCE(MAX(version), 0) + 1 AS next FROM script_versions WHERE project_id = ?')
+            .get(data.projectId)!;
+          const result = db.prepare(`
+            INSERT INTO script_versions (project_id, version, source, instruction, author_id, prompt_template, prompt_version, sections)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          `).run(
+            data.projectId,
+            next,
+            data.source,
+            data.instruction ?? null,
+            data.authorId ?? null,
+            data.prompt?.name ?? null,
+            data.prompt?.version ?? null,
+            JSON.stringify(data.sections)
+          );
+          return toScriptVersion(
+            db.prepare<[number | bigint], ScriptVersionRow>('SELECT * FROM script_versions WHERE id = ?').get(result.lastInsertRowid)!
+          );
+        })(),
+    },
+
+    // ===== 段落译文 =====
+    sectionTranslations: {
+      listByProject: async (projectId, locale) =>
+        db
+          .prepare<[number, string | null, string | null], SectionTranslationRow>(`
+            SELECT t.* FROM section_translations t JOIN sections s ON s.id = t.section_id
+            WHERE t.project_id = ? AND (? IS NULL OR t.locale = ?)
+            ORDER BY t.locale, s.order_index, s.id
+          `)
+          .all(projectId, locale ?? null, locale ?? null)
+          .map(toSectionTranslation),
+
+      listLocales: async (projectId) =>
+        db
+          .prepare<[number], { locale: string; section_count: number; updated_at: string }>(`
+            SELECT locale, COUNT(*) AS section_count, MAX(updated_at) AS updated_at
+            FROM section_translations WHERE project_id = ?
+            GROUP BY locale ORDER BY locale
+          `)
+          .all(projectId)
+          .map((row) => ({ locale: row.locale, sectionCount: row.section_count, updatedAt: row.updated_at })),
+
+      upsertMany: async (items) =>
+        db.transaction(() => {
+          const upsert = db.prepare(`
+            INSERT INTO section_translations (section_id, project_id, locale, title, subtitle, description, source_updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT (section_id, locale) DO UPDATE SET
+              title = excluded.title,
+              subtitle = excluded.subtitle,
+              description = excluded.description,
+              source_updated_at = excluded.source_updated_at,
+              updated_at = datetime('now')
+          `);
+          const getTranslation = db.prepare<[number, string], SectionTranslationRow>(
+            'SELECT * FROM section_translations WHERE section_id = ? AND locale = ?'
+          );
+          return items.map((item) => {
+            upsert.run(
+              item.sectionId,
+              item.projectId,
+              item.locale,
+              item.title,
+              item.subtitle ?? null,
+              item.description ?? null,
+              item.sourceUpdatedAt
+            );
+            return toSectionTranslation(getTranslation.get(item.sectionId, item.locale)!);
+          });
+        })(),
+
+      deleteByLocale: async (projectId, locale) =>
+        db.prepare('DELETE FROM section_translations WHERE project_id = ? AND locale = ?').run(projectId, locale).changes,
+    },
+
+    // ===== 竞品文案操作 =====
+    competitorText: {
+      listByProject: async (projectId) =>
+        db
+          .prepare<[number], CompetitorTextRow>('SELECT * FROM competitor_text WHERE project_id = ? ORDER BY id')
+          .all(projectId)
+          .map(toCompetitorText),
+
+      create: async (data) => {
+        const result = db
+          .prepare('INSERT INTO competitor_text (project_id, text, analysis) VALUES (?, ?, ?)')
+          .run(data.projectId, data.text, data.analysis ?? null);
+        return toCompetitorText(
+          db.prepare<[number | bigint], CompetitorTextRow>('SELECT * FROM competitor_text WHERE id = ?').get(result.lastInsertRowid)!
+        );
+      },
+    },
+    competitorReports: {
+      getByProject: async (projectId) =>
+        mapOrNull(getCompetitorReport.get(projectId), toCompetitorReport),
+
+      upsert: async (data) => {
+        db.prepare(`
+          INSERT INTO competitor_reports (project_id, report, source_text_ids, prompt_template, prompt_version, created_by)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT (project_id) DO UPDATE SET
+            report = excluded.report,
+            source_text_ids = excluded.source_text_ids,
+            prompt_template = excluded.prompt_template,
+            prompt_version = excluded.prompt_version,
+            created_by = excluded.created_by,
+            updated_at = datetime('now')
+        `).run(
+          data.projectId,
+          JSON.stringify(data.report),
+          JSON.stringify(data.sourceTextIds),
+          data.prompt?.name ?? null,
+          data.prompt?.version ?? null,
+          data.createdBy ?? null
+        );
+        return toCompetitorReport(getCompetitorReport.get(data.projectId)!);
+      },
+    },
+
+    // ===== 工作区操作 =====
+    workspaces: {
+      create: async (data) =>
+        db.transaction(() => {
+          const result = db.prepare('INSERT INTO workspaces (name, owner_id) VALUES (?, ?)').run(data.name, data.ownerId);
+          db.prepare("INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, 'owner')").run(result.lastInsertRowid, data.ownerId);
+          return toWorkspace(getWorkspace.get(result.lastInsertRowid)!);
+        })(),
+
+      getById: async (id) =>
+        mapOrNull(getWorkspace.get(id), toWorkspace),
+
+      listForUser: async (userId) =>
+        db
+          .prepare<[number], WorkspaceWithRoleRow>(`
+            SELECT w.*, m.role FROM workspaces w
+            JOIN workspace_members m ON m.workspace_id = w.id
+            WHERE m.user_id = ?
+            ORDER BY w.id
+          `)
+          .all(userId)
+          .map(toWorkspaceWithRole),
+
+      update: async (id, data) => {
+        updateColumns(db, 'workspaces', id, { name: data.name });
+        return mapOrNull(getWorkspace.get(id), toWorkspace);
+      },
+
+      delete: async (id) => {
+        db.prepare('DELETE FROM workspaces WHERE id = ?').run(id);
+      },
+    },
+
+    // ===== 工作区成员操作 =====
+    workspaceMembers: {
+      list: async (workspaceId) =>
+        db
+          .prepare<[number], WorkspaceMemberRow>(`${selectMember} WHERE m.workspace_id = ? ORDER BY m.created_at, m.user_id`)
+          .all(workspaceId)
+          .map(toWorkspaceMember),
+
+      get: async (workspaceId, userId) =>
+        mapOrNull(getMember.get(workspaceId, userId), toWorkspaceMember),
+
+      upsert: async (data) => {
+        db.prepare(`
+          INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, ?)
+          ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = excluded.role
+        `).run(data.workspaceId, data.userId, data.role);
+        return toWorkspaceMember(getMember.get(data.workspaceId, data.userId)!);
+      },
+
+      remove: async (workspaceId, userId) => {
+        db.prepare('DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?').run(workspaceId, userId);
+      },
+    },
+
+    // ===== 工作区邀请操作 =====
+    workspaceInvitations: {
+      create: async (data) => {
+        const result = db
+          .prepare('INSERT INTO workspace_invitations (workspace_id, email, role, token_hash, invited_by, expires_at) VALUES (?, ?, ?, ?, ?, ?)')
+          .run(data.workspaceId, data.email, data.role, data.tokenHash, data.invitedBy, data.expiresAt);
+        return toWorkspaceInvitation(getInvitation.get(result.lastInsertRowid)!);
+      },
+
+      getById: async (id) =>
+        mapOrNull(getInvitation.get(id), toWorkspaceInvitation),
+
+      getByHash: async (tokenHash) =>
+        mapOrNull(
+          db.prepare<[string], WorkspaceInvitationRow>('SELECT * FROM workspace_invitations WHERE token_hash = ?').get(tokenHash),
+          toWorkspaceInvitation
+        ),
+
+      listPending: async (workspaceId) =>
+        db
+          .prepare<[number], WorkspaceInvitationRow>('SELECT * FROM workspace_invitations WHERE workspace_id = ? AND accepted_at IS NULL ORDER BY id')
+          .all(workspaceId)
+          .map(toWorkspaceInvitation),
+
+      markAccepted: async (id) =>
+        db.prepare("UPDATE workspace_invitations SET accepted_at = datetime('now') WHERE id = ? AND accepted_at IS NULL").run(id).changes > 0,
+
+      delete: async (id) => {
+        db.prepare('DELETE FROM workspace_invitations WHERE id = ?').run(id);
+      },
+    },
+
+    // ===== 刷新令牌操作 =====
+    refreshTokens: {
+      create: async (data) => {
+        const result = db
+          .prepare('INSERT INTO refresh_tokens (user_id, family_id, token_hash, expires_at) VALUES (?, ?, ?, ?)')
+          .run(data.userId, data.familyId, data.tokenHash, data.expiresAt);
+        return toRefreshToken(
+          db.prepare<[number | bigint], RefreshTokenRow>('SELECT * FROM refresh_tokens WHERE id = ?').get(result.lastInsertRowid)!
+        );
+      },
+
+      getByHash: async (tokenHash) =>
+        mapOrNull(db.prepare<[string], RefreshTokenRow>('SELECT * FROM refresh_tokens WHERE token_hash = ?').get(tokenHash), toRefreshToken),
+
+      revoke: async (id) =>
+        db.prepare("UPDATE refresh_tokens SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL").run(id).changes > 0,
+
+      revokeFamily: async (familyId) => {
+        db.prepare("UPDATE refresh_tokens SET revoked_at = datetime('now') WHERE family_id = ? AND revoked_at IS NULL").run(familyId);
+      },
+
+      revokeAllForUser: async (userId) => {
+        db.prepare("UPDATE refresh_tokens SET revoked_at = datetime('now') WHERE user_id = ? AND revoked_at IS NULL").run(userId);
+      },
+    },
+
+    // ===== 密码重置令牌操作 =====
+    passwordResetTokens: {
+      create: async (data) => {
+        const result = db
+          .prepare('INSERT INTO password_reset_tokens (user_id, token_hash, expires_at) VALUES (?, ?, ?)')
+          .run(data.userId, data.tokenHash, data.expiresAt);
+        return toPasswordResetToken(
+          db.prepare<[number | bigint], PasswordResetTokenRow>('SELECT * FROM password_reset_tokens WHERE id = ?').get(result.lastInsertRowid)!
+        );
+      },
+
+      getByHash: async (tokenHash) =>
+        mapOrNull(
+          db.prepare<[string], PasswordResetTokenRow>('SELECT * FROM password_reset_tokens WHERE token_hash = ?').get(tokenHash),
+          toPasswordResetToken
+        ),
+
+      markUsed: async (id) =>
+        db.prepare("UPDATE password_reset_tokens SET used_at = datetime('now') WHERE id = ? AND used_at IS NULL").run(id).changes > 0,
+
+      invalidateForUser: async (userId) => {
+        db.prepare("UPDATE password_reset_tokens SET used_at = datetime('now') WHERE user_id = ? AND used_at IS NULL").run(userId);
+      },
+    },
+
+    // ===== 幂等请求 =====
+    idempotencyKeys: {
+      begin: async (data) => {
+        const result = db
+          .prepare('INSERT OR IGNORE INTO idempotency_keys (user_id, key, request_hash, expires_at) VALUES (?, ?, ?, ?)')
+          .run(data.userId, data.key, data.requestHash, data.expiresAt);
+        if (result.changes === 0) return null;
+        return toIdempotencyRecord(
+          db.prepare<[number | bigint], IdempotencyKeyRow>('SELECT * FROM idempotency_keys WHERE id = ?').get(result.lastInsertRowid)!
+        );
+      },
+
+      get: async (userId, key) =>
+        mapOrNull(
+          db.prepare<[number, string], IdempotencyKeyRow>('SELECT * FROM idempotency_keys WHERE user_id = ? AND key = ?').get(userId, key),
+          toIdempotencyRecord
+        ),
+
+      complete: async (id, response) => {
+        db.prepare(`
+          UPDATE idempotency_keys
+          SET status = 'completed', response_status = ?, response_type = ?, response_body = ?, completed_at = datetime('now')
+          WHERE id = ?
+        `).run(response.status, response.type, JSON.stringify(response.body ?? null), id);
+      },
+
+      delete: async (id) => {
+        db.prepare('DELETE FROM idempotency_keys WHERE id = ?').run(id);
+      },
+    },
+
+    // ===== AI 用量记录 =====
+    aiUsage: {
+      create: async (data) => {
+        const result = db
+          .prepare(`
+            INSERT INTO ai_usage (user_id, project_id, kind, model, prompt_tokens, completion_tokens, total_tokens, image_count, prompt_template, prompt_version)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `)
+          .run(
+            data.userId,
+            data.projectId ?? null,
+            data.kind,
+            data.model,
+            data.promptTokens,
+            data.completionTokens,
+            data.totalTokens,
+            data.imageCount,
+            data.prompt?.name ?? null,
+            data.prompt?.version ?? null
+          );
+        return toAiUsageRecord(db.prepare<[number | bigint], AiUsageRow>('SELECT * FROM ai_usage WHERE id = ?').get(result.lastInsertRowid)!);
+      },
+
+      summarize: async (userId, since) => {
+        const row = db
+          .prepare<[number, string], { calls: number; total_tokens: number | null; image_count: number | null }>(`
+            SELECT COUNT(*) AS calls, SUM(total_tokens) AS total_tokens, SUM(image_count) AS image_count
+            FROM ai_usage WHERE user_id = ? AND created_at >= ?
+          `)
+          .get(userId, since)!;
+        return { calls: row.calls, totalTokens: row.total_tokens ?? 0, imageCount: row.image_count ?? 0 };
+      },
+
+      listByUser: async (userId, query) => {
+        const where = query.projectId ? 'WHERE user_id = ? AND project_id = ?' : 'WHERE user_id = ?';
+        const params: unknown[] = query.projectId ? [userId, query.projectId] : [userId];
+
+        const { total } = db.prepare<unknown[], { total: number }>(`SELECT COUNT(*) AS total FROM ai_usage ${where}`).get(...params)!;
+        const rows = db
+          .prepare<unknown[], AiUsageRow>(`SELECT * FROM ai_usage ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+          .all(...params, query.limit, query.offset);
+        return { records: rows.map(toAiUsageRecord), total };
+      },
+    },
+
+    // ===== AI 结果缓存 =====
+    aiCache: {
+      get: async (key) =>
+        mapOrNull(db.prepare<[string], AiCacheRow>('SELECT * FROM ai_cache WHERE key = ?').get(key), toAiCacheEntry),
+
+      set: async (data) => {
+        db.prepare(`
+          INSERT INTO ai_cache (key, kind, model, content, expires_at)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT (key) DO UPDATE SET
+            kind = excluded.kind,
+            model = excluded.model,
+            content = excluded.content,
+            expires_at = excluded.expires_at,
+            created_at = datetime('now')
+        `).run(data.key, data.kind, data.model, data.content, data.expiresAt);
+      },
+    },
+
+    // ===== 提示词模板 =====
+    promptTemplates: {
+      list: async (filter = {}) => {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (filter.kind) {
+          conditions.push('t.kind = ?');
+          params.push(filter.kind);
+        }
+        if (filter.category) {
+          conditions.push('t.category = ?');
+          params.push(filter.category);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        return db
+          .prepare<unknown[], PromptTemplateRow>(`${selectPromptTemplate} ${where} ORDER BY t.kind, t.category, t.name`)
+          .all(...params)
+          .map(toPromptTemplate);
+      },
+
+      getByName: async (name) =>
+        mapOrNull(db.prepare<[string], PromptTemplateRow>(`${selectPromptTemplate} WHERE t.name = ?`).get(name), toPromptTemplate),
+
+      findForCategory: async (kind, category) =>
+        mapOrNull(
+          db
+            .prepare<[string, string], PromptTemplateRow>(`${selectPromptTemplate} WHERE t.kind = ? AND t.category = ? ORDER BY t.updated_at DESC, t.id DESC LIMIT 1`)
+            .get(kind, category),
+          toPromptTemplate
+        ),
+
+      create: async (data) =>
+        db.transaction(() => {
+          const result = db
+            .prepare('INSERT INTO prompt_templates (name, kind, category, description, created_by) VALUES (?, ?, ?, ?, ?)')
+            .run(data.name, data.kind, data.category ?? null, data.description ?? null, data.createdBy ?? null);
+          const version = insertPromptVersion(Number(result.lastInsertRowid), 1, data);
+          return { template: toPromptTemplate(getPromptTemplate.get(result.lastInsertRowid)!), version };
+        })(),
+
+      update: async (id, data) => {
+        updateColumns(db, 'prompt_templates', id, { category: data.category, description: data.description });
+        return mapOrNull(getPromptTemplate.get(id), toPromptTemplate);
+      },
+
+      delete: async (id) => {
+        db.prepare('DELETE FROM prompt_templates WHERE id = ?').run(id);
+      },
+
+      listVersions: async (templateId) =>
+        db
+          .prepare<[number], PromptTemplateVersionRow>('SELECT * FROM prompt_template_versions WHERE template_id = ? ORDER BY version DESC')
+          .all(templateId)
+          .map(toPromptTemplateVersion),
+
+      getVersion: async (templateId, version) =>
+        mapOrNull(
+          version === undefined
+            ? db.prepare<[number], PromptTemplateVersionRow>('SELECT * FROM prompt_template_versions WHERE template_id = ? ORDER BY version DESC LIMIT 1').get(templateId)
+            : db.prepare<[number, number], PromptTemplateVersionRow>('SELECT * FROM prompt_template_versions WHERE template_id = ? AND version = ?').get(templateId, version),
+          toPromptTemplateVersion
+        ),
+
+      createVersion: async (templateId, data) =>
+        db.transaction(() => {
+          const { next } = db
+            .prepare<[number], { next: number }>('SELECT COALESCE(MAX(version), 0) + 1 AS next FROM prompt_template_versions WHERE template_id = ?')
+            .get(templateId)!;
+          const version = insertPromptVersion(templateId, next, data);
+          db.prepare("UPDATE prompt_templates SET updated_at = datetime('now') WHERE id = ?").run(templateId);
+          return version;
+        })(),
+    },
+
+    // ===== 合规检查 =====
+    complianceRules: {
+      list: async () =>
+        db.prepare<[], ComplianceRuleRow>('SELECT * FROM compliance_rules ORDER BY id').all().map(toComplianceRule),
+
+      getById: async (id) =>
+        mapOrNull(getComplianceRule.get(id), toComplianceRule),
+
+      create: async (data) => {
+        const result = db
+          .prepare('INSERT INTO compliance_rules (type, pattern, reason, suggestion, category, severity, enabled, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+          .run(data.type, data.pattern, data.reason, data.suggestion ?? null, data.category ?? null, data.severity, data.enabled ? 1 : 0, data.createdBy ?? null);
+        return toComplianceRule(getComplianceRule.get(result.lastInsertRowid)!);
+      },
+
+      update: async (id, data) => {
+        updateColumns(db, 'compliance_rules', id, {
+          type: data.type,
+          pattern: data.pattern,
+          reason: data.reason,
+          suggestion: data.suggestion,
+          category: data.category,
+          severity: data.severity,
+          enabled: data.enabled === undefined ? undefined : data.enabled ? 1 : 0,
+        });
+        return mapOrNull(getComplianceRule.get(id), toComplianceRule);
+      },
+
+      delete: async (id) => {
+        db.prepare('DELETE FROM compliance_rules WHERE id = ?').run(id);
+      },
+    },
+    complianceIssues: {
+      listByProject: async (projectId) =>
+        listComplianceIssues.all(projectId).map(toComplianceIssue),
+
+      getById: async (id) =>
+        mapOrNull(getComplianceIssue.get(id), toComplianceIssue),
+
+      replaceForSections: async (projectId, sectionIds, issues) =>
+        db.transaction(() => {
+          const remove = db.prepare('DELETE FROM compliance_issues WHERE project_id = ? AND section_id = ?');
+          sectionIds.forEach((sectionId) => remove.run(projectId, sectionId));
+
+          const insert = db.prepare(`
+            INSERT INTO compliance_issues
+              (project_id, section_id, field, start_offset, end_offset, text, rule_id, reason, suggestion, severity, acknowledged_by, acknowledged_at, acknowledge_note)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `);
+          for (const issue of issues) {
+            insert.run(
+              projectId,
+              issue.sectionId,
+              issue.field,
+              issue.start,
+              issue.end,
+              issue.text,
+              issue.ruleId,
+              issue.reason,
+              issue.suggestion ?? null,
+              issue.severity,
+              issue.acknowledgedBy ?? null,
+              issue.acknowledgedAt ?? null,
+              issue.acknowledgeNote ?? null
+            );
+          }
+          return listComplianceIssues.all(projectId).map(toComplianceIssue);
+        })(),
+
+      acknowledge: async (id, data) => {
+        if (data) {
+          db.prepare("UPDATE compliance_issues SET acknowledged_by = ?, acknowledged_at = datetime('now'), acknowledge_note = ? WHERE id = ?")
+            .run(data.userId, data.note ?? null, id);
+        } else {
+          db.prepare('UPDATE compliance_issues SET acknowledged_by = NULL, acknowledged_at = NULL, acknowledge_note = NULL WHERE id = ?').run(id);
+        }
+        return mapOrNull(getComplianceIssue.get(id), toComplianceIssue);
+      },
+    },
+
+    // ===== 品牌套件 =====
+    brandKits: {
+      listByWorkspace: async (workspaceId) =>
+        db
+          .prepare<[number], BrandKitRow>('SELECT * FROM brand_kits WHERE workspace_id = ? ORDER BY id')
+          .all(workspaceId)
+          .map(toBrandKit),
+
+      getById: async (id) =>
+        mapOrNull(getBrandKit.get(id), toBrandKit),
+
+      create: async (data) => {
+        const result = db
+          .prepare(`
+            INSERT INTO brand_kits (workspace_id, name, palette, fonts, logo_placement, tone, banned_phrases, selling_point_order, created_by)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `)
+          .run(
+            data.workspaceId,
+            data.name,
+            JSON.stringify(data.palette),
+            JSON.stringify(data.fonts ?? {}),
+            JSON.stringify(data.logoPlacement),
+            data.tone ?? null,
+            JSON.stringify(data.bannedPhrases ?? []),
+            JSON.stringify(data.sellingPointOrder ?? []),
+            data.createdBy ?? null
+          );
+        return toBrandKit(getBrandKit.get(result.lastInsertRowid)!);
+      },
+
+      update: async (id, data) => {
+        updateColumns(db, 'brand_kits', id, {
+          name: data.name,
+          palette: data.palette && JSON.stringify(data.palette),
+          fonts: data.fonts && JSON.stringify(data.fonts),
+          logo_r2_key: data.logoR2Key,
+          logo_placement: data.logoPlacement && JSON.stringify(data.logoPlacement),
+          tone: data.tone,
+          banned_phrases: data.bannedPhrases && JSON.stringify(data.bannedPhrases),
+          selling_point_order: data.sellingPointOrder && JSON.stringify(data.sellingPointOrder),
+        });
+        return mapOrNull(getBrandKit.get(id), toBrandKit);
+      },
+
+      delete: async (id) => {
+        db.prepare('DELETE FROM brand_kits WHERE id = ?').run(id);
+      },
+    },
+
+    // ===== 平台统计 =====
+    stats: {
+      overview: async (days) => {
+        const users = db
+          .prepare<[], { total: number; disabled: number | null; admins: number | null }>(
+            "SELECT COUNT(*) AS total, SUM(disabled_at IS NOT NULL) AS disabled, SUM(role = 'admin') AS admins FROM users"
+          )
+          .get()!;
+        const projectRows = db.prepare<[], { status: ProjectStatus; count: number }>('SELECT status, COUNT(*) AS count FROM projects GROUP BY status').all();
+        const imageRows = db.prepare<[], { type: ImageType; count: number }>('SELECT type, COUNT(*) AS count FROM images GROUP BY type').all();
+
+        const callRows = db
+          .prepare<[string], { date: string; kind: AiUsageKind; count: number }>(`
+            SELECT date(created_at) AS date, kind, COUNT(*) AS count FROM ai_usage
+            WHERE created_at >= date('now', ?)
+            GROUP BY date, kind
+          `)
+          .all(`-${days - 1} days`);
+
+        const aiCallsPerDay = lastDays(days).map((date) => {
+          const day = { date, script: 0, section: 0, ocr: 0, image: 0, translate: 0, analysis: 0, total: 0 };
+          for (const row of callRows.filter((r) => r.date === date)) {
+            day[row.kind] = row.count;
+            day.total += row.count;
+          }
+          return day;
+        });
+
+        return {
+          users: { total: users.total, disabled: users.disabled ?? 0, admins: users.admins ?? 0 },
+          projects: {
+            total: projectRows.reduce((sum, r) => sum + r.count, 0),
+            byStatus: Object.fromEntries(projectRows.map((r) => [r.status, r.count])),
+          },
+          images: {
+            total: imageRows.reduce((sum, r) => sum + r.count, 0),
+            byType: Object.fromEntries(imageRows.map((r) => [r.type, r.count])),
+          },
+          aiCallsPerDay,
+        };
+      },
+    },
+  };
+}
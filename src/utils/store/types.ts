@@ -0,0 +1,362 @@
+/**
+ * 持久化存储接口 - 各数据后端（Workers D1 / SQLite）需实现的命名空间
+ */
+
+import type {
+  User, UserRecord, Project, ProjectStatus, Image, ImageType, ImageThumbnails, DirectUpload, Section, SectionContent, SectionTranslation, CompetitorText, CompetitorReport, CompetitorAnalysis, ComplianceRule, ComplianceIssue,
+  SectionVersion, ScriptVersion, VersionSource, RefreshToken, PasswordResetToken, PlatformStats,
+  AiUsageRecord, AiUsageKind, AiCacheEntry, IdempotencyRecord, IdempotencyResponseType, BrandKit, BrandPalette, BrandFonts, LogoPlacement, PromptRef, PromptKind, PromptSelection, PromptTemplate, PromptTemplateVersion, PromptVariable,
+  Workspace, WorkspaceWithRole, WorkspaceMember, WorkspaceInvitation, WorkspaceRole,
+} from '../../types/models.js';
+import type { StoreFeature } from './features.js';
+
+export type { SectionContent };
+
+export interface VersionMeta {
+  source: VersionSource;
+  instruction?: string | null;
+  authorId?: number | null;
+  prompt?: PromptRef | null;
+}
+
+export interface UsersStore {
+  create(data: { email: string; passwordHash: string; name?: string }): Promise<User>;
+  // 按邮箱查找用户（含密码哈希），不存在时返回 null
+  login(email: string): Promise<UserRecord | null>;
+  getById(id: number): Promise<User | null>;
+  // 含密码哈希，用于修改密码时校验
+  getRecordById(id: number): Promise<UserRecord | null>;
+  // 同时递增令牌版本，使已签发的访问令牌失效
+  updatePassword(id: number, passwordHash: string): Promise<void>;
+  // 管理后台：按邮箱/昵称模糊搜索，按注册时间倒序分页
+  search(query: UserSearchQuery): Promise<{ users: User[]; total: number }>;
+  updateRole(id: number, role: string): Promise<User | null>;
+  // disabled 为 true 时记录停用时间，false 时清空
+  setDisabled(id: number, disabled: boolean): Promise<User | null>;
+  updatePlan(id: number, plan: string): Promise<User | null>;
+}
+
+export interface UserSearchQuery {
+  q?: string;
+  role?: string;
+  disabled?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface ProjectSearchQuery {
+  userId?: number;
+  status?: ProjectStatus;
+  limit: number;
+  offset: number;
+}
+
+export interface ProjectsStore {
+  list(userId?: number): Promise<Project[]>;
+  // 管理后台按创建者和状态分页查询全部项目
+  search(query: ProjectSearchQuery): Promise<{ projects: Project[]; total: number }>;
+  // 用户所在全部工作区的项目，以及用户自己创建的未归属工作区的项目
+  listAccessible(userId: number): Promise<Project[]>;
+  listByWorkspace(workspaceId: number): Promise<Project[]>;
+  create(data: { userId: number; workspaceId?: number; productName: string; productDesc?: string; category?: string; locale?: string; status?: ProjectStatus }): Promise<Project>;
+  getById(id: number): Promise<Project | null>;
+  // category 为 null 时清空
+  update(
+    id: number,
+    data: {
+      productName?: string;
+      productDesc?: string;
+      category?: string | null;
+      promptTemplates?: PromptSelection;
+      locale?: string;
+      brandKitId?: number | null;
+      status?: ProjectStatus;
+    }
+  ): Promise<Project | null>;
+  delete(id: number): Promise<void>;
+}
+
+export interface ImagesStore {
+  listByProject(projectId: number): Promise<Image[]>;
+  getById(id: number): Promise<Image | null>;
+  create(data: {
+    projectId: number;
+    sectionId?: number;
+    type: ImageType;
+    r2Key: string;
+    origFilename?: string;
+    selected?: boolean;
+    referenceImageIds?: number[];
+    prompt?: PromptRef | null;
+    locale?: string | null;
+    width?: number | null;
+    height?: number | null;
+    contentHash?: string | null;
+    thumbnails?: ImageThumbnails;
+  }): Promise<Image>;
+  // 项目中内容相同的同类型图片，用于上传去重
+  findByHash(projectId: number, type: ImageType, contentHash: string): Promise<Image | null>;
+  // 选为段落的最终输出，同段落、同类型、同语言版本的其他图片取消选中
+  select(id: number): Promise<Image | null>;
+  delete(id: number): Promise<void>;
+}
+
+export interface SectionsStore {
+  listByProject(projectId: number): Promise<Section[]>;
+  getById(id: number): Promise<Section | null>;
+  create(data: SectionContent & { projectId: number; orderIndex: number }): Promise<Section>;
+  // 在指定位置插入段落，position 省略或越界时追加到末尾，其后段落顺延
+  insertAt(projectId: number, position: number | undefined, data: SectionContent): Promise<Section>;
+  update(id: number, data: Partial<SectionContent>): Promise<Section | null>;
+  // 删除后重新压缩同项目段落的 order_index
+  delete(id: number): Promise<void>;
+  // sectionIds 必须恰好包含项目的全部段落，按数组顺序重写 order_index
+  reorder(projectId: number, sectionIds: number[]): Promise<Section[]>;
+  batchCreate(projectId: number, sectionsData: SectionContent[]): Promise<Section[]>;
+}
+
+// 品牌套件的可编辑字段，Logo 位置由调用方补全默认值
+export interface BrandKitInput {
+  name: string;
+  palette: BrandPalette;
+  fonts?: BrandFonts;
+  logoPlacement: LogoPlacement;
+  tone?: string | null;
+  bannedPhrases?: string[];
+  sellingPointOrder?: string[];
+}
+
+export interface BrandKitsStore {
+  listByWorkspace(workspaceId: number): Promise<BrandKit[]>;
+  getById(id: number): Promise<BrandKit | null>;
+  create(data: BrandKitInput & { workspaceId: number; createdBy?: number | null }): Promise<BrandKit>;
+  // logoR2Key 为 null 时清除 Logo
+  update(id: number, data: Partial<BrandKitInput> & { logoR2Key?: string | null }): Promise<BrandKit | null>;
+  // 选用该套件的项目改为不使用品牌套件
+  delete(id: number): Promise<void>;
+}
+
+// 需要翻译的段落文案
+export type TranslatedContent = Pick<SectionContent, 'title' | 'subtitle' | 'description'>;
+
+export interface TranslationLocaleSummary {
+  locale: string;
+  sectionCount: number;
+  updatedAt: string;
+}
+
+export interface SectionTranslationsStore {
+  // 按段落顺序，locale 省略时返回全部语言
+  listByProject(projectId: number, locale?: string): Promise<SectionTranslation[]>;
+  // 项目已有的翻译语言
+  listLocales(projectId: number): Promise<TranslationLocaleSummary[]>;
+  // 按 (sectionId, locale) 新增或覆盖译文，整体在一个事务内完成
+  upsertMany(data: Array<TranslatedContent & { sectionId: number; projectId: number; locale: string; sourceUpdatedAt: string }>): Promise<SectionTranslation[]>;
+  // 返回删除的条数
+  deleteByLocale(projectId: number, locale: string): Promise<number>;
+}
+
+export interface SectionVersionsStore {
+  // 按版本号倒序
+  listBySection(sectionId: number): Promise<SectionVersion[]>;
+  get(sectionId: number, version: number): Promise<SectionVersion | null>;
+  // 版本号由存储层按段落自增分配
+  create(data: SectionContent & VersionMeta & { sectionId: number; projectId: number }): Promise<SectionVersion>;
+}
+
+export interface ScriptVersionsStore {
+  // 按版本号倒序
+  listByProject(projectId: number): Promise<ScriptVersion[]>;
+  get(projectId: number, version: number): Promise<ScriptVersion | null>;
+  create(data: VersionMeta & { projectId: number; sections: SectionContent[] }): Promise<ScriptVersion>;
+}
+
+export interface CompetitorTextStore {
+  listByProject(projectId: number): Promise<CompetitorText[]>;
+  create(data: { projectId: number; text: string; analysis?: string }): Promise<CompetitorText>;
+}
+
+export interface CompetitorReportsStore {
+  getByProject(projectId: number): Promise<CompetitorReport | null>;
+  // 替换项目已有的报告
+  upsert(data: {
+    projectId: number;
+    report: CompetitorAnalysis;
+    sourceTextIds: number[];
+    prompt?: PromptRef | null;
+    createdBy?: number | null;
+  }): Promise<CompetitorReport>;
+}
+
+export interface ComplianceRulesStore {
+  list(): Promise<ComplianceRule[]>;
+  getById(id: number): Promise<ComplianceRule | null>;
+  create(data: Omit<ComplianceRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<ComplianceRule>;
+  update(id: number, data: Partial<Omit<ComplianceRule, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'>>): Promise<ComplianceRule | null>;
+  delete(id: number): Promise<void>;
+}
+
+// 检查结果中的一处违规，确认信息从上一次检查中沿用
+export type ComplianceIssueInput = Omit<ComplianceIssue, 'id' | 'projectId' | 'createdAt'>;
+
+export interface ComplianceIssuesStore {
+  // 按段落顺序、字段和位置排序
+  listByProject(projectId: number): Promise<ComplianceIssue[]>;
+  getById(id: number): Promise<ComplianceIssue | null>;
+  // 替换指定段落的检查结果
+  replaceForSections(projectId: number, sectionIds: number[], issues: ComplianceIssueInput[]): Promise<ComplianceIssue[]>;
+  // data 为 null 时取消确认
+  acknowledge(id: number, data: { userId: number; note?: string | null } | null): Promise<ComplianceIssue | null>;
+}
+
+export interface WorkspacesStore {
+  // 创建者自动成为 owner 成员
+  create(data: { name: string; ownerId: number }): Promise<Workspace>;
+  getById(id: number): Promise<Workspace | null>;
+  listForUser(userId: number): Promise<WorkspaceWithRole[]>;
+  update(id: number, data: { name?: string }): Promise<Workspace | null>;
+  delete(id: number): Promise<void>;
+}
+
+export interface WorkspaceMembersStore {
+  list(workspaceId: number): Promise<WorkspaceMember[]>;
+  get(workspaceId: number, userId: number): Promise<WorkspaceMember | null>;
+  // 已是成员时更新角色
+  upsert(data: { workspaceId: number; userId: number; role: WorkspaceRole }): Promise<WorkspaceMember>;
+  remove(workspaceId: number, userId: number): Promise<void>;
+}
+
+export interface WorkspaceInvitationsStore {
+  create(data: { workspaceId: number; email: string; role: WorkspaceRole; tokenHash: string; invitedBy: number; expiresAt: string }): Promise<WorkspaceInvitation>;
+  getById(id: number): Promise<WorkspaceInvitation | null>;
+  getByHash(tokenHash: string): Promise<WorkspaceInvitation | null>;
+  // 未接受的邀请
+  listPending(workspaceId: number): Promise<WorkspaceInvitation[]>;
+  // 标记为已接受；已被接受时返回 false
+  markAccepted(id: number): Promise<boolean>;
+  delete(id: number): Promise<void>;
+}
+
+export interface RefreshTokensStore {
+  create(data: { userId: number; familyId: string; tokenHash: string; expiresAt: string }): Promise<RefreshToken>;
+  getByHash(tokenHash: string): Promise<RefreshToken | null>;
+  // 撤销单个令牌；令牌已被撤销时返回 false（用于轮换时防止并发重复使用）
+  revoke(id: number): Promise<boolean>;
+  revokeFamily(familyId: string): Promise<void>;
+  revokeAllForUser(userId: number): Promise<void>;
+}
+
+export interface PasswordResetTokensStore {
+  create(data: { userId: number; tokenHash: string; expiresAt: string }): Promise<PasswordResetToken>;
+  getByHash(tokenHash: string): Promise<PasswordResetToken | null>;
+  // 标记为已使用；已被使用时返回 false
+  markUsed(id: number): Promise<boolean>;
+  // 作废用户尚未使用的重置令牌
+  invalidateForUser(userId: number): Promise<void>;
+}
+
+// 一段时间内的 AI 用量合计
+export interface UsageTotals {
+  calls: number;
+  totalTokens: number;
+  imageCount: number;
+}
+
+export interface AiUsageStore {
+  create(data: {
+    userId: number;
+    projectId?: number | null;
+    kind: AiUsageKind;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    imageCount: number;
+    prompt?: PromptRef | null;
+  }): Promise<AiUsageRecord>;
+  // since 为 UTC 时间（YYYY-MM-DD HH:MM:SS），统计该时间之后的用量
+  summarize(userId: number, since: string): Promise<UsageTotals>;
+  // 按时间倒序分页
+  listByUser(userId: number, query: { projectId?: number; limit: number; offset: number }): Promise<{ records: AiUsageRecord[]; total: number }>;
+}
+
+export interface PromptVersionInput {
+  system?: string | null;
+  body: string;
+  variables: PromptVariable[];
+  note?: string | null;
+  createdBy?: number | null;
+}
+
+export interface PromptTemplatesStore {
+  // 按用途、类目、名称排序
+  list(filter?: { kind?: PromptKind; category?: string }): Promise<PromptTemplate[]>;
+  getByName(name: string): Promise<PromptTemplate | null>;
+  // 用途和类目都匹配的模板，有多个时取最近更新的
+  findForCategory(kind: PromptKind, category: string): Promise<PromptTemplate | null>;
+  // 同时创建版本 1
+  create(data: { name: string; kind: PromptKind; category?: string | null; description?: string | null } & PromptVersionInput): Promise<{ template: PromptTemplate; version: PromptTemplateVersion }>;
+  update(id: number, data: { category?: string | null; description?: string | null }): Promise<PromptTemplate | null>;
+  delete(id: number): Promise<void>;
+  // 按版本号倒序
+  listVersions(templateId: number): Promise<PromptTemplateVersion[]>;
+  // version 省略时返回最新版本
+  getVersion(templateId: number, version?: number): Promise<PromptTemplateVersion | null>;
+  // 版本号由存储层自增分配
+  createVersion(templateId: number, data: PromptVersionInput): Promise<PromptTemplateVersion>;
+}
+
+export interface StatsStore {
+  // 平台统计，aiCallsPerDay 覆盖最近 days 天
+  overview(days: number): Promise<PlatformStats>;
+}
+
+export interface IdempotencyKeysStore {
+  // 登记处理中的请求；该用户已有同一 key 的记录时返回 null
+  begin(data: { userId: number; key: string; requestHash: string; expiresAt: string }): Promise<IdempotencyRecord | null>;
+  get(userId: number, key: string): Promise<IdempotencyRecord | null>;
+  complete(id: number, response: { status: number; type: IdempotencyResponseType; body: unknown }): Promise<void>;
+  delete(id: number): Promise<void>;
+}
+
+export interface DirectUploadsStore {
+  create(data: Omit<DirectUpload, 'createdAt'>): Promise<DirectUpload>;
+  getById(id: string): Promise<DirectUpload | null>;
+  // 分片合并完成后清空分片上传 ID，之后按单个对象处理
+  clearMultipart(id: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface AiCacheStore {
+  get(key: string): Promise<AiCacheEntry | null>;
+  // 已有同一 key 时覆盖
+  set(data: { key: string; kind: AiUsageKind; model: string; content: string; expiresAt: string }): Promise<void>;
+}
+
+export interface DataStore {
+  // 后端是否支持某项功能（见 features.ts），不支持时相关方法抛出 501
+  supports(feature: StoreFeature): boolean;
+  users: UsersStore;
+  projects: ProjectsStore;
+  images: ImagesStore;
+  directUploads: DirectUploadsStore;
+  sections: SectionsStore;
+  sectionVersions: SectionVersionsStore;
+  scriptVersions: ScriptVersionsStore;
+  sectionTranslations: SectionTranslationsStore;
+  competitorText: CompetitorTextStore;
+  competitorReports: CompetitorReportsStore;
+  complianceRules: ComplianceRulesStore;
+  complianceIssues: ComplianceIssuesStore;
+  workspaces: WorkspacesStore;
+  workspaceMembers: WorkspaceMembersStore;
+  workspaceInvitations: WorkspaceInvitationsStore;
+  refreshTokens: RefreshTokensStore;
+  passwordResetTokens: PasswordResetTokensStore;
+  idempotencyKeys: IdempotencyKeysStore;
+  aiUsage: AiUsageStore;
+  aiCache: AiCacheStore;
+  promptTemplates: PromptTemplatesStore;
+  brandKits: BrandKitsStore;
+  stats: StatsStore;
+}
@@ -0,0 +1,476 @@
+/**
+ * Workers 数据后端 - 通过 Cloudflare Workers 访问 D1 数据库
+ */
+
+import { request, orNull, WorkersApiError, workersSchemaVersion, requireWorkersSchema } from '../workersApi.js';
+import { STORE_FEATURES, StoreFeature } from './features.js';
+import {
+  UserRow, ProjectRow, ImageRow, SectionRow, SectionTranslationRow, SectionVersionRow, ScriptVersionRow, CompetitorTextRow, CompetitorReportRow, ComplianceRuleRow, ComplianceIssueRow,
+  RefreshTokenRow, PasswordResetTokenRow, IdempotencyKeyRow, AiUsageRow, AiCacheRow, DirectUploadRow, PromptTemplateRow, PromptTemplateVersionRow, BrandKitRow, WorkspaceRow, WorkspaceWithRoleRow, WorkspaceMemberRow, WorkspaceInvitationRow,
+  toUser, toUserRecord, toProject, toImage, toSection, toSectionTranslation, toSectionVersion, toScriptVersion, toCompetitorText, toCompetitorReport, toComplianceRule, toComplianceIssue,
+  toRefreshToken, toPasswordResetToken, toIdempotencyRecord, toAiUsageRecord, toAiCacheEntry, toDirectUpload, toPromptTemplate, toPromptTemplateVersion, toBrandKit, toWorkspace, toWorkspaceWithRole, toWorkspaceMember, toWorkspaceInvitation, mapOrNull,
+} from './rows.js';
+import type { DataStore, UsageTotals, TranslationLocaleSummary } from './types.js';
+import type { PlatformStats } from '../../types/models.js';
+
+// 新功能的方法在调用前检查 Worker 的数据结构版本，旧版 Worker 上直接抛出 501 而不是请求不存在的接口
+function gated<A extends unknown[], R>(feature: StoreFeature, fn: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+  return async (...args) => {
+    requireWorkersSchema(STORE_FEATURES[feature], feature);
+    return fn(...args);
+  };
+}
+
+function gatedAll<T extends object>(feature: StoreFeature, methods: T): T {
+  return Object.fromEntries(
+    Object.entries(methods).map(([name, fn]) => [name, gated(feature, fn as (...args: unknown[]) => Promise<unknown>)])
+  ) as T;
+}
+
+export function createWorkersStore(): DataStore {
+  return {
+    supports: (feature) => workersSchemaVersion() >= STORE_FEATURES[feature],
+
+    // ===== 用户操作 =====
+    users: {
+      create: async (data) =>
+        toUser(await request<UserRow>('/api/users', { method: 'POST', body: data })),
+
+      login: async (email) =>
+        mapOrNull(await orNull(request<UserRow>('/api/users/login', { method: 'POST', body: { email } })), toUserRecord),
+
+      getById: async (id) =>
+        mapOrNull(await orNull(request<UserRow>(`/api/users/${id}`)), toUser),
+
+      getRecordById: async (id) =>
+        mapOrNull(await orNull(request<UserRow>(`/api/users/${id}`)), toUserRecord),
+
+      updatePassword: gated('passwordChange', async (id, passwordHash) => {
+        await request<unknown>(`/api/users/${id}/password`, { method: 'PUT', body: { passwordHash } });
+      }),
+
+      search: gated('userAdmin', async (query) => {
+        const params = new URLSearchParams({ limit: String(query.limit), offset: String(query.offset) });
+        if (query.q) params.set('q', query.q);
+        if (query.role) params.set('role', query.role);
+        if (query.disabled !== undefined) params.set('disabled', String(query.disabled));
+        const result = await request<{ users: UserRow[]; total: number }>(`/api/users?${params}`);
+        return { users: result.users.map(toUser), total: result.total };
+      }),
+
+      updateRole: gated('userAdmin', async (id, role) =>
+        mapOrNull(await orNull(request<UserRow>(`/api/users/${id}/role`, { method: 'PUT', body: { role } })), toUser)),
+
+      setDisabled: gated('userAdmin', async (id, disabled) =>
+        mapOrNull(await orNull(request<UserRow>(`/api/users/${id}/disabled`, { method: 'PUT', body: { disabled } })), toUser)),
+
+      updatePlan: gated('userAdmin', async (id, plan) =>
+        mapOrNull(await orNull(request<UserRow>(`/api/users/${id}/plan`, { method: 'PUT', body: { plan } })), toUser)),
+    },
+
+    // ===== 项目操作 =====
+    projects: {
+      list: async (userId) =>
+        (await request<ProjectRow[]>(`/api/projects${userId ? `?userId=${userId}` : ''}`)).map(toProject),
+
+      search: gated('userAdmin', async (query) => {
+        const params = new URLSearchParams({ limit: String(query.limit), offset: String(query.offset) });
+        if (query.userId) params.set('userId', String(query.userId));
+        if (query.status) params.set('status', query.status);
+        const result = await request<{ projects: ProjectRow[]; total: number }>(`/api/projects/search?${params}`);
+        return { projects: result.projects.map(toProject), total: result.total };
+      }),
+
+      listAccessible: gated('workspaces', async (userId) =>
+        (await request<ProjectRow[]>(`/api/users/${userId}/accessible-projects`)).map(toProject)),
+
+      listByWorkspace: gated('workspaces', async (workspaceId) =>
+        (await request<ProjectRow[]>(`/api/workspaces/${workspaceId}/projects`)).map(toProject)),
+
+      create: async (data) =>
+        toProject(await request<ProjectRow>('/api/projects', { method: 'POST', body: data })),
+
+      getById: async (id) =>
+        mapOrNull(await orNull(request<ProjectRow>(`/api/projects/${id}`)), toProject),
+
+      update: async (id, data) =>
+        mapOrNull(await orNull(request<ProjectRow>(`/api/projects/${id}`, { method: 'PUT', body: data })), toProject),
+
+      delete: async (id) => {
+        await request<unknown>(`/api/projects/${id}`, { method: 'DELETE' });
+      },
+    },
+
+    // ===== 图片操作 =====
+    images: {
+      listByProject: async (projectId) =>
+        (await request<ImageRow[]>(`/api/projects/${projectId}/images`)).map(toImage),
+
+      getById: gated('imageVariants', async (id) =>
+        mapOrNull(await orNull(request<ImageRow>(`/api/images/${id}`)), toImage)),
+
+      create: async (data) =>
+        toImage(await request<ImageRow>('/api/images', { method: 'POST', body: data })),
+
+      findByHash: gated('imageDedup', async (projectId, type, contentHash) => {
+        const params = new URLSearchParams({ type, contentHash });
+        return mapOrNull(await orNull(request<ImageRow>(`/api/projects/${projectId}/images/by-hash?${params}`)), toImage);
+      }),
+
+      select: gated('imageVariants', async (id) =>
+        mapOrNull(await orNull(request<ImageRow>(`/api/images/${id}/select`, { method: 'POST' })), toImage)),
+
+      delete: async (id) => {
+        await request<unknown>(`/api/images/${id}`, { method: 'DELETE' });
+      },
+    },
+
+    // ===== 直传上传会话 =====
+    directUploads: gatedAll('directUploads', {
+      create: async (data) =>
+        toDirectUpload(await request<DirectUploadRow>('/api/direct-uploads', { method: 'POST', body: data })),
+
+      getById: async (id) =>
+        mapOrNull(await orNull(request<DirectUploadRow>(`/api/direct-uploads/${id}`)), toDirectUpload),
+
+      clearMultipart: async (id) => {
+        await request<unknown>(`/api/direct-uploads/${id}/multipart`, { method: 'DELETE' });
+      },
+
+      delete: async (id) => {
+        await request<unknown>(`/api/direct-uploads/${id}`, { method: 'DELETE' });
+      },
+    }),
+
+    // ===== 脚本段落操作 =====
+    sections: {
+      listByProject: async (projectId) =>
+        (await request<SectionRow[]>(`/api/projects/${projectId}/sections`)).map(toSection),
+
+      getById: gated('sectionHistory', async (id) =>
+        mapOrNull(await orNull(request<SectionRow>(`/api/sections/${id}`)), toSection)),
+
+      create: async (data) =>
+        toSection(await request<SectionRow>('/api/sections', { method: 'POST', body: data })),
+
+      insertAt: gated('sectionHistory', async (projectId, position, data) =>
+        toSection(await request<SectionRow>('/api/sections/insert', { method: 'POST', body: { projectId, position, ...data } }))),
+
+      update: async (id, data) =>
+        mapOrNull(await orNull(request<SectionRow>(`/api/sections/${id}`, { method: 'PUT', body: data })), toSection),
+
+      delete: async (id) => {
+        await request<unknown>(`/api/sections/${id}`, { method: 'DELETE' });
+      },
+
+      reorder: gated('sectionHistory', async (projectId, sectionIds) =>
+        (await request<SectionRow[]>(`/api/projects/${projectId}/sections/order`, { method: 'PUT', body: { sectionIds } })).map(toSection)),
+
+      batchCreate: async (projectId, sectionsData) =>
+        (await request<SectionRow[]>('/api/sections/batch', { method: 'POST', body: { projectId, sections: sectionsData } })).map(toSection),
+    },
+
+    // ===== 段落版本历史 =====
+    sectionVersions: gatedAll('sectionHistory', {
+      listBySection: async (sectionId) =>
+        (await request<SectionVersionRow[]>(`/api/sections/${sectionId}/versions`)).map(toSectionVersion),
+
+      get: async (sectionId, version) =>
+        mapOrNull(await orNull(request<SectionVersionRow>(`/api/sections/${sectionId}/versions/${version}`)), toSectionVersion),
+
+      create: async ({ sectionId, ...data }) =>
+        toSectionVersion(await request<SectionVersionRow>(`/api/sections/${sectionId}/versions`, { method: 'POST', body: data })),
+    }),
+
+    // ===== 脚本版本历史 =====
+    scriptVersions: gatedAll('sectionHistory', {
+      listByProject: async (projectId) =>
+        (await request<ScriptVersionRow[]>(`/api/projects/${projectId}/script-versions`)).map(toScriptVersion),
+
+      get: async (projectId, version) =>
+        mapOrNull(await orNull(request<ScriptVersionRow>(`/api/projects/${projectId}/script-versions/${version}`)), toScriptVersion),
+
+      create: async ({ projectId, ...data }) =>
+        toScriptVersion(await request<ScriptVersionRow>(`/api/projects/${projectId}/script-versions`, { method: 'POST', body: data })),
+    }),
+
+    // ===== 段落译文 =====
+    sectionTranslations: gatedAll('translations', {
+      listByProject: async (projectId, locale) =>
+        (await request<SectionTranslationRow[]>(`/api/projects/${projectId}/translations${locale ? `?locale=${encodeURIComponent(locale)}` : ''}`)).map(toSectionTranslation),
+
+      listLocales: async (projectId) =>
+        request<TranslationLocaleSummary[]>(`/api/projects/${projectId}/translations/locales`),
+
+      upsertMany: async (items) =>
+        (await request<SectionTranslationRow[]>('/api/translations/batch', { method: 'POST', body: { items } })).map(toSectionTranslation),
+
+      deleteByLocale: async (projectId, locale) =>
+        (await request<{ deleted: number }>(`/api/projects/${projectId}/translations/${encodeURIComponent(locale)}`, { method: 'DELETE' })).deleted,
+    }),
+
+    // ===== 竞品文案操作 =====
+    competitorText: {
+      listByProject: async (projectId) =>
+        (await request<CompetitorTextRow[]>(`/api/projects/${projectId}/competitor-text`)).map(toCompetitorText),
+
+      create: async (data) =>
+        toCompetitorText(await request<CompetitorTextRow>('/api/competitor-text', { method: 'POST', body: data })),
+    },
+    competitorReports: gatedAll('competitorReports', {
+      getByProject: async (projectId) =>
+        mapOrNull(await orNull(request<CompetitorReportRow>(`/api/projects/${projectId}/competitor-report`)), toCompetitorReport),
+
+      upsert: async (data) =>
+        toCompetitorReport(await request<CompetitorReportRow>(`/api/projects/${data.projectId}/competitor-report`, { method: 'PUT', body: data })),
+    }),
+
+    // ===== 工作区操作 =====
+    workspaces: gatedAll('workspaces', {
+      create: async (data) =>
+        toWorkspace(await request<WorkspaceRow>('/api/workspaces', { method: 'POST', body: data })),
+
+      getById: async (id) =>
+        mapOrNull(await orNull(request<WorkspaceRow>(`/api/workspaces/${id}`)), toWorkspace),
+
+      listForUser: async (userId) =>
+        (await request<WorkspaceWithRoleRow[]>(`/api/users/${userId}/workspaces`)).map(toWorkspaceWithRole),
+
+      update: async (id, data) =>
+        mapOrNull(await orNull(request<WorkspaceRow>(`/api/workspaces/${id}`, { method: 'PUT', body: data })), toWorkspace),
+
+      delete: async (id) => {
+        await request<unknown>(`/api/workspaces/${id}`, { method: 'DELETE' });
+      },
+    }),
+
+    // ===== 工作区成员操作 =====
+    workspaceMembers: gatedAll('workspaces', {
+      list: async (workspaceId) =>
+        (await request<WorkspaceMemberRow[]>(`/api/workspaces/${workspaceId}/members`)).map(toWorkspaceMember),
+
+      get: async (workspaceId, userId) =>
+        mapOrNull(await orNull(request<WorkspaceMemberRow>(`/api/workspaces/${workspaceId}/members/${userId}`)), toWorkspaceMember),
+
+      upsert: async (data) =>
+        toWorkspaceMember(
+          await request<WorkspaceMemberRow>(`/api/workspaces/${data.workspaceId}/members/${data.userId}`, { method: 'PUT', body: { role: data.role } })
+        ),
+
+      remove: async (workspaceId, userId) => {
+        await request<unknown>(`/api/workspaces/${workspaceId}/members/${userId}`, { method: 'DELETE' });
+      },
+    }),
+
+    // ===== 工作区邀请操作 =====
+    workspaceInvitations: gatedAll('workspaces', {
+      create: async (data) =>
+        toWorkspaceInvitation(await request<WorkspaceInvitationRow>('/api/workspace-invitations', { method: 'POST', body: data })),
+
+      getById: async (id) =>
+        mapOrNull(await orNull(request<WorkspaceInvitationRow>(`/api/workspace-invitations/${id}`)), toWorkspaceInvitation),
+
+      getByHash: async (tokenHash) =>
+        mapOrNull(await orNull(request<WorkspaceInvitationRow>(`/api/workspace-invitations/by-hash/${tokenHash}`)), toWorkspaceInvitation),
+
+      listPending: async (workspaceId) =>
+        (await request<WorkspaceInvitationRow[]>(`/api/workspaces/${workspaceId}/invitations`)).map(toWorkspaceInvitation),
+
+      markAccepted: async (id) =>
+        (await request<{ accepted: boolean }>(`/api/workspace-invitations/${id}/accept`, { method: 'POST' })).accepted,
+
+      delete: async (id) => {
+        await request<unknown>(`/api/workspace-invitations/${id}`, { method: 'DELETE' });
+      },
+    }),
+
+    // ===== 刷新令牌操作 =====
+    refreshTokens: gatedAll('authTokens', {
+      create: async (data) =>
+        toRefreshToken(await request<RefreshTokenRow>('/api/refresh-tokens', { method: 'POST', body: data })),
+
+      getByHash: async (tokenHash) =>
+        mapOrNull(await orNull(request<RefreshTokenRow>(`/api/refresh-tokens/by-hash/${tokenHash}`)), toRefreshToken),
+
+      revoke: async (id) =>
+        (await request<{ revoked: boolean }>(`/api/refresh-tokens/${id}/revoke`, { method: 'POST' })).revoked,
+
+      revokeFamily: async (familyId) => {
+        await request<unknown>(`/api/refresh-tokens/family/${familyId}/revoke`, { method: 'POST' });
+      },
+
+      revokeAllForUser: async (userId) => {
+        await request<unknown>(`/api/users/${userId}/refresh-tokens/revoke`, { method: 'POST' });
+      },
+    }),
+
+    // ===== 密码重置令牌操作 =====
+    passwordResetTokens: gatedAll('authTokens', {
+      create: async (data) =>
+        toPasswordResetToken(await request<PasswordResetTokenRow>('/api/password-reset-tokens', { method: 'POST', body: data })),
+
+      getByHash: async (tokenHash) =>
+        mapOrNull(await orNull(request<PasswordResetTokenRow>(`/api/password-reset-tokens/by-hash/${tokenHash}`)), toPasswordResetToken),
+
+      markUsed: async (id) =>
+        (await request<{ used: boolean }>(`/api/password-reset-tokens/${id}/use`, { method: 'POST' })).used,
+
+      invalidateForUser: async (userId) => {
+        await request<unknown>(`/api/users/${userId}/password-reset-tokens/invalidate`, { method: 'POST' });
+      },
+    }),
+
+    // ===== 幂等请求 =====
+    idempotencyKeys: gatedAll('idempotency', {
+      // 已存在同一 key 时 Workers 返回 409
+      begin: async (data) => {
+        try {
+          return toIdempotencyRecord(await request<IdempotencyKeyRow>('/api/idempotency-keys', { method: 'POST', body: data }));
+        } catch (error) {
+          if (error instanceof WorkersApiError && error.status === 409) return null;
+          throw error;
+        }
+      },
+
+      get: async (userId, key) =>
+        mapOrNull(await orNull(request<IdempotencyKeyRow>(`/api/users/${userId}/idempotency-keys/${encodeURIComponent(key)}`)), toIdempotencyRecord),
+
+      complete: async (id, response) => {
+        await request<unknown>(`/api/idempotency-keys/${id}/complete`, { method: 'POST', body: response });
+      },
+
+      delete: async (id) => {
+        await request<unknown>(`/api/idempotency-keys/${id}`, { method: 'DELETE' });
+      },
+    }),
+
+    // ===== AI 用量记录 =====
+    aiUsage: gatedAll('aiUsage', {
+      create: async (data) =>
+        toAiUsageRecord(await request<AiUsageRow>('/api/ai-usage', { method: 'POST', body: data })),
+
+      summarize: async (userId, since) =>
+        request<UsageTotals>(`/api/users/${userId}/ai-usage/summary?since=${encodeURIComponent(since)}`),
+
+      listByUser: async (userId, query) => {
+        const params = new URLSearchParams({ limit: String(query.limit), offset: String(query.offset) });
+        if (query.projectId) params.set('projectId', String(query.projectId));
+        const result = await request<{ records: AiUsageRow[]; total: number }>(`/api/users/${userId}/ai-usage?${params}`);
+        return { records: result.records.map(toAiUsageRecord), total: result.total };
+      },
+    }),
+
+    // ===== AI 结果缓存 =====
+    aiCache: gatedAll('aiCache', {
+      get: async (key) =>
+        mapOrNull(await orNull(request<AiCacheRow>(`/api/ai-cache/${key}`)), toAiCacheEntry),
+
+      set: async (data) => {
+        await request<unknown>(`/api/ai-cache/${data.key}`, { method: 'PUT', body: data });
+      },
+    }),
+
+    // ===== 提示词模板 =====
+    promptTemplates: gatedAll('promptTemplates', {
+      list: async (filter = {}) => {
+        const params = new URLSearchParams();
+        if (filter.kind) params.set('kind', filter.kind);
+        if (filter.category) params.set('category', filter.category);
+        return (await request<PromptTemplateRow[]>(`/api/prompt-templates?${params}`)).map(toPromptTemplate);
+      },
+
+      getByName: async (name) =>
+        mapOrNull(await orNull(request<PromptTemplateRow>(`/api/prompt-templates/by-name/${encodeURIComponent(name)}`)), toPromptTemplate),
+
+      findForCategory: async (kind, category) =>
+        mapOrNull(
+          await orNull(request<PromptTemplateRow>(`/api/prompt-templates/for-category?kind=${kind}&category=${encodeURIComponent(category)}`)),
+          toPromptTemplate
+        ),
+
+      create: async (data) => {
+        const result = await request<{ template: PromptTemplateRow; version: PromptTemplateVersionRow }>('/api/prompt-templates', { method: 'POST', body: data });
+        return { template: toPromptTemplate(result.template), version: toPromptTemplateVersion(result.version) };
+      },
+
+      update: async (id, data) =>
+        mapOrNull(await orNull(request<PromptTemplateRow>(`/api/prompt-templates/${id}`, { method: 'PUT', body: data })), toPromptTemplate),
+
+      delete: async (id) => {
+        await request<unknown>(`/api/prompt-templates/${id}`, { method: 'DELETE' });
+      },
+
+      listVersions: async (templateId) =>
+        (await request<PromptTemplateVersionRow[]>(`/api/prompt-templates/${templateId}/versions`)).map(toPromptTemplateVersion),
+
+      getVersion: async (templateId, version) =>
+        mapOrNull(
+          await orNull(request<PromptTemplateVersionRow>(`/api/prompt-templates/${templateId}/versions/${version ?? 'latest'}`)),
+          toPromptTemplateVersion
+        ),
+
+      createVersion: async (templateId, data) =>
+        toPromptTemplateVersion(await request<PromptTemplateVersionRow>(`/api/prompt-templates/${templateId}/versions`, { method: 'POST', body: data })),
+    }),
+
+    // ===== 合规检查 =====
+    complianceRules: gatedAll('compliance', {
+      list: async () =>
+        (await request<ComplianceRuleRow[]>('/api/compliance-rules')).map(toComplianceRule),
+
+      getById: async (id) =>
+        mapOrNull(await orNull(request<ComplianceRuleRow>(`/api/compliance-rules/${id}`)), toComplianceRule),
+
+      create: async (data) =>
+        toComplianceRule(await request<ComplianceRuleRow>('/api/compliance-rules', { method: 'POST', body: data })),
+
+      update: async (id, data) =>
+        mapOrNull(await orNull(request<ComplianceRuleRow>(`/api/compliance-rules/${id}`, { method: 'PUT', body: data })), toComplianceRule),
+
+      delete: async (id) => {
+        await request<unknown>(`/api/compliance-rules/${id}`, { method: 'DELETE' });
+      },
+    }),
+    complianceIssues: gatedAll('compliance', {
+      listByProject: async (projectId) =>
+        (await request<ComplianceIssueRow[]>(`/api/projects/${projectId}/compliance-issues`)).map(toComplianceIssue),
+
+      getById: async (id) =>
+        mapOrNull(await orNull(request<ComplianceIssueRow>(`/api/compliance-issues/${id}`)), toComplianceIssue),
+
+      replaceForSections: async (projectId, sectionIds, issues) =>
+        (await request<ComplianceIssueRow[]>(`/api/projects/${projectId}/compliance-issues`, { method: 'PUT', body: { sectionIds, issues } })).map(toComplianceIssue),
+
+      acknowledge: async (id, data) =>
+        mapOrNull(
+          await orNull(request<ComplianceIssueRow>(`/api/compliance-issues/${id}/acknowledge`, data ? { method: 'POST', body: data } : { method: 'DELETE' })),
+          toComplianceIssue
+        ),
+    }),
+
+    // ===== 品牌套件 =====
+    brandKits: gatedAll('brandKits', {
+      listByWorkspace: async (workspaceId) =>
+        (await request<BrandKitRow[]>(`/api/workspaces/${workspaceId}/brand-kits`)).map(toBrandKit),
+
+      getById: async (id) =>
+        mapOrNull(await orNull(request<BrandKitRow>(`/api/brand-kits/${id}`)), toBrandKit),
+
+      create: async (data) =>
+        toBrandKit(await request<BrandKitRow>('/api/brand-kits', { method: 'POST', body: data })),
+
+      update: async (id, data) =>
+        mapOrNull(await orNull(request<BrandKitRow>(`/api/brand-kits/${id}`, { method: 'PUT', body: data })), toBrandKit),
+
+      delete: async (id) => {
+        await request<unknown>(`/api/brand-kits/${id}`, { method: 'DELETE' });
+      },
+    }),
+
+    // ===== 平台统计 =====
+    stats: gatedAll('userAdmin', {
+      overview: async (days) =>
+        request<PlatformStats>(`/api/stats?days=${days}`),
+    }),
+  };
+}
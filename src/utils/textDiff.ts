@@ -0,0 +1,76 @@
+/**
+ * 文本差异比较 - 按字符计算最长公共子序列，适用于中文文案
+ */
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// 超过该规模（字符数乘积）时不再逐字比较，直接整体替换
+const MAX_DIFF_CELLS = 1_000_000;
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+export function diffText(from: string, to: string): DiffSegment[] {
+  const a = Array.from(from);
+  const b = Array.from(to);
+
+  // 去除公共前缀和后缀以缩小比较范围
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const segments: DiffSegment[] = [];
+
+  pushSegment(segments, 'equal', a.slice(0, prefix).join(''));
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    pushSegment(segments, 'delete', midA.join(''));
+    pushSegment(segments, 'insert', midB.join(''));
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    // lcs[i][j] = midA[i..] 与 midB[j..] 的最长公共子序列长度
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        pushSegment(segments, 'delete', midA[i++]);
+      } else {
+        pushSegment(segments, 'insert', midB[j++]);
+      }
+    }
+    pushSegment(segments, 'delete', midA.slice(i).join(''));
+    pushSegment(segments, 'insert', midB.slice(j).join(''));
+  }
+
+  pushSegment(segments, 'equal', a.slice(a.length - suffix).join(''));
+  return segments;
+}
@@ -0,0 +1,351 @@
+/**
+ * 文字合成 - 按排版模板把段落文案渲染成 SVG 并叠加到生成的背景图上
+ */
+
+import sharp from 'sharp';
+import type { SectionContent } from '../types/models.js';
+
+export interface TextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: 'normal' | 'bold' | number;
+  color: string;
+  lineHeight: number;
+  maxLines: number;
+}
+
+export interface ShadowStyle {
+  color: string;
+  opacity: number;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface PanelStyle {
+  color: string;
+  opacity: number;
+  padding: number;
+  radius: number;
+}
+
+export interface OverlayTemplate {
+  name: string;
+  label: string;
+  // 文字块的垂直位置和对齐方式
+  anchor: 'top' | 'center' | 'bottom';
+  align: 'left' | 'center' | 'right';
+  // 安全边距
+  margin: { top: number; right: number; bottom: number; left: number };
+  // 文字块最大宽度（占安全区宽度的比例）
+  maxWidthRatio: number;
+  gap: number;
+  title: TextStyle;
+  subtitle: TextStyle;
+  description: TextStyle;
+  shadow: ShadowStyle | null;
+  panel: PanelStyle | null;
+}
+
+export type TemplateOverrides = Partial<Omit<OverlayTemplate, 'name' | 'label' | 'margin' | 'title' | 'subtitle' | 'description' | 'shadow' | 'panel'>> & {
+  margin?: Partial<OverlayTemplate['margin']>;
+  title?: Partial<TextStyle>;
+  subtitle?: Partial<TextStyle>;
+  description?: Partial<TextStyle>;
+  shadow?: Partial<ShadowStyle> | null;
+  panel?: Partial<PanelStyle> | null;
+};
+
+// 模板中的尺寸以 1024px 宽为基准，渲染时按实际宽度等比缩放
+const BASE_WIDTH = 1024;
+
+export const DEFAULT_FONT = process.env.OVERLAY_FONT_FAMILY
+  || "'Noto Sans CJK SC', 'Source Han Sans SC', 'PingFang SC', 'Microsoft YaHei', sans-serif";
+
+const defaultShadow: ShadowStyle = { color: '#000000', opacity: 0.45, blur: 6, offsetX: 0, offsetY: 2 };
+
+function textStyle(fontSize: number, fontWeight: TextStyle['fontWeight'], color: string, maxLines: number): TextStyle {
+  return { fontFamily: DEFAULT_FONT, fontSize, fontWeight, color, lineHeight: 1.3, maxLines };
+}
+
+export const overlayTemplates: Record<string, OverlayTemplate> = {
+  'top-center': {
+    name: 'top-center',
+    label: '顶部居中',
+    anchor: 'top',
+    align: 'center',
+    margin: { top: 72, right: 64, bottom: 64, left: 64 },
+    maxWidthRatio: 0.9,
+    gap: 16,
+    title: textStyle(64, 'bold', '#FFFFFF', 2),
+    subtitle: textStyle(34, 'normal', '#F5F5F5', 2),
+    description: textStyle(24, 'normal', '#EEEEEE', 4),
+    shadow: defaultShadow,
+    panel: null,
+  },
+  'bottom-left': {
+    name: 'bottom-left',
+    label: '左下角',
+    anchor: 'bottom',
+    align: 'left',
+    margin: { top: 64, right: 64, bottom: 72, left: 64 },
+    maxWidthRatio: 0.7,
+    gap: 14,
+    title: textStyle(56, 'bold', '#FFFFFF', 2),
+    subtitle: textStyle(30, 'normal', '#F0F0F0', 2),
+    description: textStyle(22, 'normal', '#E8E8E8', 4),
+    shadow: defaultShadow,
+    panel: null,
+  },
+  'center-panel': {
+    name: 'center-panel',
+    label: '居中底板',
+    anchor: 'center',
+    align: 'center',
+    margin: { top: 96, right: 96, bottom: 96, left: 96 },
+    maxWidthRatio: 0.85,
+    gap: 16,
+    title: textStyle(56, 'bold', '#1F1F1F', 2),
+    subtitle: textStyle(30, 'normal', '#333333', 2),
+    description: textStyle(22, 'normal', '#4A4A4A', 5),
+    shadow: null,
+    panel: { color: '#FFFFFF', opacity: 0.82, padding: 40, radius: 24 },
+  },
+  'left-column': {
+    name: 'left-column',
+    label: '左侧竖栏',
+    anchor: 'center',
+    align: 'left',
+    margin: { top: 80, right: 64, bottom: 80, left: 64 },
+    maxWidthRatio: 0.45,
+    gap: 18,
+    title: textStyle(52, 'bold', '#FFFFFF', 3),
+    subtitle: textStyle(28, 'normal', '#F0F0F0', 3),
+    description: textStyle(22, 'normal', '#E8E8E8', 8),
+    shadow: defaultShadow,
+    panel: null,
+  },
+};
+
+export const DEFAULT_TEMPLATE = 'top-center';
+
+// 合并模板和覆盖项，shadow/panel 传 null 表示关闭
+export function resolveTemplate(name: string | undefined, overrides: TemplateOverrides = {}): OverlayTemplate {
+  const base = overlayTemplates[name || DEFAULT_TEMPLATE];
+  if (!base) {
+    throw new Error(`Unknown overlay template: ${name}`);
+  }
+
+  const mergeOptional = <T>(value: T | null, patch: Partial<T> | null | undefined, fallback: T): T | null => {
+    if (patch === null) return null;
+    if (patch === undefined) return value;
+    return { ...(value || fallback), ...patch };
+  };
+
+  return {
+    ...base,
+    ...(overrides.anchor && { anchor: overrides.anchor }),
+    ...(overrides.align && { align: overrides.align }),
+    ...(overrides.maxWidthRatio !== undefined && { maxWidthRatio: overrides.maxWidthRatio }),
+    ...(overrides.gap !== undefined && { gap: overrides.gap }),
+    margin: { ...base.margin, ...overrides.margin },
+    title: { ...base.title, ...overrides.title },
+    subtitle: { ...base.subtitle, ...overrides.subtitle },
+    description: { ...base.description, ...overrides.description },
+    shadow: mergeOptional(base.shadow, overrides.shadow, defaultShadow),
+    panel: mergeOptional(base.panel, overrides.panel, { color: '#FFFFFF', opacity: 0.8, padding: 40, radius: 24 }),
+  };
+}
+
+// 叠加两层覆盖项，后者优先；shadow/panel 为 null 时关闭
+export function mergeOverrides(base: TemplateOverrides, patch: TemplateOverrides = {}): TemplateOverrides {
+  const mergeOptional = <T>(value: Partial<T> | null | undefined, next: Partial<T> | null | undefined) =>
+    next === undefined ? value : next === null || value === null ? next : { ...value, ...next };
+
+  return {
+    ...base,
+    ...patch,
+    margin: { ...base.margin, ...patch.margin },
+    title: { ...base.title, ...patch.title },
+    subtitle: { ...base.subtitle, ...patch.subtitle },
+    description: { ...base.description, ...patch.description },
+    shadow: mergeOptional(base.shadow, patch.shadow),
+    panel: mergeOptional(base.panel, patch.panel),
+  };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// 全角字符（中日韩文字及全角标点）的 Unicode 区间
+const WIDE_RANGES = '\\u1100-\\u115f\\u2e80-\\ua4cf\\uac00-\\ud7a3\\uf900-\\ufaff\\ufe30-\\ufe4f\\uff00-\\uff60\\uffe0-\\uffe6';
+const WIDE_CHAR = new RegExp(`[${WIDE_RANGES}]`);
+const TOKEN = new RegExp(`[${WIDE_RANGES}]|\\s+|[^\\s${WIDE_RANGES}]+`, 'g');
+
+// 估算文字宽度：全角字符按 1 个字号，半角按 0.55 个字号（粗体 0.62）
+function measure(text: string, fontSize: number, bold: boolean): number {
+  let width = 0;
+  for (const char of text) {
+    width += WIDE_CHAR.test(char) ? fontSize : fontSize * (bold ? 0.62 : 0.55);
+  }
+  return width;
+}
+
+// 拆分为可断行的单元：全角字符逐字、半角单词整体、空白单独
+function tokenize(paragraph: string): string[] {
+  return paragraph.match(TOKEN) || [];
+}
+
+// SVG 不支持自动换行，按估算宽度手动折行，超出行数时以省略号结尾
+export function wrapText(text: string, style: Pick<TextStyle, 'fontSize' | 'fontWeight'>, maxWidth: number, maxLines: number): string[] {
+  const bold = style.fontWeight === 'bold' || (typeof style.fontWeight === 'number' && style.fontWeight >= 600);
+  const fits = (t: string) => measure(t, style.fontSize, bold) <= maxWidth;
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+
+    for (const token of tokenize(paragraph)) {
+      if (fits(line + token)) {
+        line += token;
+        continue;
+      }
+      if (/^\s+$/.test(token)) {
+        lines.push(line);
+        line = '';
+        continue;
+      }
+      if (line.trim()) {
+        lines.push(line);
+        line = '';
+      }
+      // 单个单词超过一行时按字符强制断开
+      for (const char of token) {
+        if (!fits(line + char) && line) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  const trimmed = lines.map((l) => l.trim()).filter(Boolean);
+  if (trimmed.length <= maxLines) {
+    return trimmed;
+  }
+
+  const kept = trimmed.slice(0, maxLines);
+  kept[maxLines - 1] = Array.from(kept[maxLines - 1]).slice(0, -1).join('') + '…';
+  return kept;
+}
+
+interface TextBlock {
+  style: TextStyle;
+  lines: string[];
+}
+
+export function renderOverlaySvg(content: SectionContent, template: OverlayTemplate, width: number, height: number): string {
+  const scale = width / BASE_WIDTH;
+  const margin = {
+    top: template.margin.top * scale,
+    right: template.margin.right * scale,
+    bottom: template.margin.bottom * scale,
+    left: template.margin.left * scale,
+  };
+  const safeWidth = width - margin.left - margin.right;
+  const blockWidth = safeWidth * template.maxWidthRatio;
+  const gap = template.gap * scale;
+  const padding = template.panel ? template.panel.padding * scale : 0;
+  const textWidth = blockWidth - padding * 2;
+
+  const blocks: TextBlock[] = [
+    { style: template.title, text: content.title },
+    { style: template.subtitle, text: content.subtitle },
+    { style: template.description, text: content.description },
+  ]
+    .filter((b): b is { style: TextStyle; text: string } => Boolean(b.text))
+    .map(({ style, text }) => {
+      const scaled = { ...style, fontSize: style.fontSize * scale };
+      return { style: scaled, lines: wrapText(text, scaled, textWidth, style.maxLines) };
+    });
+
+  const blockHeight = (b: TextBlock) => b.lines.length * b.style.fontSize * b.style.lineHeight;
+  const contentHeight = blocks.reduce((sum, b) => sum + blockHeight(b), 0) + gap * Math.max(0, blocks.length - 1);
+  const boxHeight = contentHeight + padding * 2;
+
+  // 文字块外框位置
+  const boxLeft = template.align === 'left'
+    ? margin.left
+    : template.align === 'right'
+      ? width - margin.right - blockWidth
+      : margin.left + (safeWidth - blockWidth) / 2;
+  const boxTop = template.anchor === 'top'
+    ? margin.top
+    : template.anchor === 'bottom'
+      ? height - margin.bottom - boxHeight
+      : (height - boxHeight) / 2;
+
+  const textAnchor = template.align === 'left' ? 'start' : template.align === 'right' ? 'end' : 'middle';
+  const textX = template.align === 'left'
+    ? boxLeft + padding
+    : template.align === 'right'
+      ? boxLeft + blockWidth - padding
+      : boxLeft + blockWidth / 2;
+
+  const elements: string[] = [];
+
+  if (template.panel) {
+    elements.push(
+      `<rect x="${boxLeft}" y="${boxTop}" width="${blockWidth}" height="${boxHeight}" rx="${template.panel.radius * scale}" ` +
+      `fill="${escapeXml(template.panel.color)}" fill-opacity="${template.panel.opacity}"/>`
+    );
+  }
+
+  let y = boxTop + padding;
+  for (const block of blocks) {
+    const { style } = block;
+    const lineHeight = style.fontSize * style.lineHeight;
+    for (const line of block.lines) {
+      // 基线位于行高内字号的约 0.8 处
+      const baseline = y + (lineHeight - style.fontSize) / 2 + style.fontSize * 0.8;
+      elements.push(
+        `<text x="${textX}" y="${baseline}" text-anchor="${textAnchor}" font-family="${escapeXml(style.fontFamily)}" ` +
+        `font-size="${style.fontSize}" font-weight="${style.fontWeight}" fill="${escapeXml(style.color)}"` +
+        `${template.shadow ? ' filter="url(#shadow)"' : ''}>${escapeXml(line)}</text>`
+      );
+      y += lineHeight;
+    }
+    y += gap;
+  }
+
+  const defs = template.shadow
+    ? `<defs><filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">` +
+      `<feDropShadow dx="${template.shadow.offsetX * scale}" dy="${template.shadow.offsetY * scale}" ` +
+      `stdDeviation="${template.shadow.blur * scale}" flood-color="${escapeXml(template.shadow.color)}" ` +
+      `flood-opacity="${template.shadow.opacity}"/></filter></defs>`
+    : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${defs}${elements.join('')}</svg>`;
+}
+
+// 将段落文案合成到背景图上，返回 PNG
+export async function compositeSectionText(background: Buffer, content: SectionContent, template: OverlayTemplate): Promise<Buffer> {
+  const { width, height } = await sharp(background).metadata();
+  if (!width || !height) {
+    throw new Error('Unable to read background image size');
+  }
+
+  const svg = renderOverlaySvg(content, template, width, height);
+  return sharp(background)
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
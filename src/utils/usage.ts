@@ -0,0 +1,187 @@
+/**
+ * AI 用量计量与额度 - 记录每次文本/图片生成的 token 和图片数，按用户套餐限制每日/每月用量
+ */
+
+import { Response } from 'express';
+import { users, aiUsage, storeSupports } from './d1Client.js';
+import type { UsageTotals } from './store/types.js';
+import type { AiUsageKind, PromptRef } from '../types/models.js';
+
+// 单个周期的额度，null 表示不限
+export interface UsageLimits {
+  tokens: number | null;
+  images: number | null;
+}
+
+export interface UsagePlan {
+  name: string;
+  label: string;
+  daily: UsageLimits;
+  monthly: UsageLimits;
+}
+
+export type UsagePeriod = 'daily' | 'monthly';
+export type UsageMetric = 'tokens' | 'images';
+
+// 调用归属：计入哪个用户、哪个项目
+export interface UsageContext {
+  userId: number;
+  projectId?: number | null;
+}
+
+export interface QuotaExceeded {
+  period: UsagePeriod;
+  metric: UsageMetric;
+  limit: number;
+  used: number;
+  requested: number;
+  resetAt: string;
+}
+
+export const usagePlans: Record<string, UsagePlan> = {
+  free: {
+    name: 'free',
+    label: '免费版',
+    daily: { tokens: 200_000, images: 20 },
+    monthly: { tokens: 2_000_000, images: 200 },
+  },
+  pro: {
+    name: 'pro',
+    label: '专业版',
+    daily: { tokens: 2_000_000, images: 200 },
+    monthly: { tokens: 30_000_000, images: 3_000 },
+  },
+  unlimited: {
+    name: 'unlimited',
+    label: '不限量',
+    daily: { tokens: null, images: null },
+    monthly: { tokens: null, images: null },
+  },
+};
+
+export const USAGE_PLAN_NAMES = Object.keys(usagePlans) as [string, ...string[]];
+
+// 未知套餐按免费版处理
+export function getPlan(name: string): UsagePlan {
+  return usagePlans[name] ?? usagePlans.free;
+}
+
+// 与 SQLite datetime('now') 相同的 UTC 时间格式
+function toSqlTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// 当前周期的起止时间（UTC 自然日/自然月）
+function periodRange(period: UsagePeriod, now = new Date()): { start: Date; end: Date } {
+  if (period === 'daily') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+// OpenAI 兼容接口返回的 usage：文本接口为 prompt/completion_tokens，图片接口为 input/output_tokens
+function tokensOf(usage: any): { promptTokens: number; completionTokens: number; totalTokens: number } {
+  const promptTokens = usage?.prompt_tokens ?? usage?.input_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? usage?.output_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage?.total_tokens ?? promptTokens + completionTokens };
+}
+
+// 记录一次 AI 调用。计量失败只打日志，不影响已完成的生成结果；数据后端不支持用量计量时跳过
+export async function recordUsage(
+  context: UsageContext,
+  data: { kind: AiUsageKind; model: string; usage?: unknown; imageCount?: number; prompt?: PromptRef | null }
+) {
+  if (!storeSupports('aiUsage')) return;
+
+  try {
+    await aiUsage.create({
+      userId: context.userId,
+      projectId: context.projectId ?? null,
+      kind: data.kind,
+      model: data.model,
+      ...tokensOf(data.usage),
+      imageCount: data.imageCount ?? 0,
+      prompt: data.prompt ?? null,
+    });
+  } catch (error) {
+    console.error('Failed to record AI usage:', error);
+  }
+}
+
+export interface UsagePeriodSummary {
+  used: UsageTotals;
+  limits: UsageLimits;
+  remaining: UsageLimits;
+  resetAt: string;
+}
+
+export interface UsageSummary {
+  plan: UsagePlan;
+  daily: UsagePeriodSummary;
+  monthly: UsagePeriodSummary;
+}
+
+const remainingOf = (limit: number | null, used: number) => (limit === null ? null : Math.max(0, limit - used));
+
+export async function getUsageSummary(userId: number): Promise<UsageSummary> {
+  const user = await users.getById(userId);
+  const plan = getPlan(user?.plan ?? 'free');
+
+  const summarize = async (period: UsagePeriod): Promise<UsagePeriodSummary> => {
+    const { start, end } = periodRange(period);
+    const used = await aiUsage.summarize(userId, toSqlTime(start));
+    const limits = plan[period];
+    return {
+      used,
+      limits,
+      remaining: { tokens: remainingOf(limits.tokens, used.totalTokens), images: remainingOf(limits.images, used.imageCount) },
+      resetAt: end.toISOString(),
+    };
+  };
+
+  const [daily, monthly] = await Promise.all([summarize('daily'), summarize('monthly')]);
+  return { plan, daily, monthly };
+}
+
+// 检查额度：token 额度用尽后拒绝任何调用（单次调用的 token 数无法预知），
+// 图片额度需要足够本次请求的张数。先检查每月额度，再检查每日额度。数据后端不支持用量计量时不限额
+export async function checkQuota(userId: number, request: { images?: number } = {}): Promise<QuotaExceeded | null> {
+  if (!storeSupports('aiUsage')) return null;
+
+  const summary = await getUsageSummary(userId);
+  const requestedImages = request.images ?? 0;
+
+  for (const period of ['monthly', 'daily'] as const) {
+    const { used, limits, resetAt } = summary[period];
+
+    if (limits.tokens !== null && used.totalTokens >= limits.tokens) {
+      return { period, metric: 'tokens', limit: limits.tokens, used: used.totalTokens, requested: 0, resetAt };
+    }
+    if (limits.images !== null && requestedImages > 0 && used.imageCount + requestedImages > limits.images) {
+      return { period, metric: 'images', limit: limits.images, used: used.imageCount, requested: requestedImages, resetAt };
+    }
+  }
+
+  return null;
+}
+
+// 超出额度的统一响应：每月额度用尽返回 402（需升级套餐），每日额度用尽返回 429 并提示重试时间
+export function sendQuotaExceeded(res: Response, exceeded: QuotaExceeded) {
+  const periodLabel = exceeded.period === 'daily' ? 'Daily' : 'Monthly';
+  const metricLabel = exceeded.metric === 'tokens' ? 'token' : 'image';
+
+  if (exceeded.period === 'daily') {
+    const retryAfter = Math.max(1, Math.ceil((new Date(exceeded.resetAt).getTime() - Date.now()) / 1000));
+    res.setHeader('Retry-After', String(retryAfter));
+  }
+
+  return res.status(exceeded.period === 'daily' ? 429 : 402).json({
+    error: `${periodLabel} ${metricLabel} quota exceeded`,
+    code: 'quota_exceeded',
+    ...exceeded,
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Cloudflare Workers API 请求封装
+ */
+
+export const WORKERS_API_URL = process.env.WORKERS_API_URL || 'https://ecommerce-detail-api.workers.dev';
+export const API_SECRET = process.env.WORKERS_API_SECRET || '';
+
+interface RequestOptions {
+  method?: string;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export class WorkersApiError extends Error {
+  constructor(message: string, public status: number, public code: string | null = null) {
+    super(message);
+    this.name = 'WorkersApiError';
+  }
+}
+
+// Worker 的数据结构版本，启动时查询；未实现 /api/schema 的旧版 Worker 为 0，只提供基础接口
+let schemaVersion = 0;
+
+export const workersSchemaVersion = () => schemaVersion;
+
+export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const url = `${WORKERS_API_URL}${path}`;
+  
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-API-Key': API_SECRET,
+    ...options.headers,
+  };
+
+  const response = await fetch(url, {
+    method: options.method || 'GET',
+    headers,
+    body: options.body ? JSON.stringify(options.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error: any = await response.json().catch(() => ({ error: 'Unknown error' }));
+    if (response.status === 404 && error.code !== 'not_found') {
+      // 实现了接口约定的 Worker 对资源不存在返回 code: not_found，不带 code 的 404 说明没有该接口。
+      // 旧版 Worker 只会被调用基础接口（新接口在调用前已按版本拦截），其 404 均为资源不存在
+      if (schemaVersion > 0) {
+        throw new WorkersApiError(`Workers API does not implement ${options.method || 'GET'} ${path}`, 404);
+      }
+      throw new WorkersApiError(error.error || 'Not found', 404, 'not_found');
+    }
+    throw new WorkersApiError(error.error || `HTTP ${response.status}`, response.status, error.code ?? null);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+// 资源不存在时返回 null；接口不存在等其余错误继续抛出
+export async function orNull<T>(promise: Promise<T>): Promise<T | null> {
+  try {
+    return await promise;
+  } catch (error) {
+    if (error instanceof WorkersApiError && error.code === 'not_found') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// 启动时查询 Worker 的数据结构版本（见 docs/workers-api.md），没有该接口的旧版 Worker 记为 0。
+// Worker 无法访问时抛出，避免按错误的版本运行
+export async function detectWorkersSchemaVersion(): Promise<number> {
+  try {
+    const { version } = await request<{ version: number }>('/api/schema');
+    schemaVersion = Number.isInteger(version) ? version : 0;
+  } catch (error: any) {
+    if (!(error instanceof WorkersApiError && error.status === 404)) {
+      throw new Error(`Workers API at ${WORKERS_API_URL} is not reachable: ${error.message}`);
+    }
+    schemaVersion = 0;
+  }
+  return schemaVersion;
+}
+
+// 新功能的接口需要 Worker 达到对应的数据结构版本，版本不足时抛出 501
+export function requireWorkersSchema(version: number, feature: string) {
+  if (schemaVersion < version) {
+    throw new WorkersApiError(
+      `${feature} is not available: it requires Workers API schema version ${version}, the Worker at ${WORKERS_API_URL} reports ${schemaVersion}`,
+      501
+    );
+  }
+}
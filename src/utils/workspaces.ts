@@ -0,0 +1,68 @@
+/**
+ * 工作区 - 个人默认工作区和成员邀请
+ */
+
+import crypto from 'crypto';
+import { users, workspaces, workspaceMembers, workspaceInvitations } from './d1Client.js';
+import type { User, Workspace, WorkspaceMember, WorkspaceRole } from '../types/models.js';
+
+// 邀请链接有效期（天）
+export const INVITATION_TTL_DAYS = parseInt(process.env.INVITATION_TTL_DAYS || '7');
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// 用户创建项目时的默认工作区：第一个由其担任 owner 的工作区，没有时自动创建个人工作区
+export async function getDefaultWorkspace(user: Pick<User, 'id' | 'email' | 'name'>): Promise<Workspace> {
+  const owned = (await workspaces.listForUser(user.id)).find((w) => w.role === 'owner');
+  if (owned) {
+    const { role, ...workspace } = owned;
+    return workspace;
+  }
+  return workspaces.create({ name: `${user.name || user.email} 的工作区`, ownerId: user.id });
+}
+
+// 工作区至少保留一名 owner
+export async function isLastOwner(workspaceId: number, userId: number): Promise<boolean> {
+  const owners = (await workspaceMembers.list(workspaceId)).filter((m) => m.role === 'owner');
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+// 创建邀请，返回明文令牌（只出现在邀请邮件中）
+export async function createInvitation(data: { workspaceId: number; email: string; role: WorkspaceRole; invitedBy: number }): Promise<{ token: string; expiresAt: string }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  await workspaceInvitations.create({ ...data, email: data.email.toLowerCase(), tokenHash: hashToken(token), expiresAt });
+  return { token, expiresAt };
+}
+
+export type AcceptInvitationResult =
+  | { ok: true; member: WorkspaceMember }
+  | { ok: false; error: string };
+
+// 接受邀请：邀请邮箱必须与当前用户一致，已是成员时按邀请角色更新（不降低 owner）
+export async function acceptInvitation(token: string, userId: number): Promise<AcceptInvitationResult> {
+  const invitation = await workspaceInvitations.getByHash(hashToken(token));
+  if (!invitation || invitation.acceptedAt || new Date(invitation.expiresAt).getTime() <= Date.now()) {
+    return { ok: false, error: 'Invalid or expired invitation' };
+  }
+
+  const user = await users.getById(userId);
+  if (!user || user.email.toLowerCase() !== invitation.email) {
+    return { ok: false, error: 'Invitation was sent to a different email address' };
+  }
+
+  if (!(await workspaceInvitations.markAccepted(invitation.id))) {
+    return { ok: false, error: 'Invalid or expired invitation' };
+  }
+
+  const existing = await workspaceMembers.get(invitation.workspaceId, userId);
+  if (existing?.role === 'owner') {
+    return { ok: true, member: existing };
+  }
+
+  const member = await workspaceMembers.upsert({ workspaceId: invitation.workspaceId, userId, role: invitation.role });
+  return { ok: true, member };
+}
@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { registerUser, startServer, type TestClient } from './helpers.js';
+
+describe('auth sessions', () => {
+  let client: TestClient;
+
+  beforeAll(async () => {
+    client = await startServer();
+  });
+
+  afterAll(() => client.close());
+
+  it('issues a new token pair and invalidates the used refresh token', async () => {
+    const { refreshToken } = await registerUser(client);
+
+    const first = await client.request('POST', '/api/auth/refresh', { body: { refreshToken } });
+    expect(first.status).toBe(200);
+    expect(first.body.refreshToken).toEqual(expect.any(String));
+    expect(first.body.refreshToken).not.toBe(refreshToken);
+
+    const me = await client.request('GET', '/api/auth/me', { token: first.body.token });
+    expect(me.status).toBe(200);
+
+    const second = await client.request('POST', '/api/auth/refresh', { body: { refreshToken: first.body.refreshToken } });
+    expect(second.status).toBe(200);
+  });
+
+  it('revokes the whole session when a rotated refresh token is reused', async () => {
+    const { refreshToken } = await registerUser(client);
+
+    const rotated = await client.request('POST', '/api/auth/refresh', { body: { refreshToken } });
+    expect(rotated.status).toBe(200);
+
+    // 旧令牌被再次使用：拒绝，并撤销同一 family 中仍有效的令牌
+    const reused = await client.request('POST', '/api/auth/refresh', { body: { refreshToken } });
+    expect(reused.status).toBe(401);
+
+    const afterReuse = await client.request('POST', '/api/auth/refresh', { body: { refreshToken: rotated.body.refreshToken } });
+    expect(afterReuse.status).toBe(401);
+  });
+
+  it('keeps other sessions when one session is revoked for reuse', async () => {
+    const email = 'two-devices@example.com';
+    const { refreshToken: deviceA } = await registerUser(client, email);
+    const login = await client.request('POST', '/api/auth/login', { body: { email, password: 'password123' } });
+    const deviceB = login.body.refreshToken;
+
+    await client.request('POST', '/api/auth/refresh', { body: { refreshToken: deviceA } });
+    await client.request('POST', '/api/auth/refresh', { body: { refreshToken: deviceA } });
+
+    const other = await client.request('POST', '/api/auth/refresh', { body: { refreshToken: deviceB } });
+    expect(other.status).toBe(200);
+  });
+
+  it('rejects access tokens issued before a password change', async () => {
+    const { token, refreshToken } = await registerUser(client);
+
+    const changed = await client.request('POST', '/api/auth/change-password', {
+      token,
+      body: { currentPassword: 'password123', newPassword: 'new-password-456' },
+    });
+    expect(changed.status).toBe(200);
+
+    expect((await client.request('GET', '/api/auth/me', { token })).status).toBe(403);
+    expect((await client.request('GET', '/api/auth/me', { token: changed.body.token })).status).toBe(200);
+    expect((await client.request('POST', '/api/auth/refresh', { body: { refreshToken } })).status).toBe(401);
+  });
+
+  it('treats emails case-insensitively', async () => {
+    await registerUser(client, 'Mixed.Case@Example.com');
+
+    const duplicate = await client.request('POST', '/api/auth/register', {
+      body: { email: 'mixed.case@example.com', password: 'password123' },
+    });
+    expect(duplicate.status).toBe(400);
+
+    const login = await client.request('POST', '/api/auth/login', { body: { email: 'MIXED.CASE@example.COM', password: 'password123' } });
+    expect(login.status).toBe(200);
+    expect(login.body.user.email).toBe('mixed.case@example.com');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * 测试工具 - 在随机端口启动应用，通过 HTTP 调用接口
+ */
+
+import { once } from 'events';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import app from '../src/app.js';
+
+export interface TestResponse<T = any> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+export interface RequestOptions {
+  token?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface TestClient {
+  request<T = any>(method: string, path: string, options?: RequestOptions): Promise<TestResponse<T>>;
+  close(): Promise<void>;
+}
+
+export async function startServer(): Promise<TestClient> {
+  const server: Server = app.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    async request(method, path, options = {}) {
+      const isForm = options.body instanceof FormData;
+      const response = await fetch(`${base}${path}`, {
+        method,
+        headers: {
+          ...(options.body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : {}),
+          ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+          ...options.headers,
+        },
+        body: options.body === undefined ? undefined : isForm ? (options.body as FormData) : JSON.stringify(options.body),
+      });
+      const type = response.headers.get('content-type') || '';
+      const body = type.includes('application/json') ? await response.json() : Buffer.from(await response.arrayBuffer());
+      return { status: response.status, headers: response.headers, body };
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+let userCount = 0;
+
+// 注册一个新用户，返回令牌对和用户信息
+export async function registerUser(client: TestClient, email = `user${++userCount}@example.com`) {
+  const { status, body } = await client.request('POST', '/api/auth/register', {
+    body: { email, password: 'password123', name: email.split('@')[0] },
+  });
+  if (status !== 201) {
+    throw new Error(`Register failed: ${status} ${JSON.stringify(body)}`);
+  }
+  return body as { user: { id: number; email: string }; token: string; refreshToken: string; expiresIn: number };
+}
+
+export async function createProject(client: TestClient, token: string, data: Record<string, unknown> = {}) {
+  const { status, body } = await client.request('POST', '/api/projects', {
+    token,
+    body: { productName: '保温杯', productDesc: '316 不锈钢，12 小时保温', ...data },
+  });
+  if (status !== 201) {
+    throw new Error(`Create project failed: ${status} ${JSON.stringify(body)}`);
+  }
+  return body as { id: number; workspaceId: number | null; status: string };
+}
+
+// 轮询生成任务直到结束
+export async function waitForJob(client: TestClient, token: string, jobId: string, timeoutMs = 15000) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const { body } = await client.request('GET', `/api/generate/jobs/${jobId}`, { token });
+    if (body.status === 'completed' || body.status === 'failed') {
+      return body;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`Job ${jobId} did not finish within ${timeoutMs}ms`);
+}
@@ -0,0 +1,60 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createProject, registerUser, startServer, type TestClient } from './helpers.js';
+
+describe('Idempotency-Key', () => {
+  let client: TestClient;
+  let token: string;
+  let projectId: number;
+
+  beforeAll(async () => {
+    client = await startServer();
+    ({ token } = await registerUser(client));
+    ({ id: projectId } = await createProject(client, token));
+  });
+
+  afterAll(() => client.close());
+
+  const generate = (key: string, body: Record<string, unknown> = {}, as = token) =>
+    client.request('POST', `/api/scripts/${projectId}/generate`, { token: as, body, headers: { 'Idempotency-Key': key } });
+
+  it('replays the first response for a repeated request', async () => {
+    const first = await generate('script-1');
+    expect(first.status).toBe(200);
+    expect(first.headers.get('idempotent-replayed')).toBeNull();
+
+    const second = await generate('script-1');
+    expect(second.status).toBe(200);
+    expect(second.headers.get('idempotent-replayed')).toBe('true');
+    expect(second.body).toEqual(first.body);
+
+    // 重放不会再次生成脚本
+    const usage = await client.request('GET', `/api/usage/history?projectId=${projectId}`, { token });
+    expect(usage.body.total).toBe(1);
+  });
+
+  it('rejects reusing a key for a different request', async () => {
+    await generate('script-2');
+    const { status } = await generate('script-2', { instruction: '更口语化' });
+    expect(status).toBe(422);
+  });
+
+  it('scopes keys to the user', async () => {
+    const other = await registerUser(client);
+    const { status } = await client.request('POST', `/api/scripts/${projectId}/generate`, {
+      token: other.token,
+      body: {},
+      headers: { 'Idempotency-Key': 'script-1' },
+    });
+    // 其他用户的同名 key 不会重放，而是作为新请求处理（无权访问该项目）
+    expect(status).toBe(403);
+  });
+
+  it('does not store failed responses', async () => {
+    const missing = await client.request('POST', '/api/scripts/999999/generate', { token, body: {}, headers: { 'Idempotency-Key': 'script-3' } });
+    expect(missing.status).toBe(403);
+
+    const retried = await generate('script-3');
+    expect(retried.status).toBe(200);
+    expect(retried.headers.get('idempotent-replayed')).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { migrations } from '../src/utils/store/migrations.js';
+import { migrate, openDatabase } from '../src/utils/store/sqliteStore.js';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ecommerce-detail-migrations-'));
+
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const appliedVersions = (db: Database.Database) =>
+  db.prepare('SELECT version FROM schema_migrations ORDER BY version').all().map((row: any) => row.version);
+
+// 模拟停在某个版本的旧数据库
+function databaseAt(version: number) {
+  const db = new Database(':memory:');
+  db.exec('CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL DEFAULT (datetime(\'now\')))');
+  for (const migration of migrations.filter((m) => m.version <= version)) {
+    db.exec(migration.up);
+    db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+  }
+  return db;
+}
+
+describe('sqlite migrations', () => {
+  it('uses unique, increasing version numbers', () => {
+    const versions = migrations.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+
+  it('applies every migration to a new database', () => {
+    const db = openDatabase(':memory:');
+    expect(appliedVersions(db)).toEqual(migrations.map((m) => m.version));
+    db.close();
+  });
+
+  it('does not reapply migrations when a database is reopened', () => {
+    const file = path.join(tmpDir, 'reopen.db');
+    const db = openDatabase(file);
+    db.prepare("INSERT INTO users (email, password_hash) VALUES ('kept@example.com', 'x')").run();
+    db.close();
+
+    const reopened = openDatabase(file);
+    expect(appliedVersions(reopened)).toHaveLength(migrations.length);
+    expect(reopened.prepare('SELECT email FROM users').all()).toEqual([{ email: 'kept@example.com' }]);
+    reopened.close();
+  });
+
+  it('only applies pending migrations to an older database', () => {
+    const db = databaseAt(17);
+    db.prepare("INSERT INTO users (email, password_hash) VALUES ('Mixed.Case@Example.com', 'x')").run();
+
+    migrate(db);
+
+    expect(appliedVersions(db)).toEqual(migrations.map((m) => m.version));
+    expect(db.prepare('SELECT email FROM users').get()).toEqual({ email: 'mixed.case@example.com' });
+    expect(() =>
+      db.prepare("INSERT INTO users (email, password_hash) VALUES ('MIXED.case@example.com', 'x')").run()
+    ).toThrow(/UNIQUE/);
+    db.close();
+  });
+
+  it('rolls back a migration that fails', () => {
+    const db = databaseAt(17);
+    const insert = db.prepare('INSERT INTO users (email, password_hash) VALUES (?, ?)');
+    insert.run('dup@example.com', 'x');
+    insert.run('DUP@example.com', 'x');
+
+    // 仅大小写不同的重复账号会让版本 18 失败，需先人工合并
+    expect(() => migrate(db)).toThrow(/UNIQUE/);
+    expect(appliedVersions(db)).not.toContain(18);
+    expect(db.prepare('SELECT email FROM users ORDER BY id').all()).toEqual([
+      { email: 'dup@example.com' },
+      { email: 'DUP@example.com' },
+    ]);
+    db.close();
+  });
+});
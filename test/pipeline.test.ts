@@ -0,0 +1,72 @@
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createProject, registerUser, startServer, waitForJob, type TestClient } from './helpers.js';
+
+describe('script to image pipeline (mock provider)', () => {
+  let client: TestClient;
+  let token: string;
+  let projectId: number;
+
+  beforeAll(async () => {
+    client = await startServer();
+    ({ token } = await registerUser(client));
+    ({ id: projectId } = await createProject(client, token));
+  });
+
+  afterAll(() => client.close());
+
+  it('uploads a product image', async () => {
+    const png = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#3366cc' } }).png().toBuffer();
+    const form = new FormData();
+    form.append('files', new Blob([png], { type: 'image/png' }), 'product.png');
+
+    const { status, body } = await client.request('POST', `/api/images/${projectId}/upload`, { token, body: form });
+
+    expect(status).toBe(201);
+    expect(body).toHaveLength(1);
+    expect(body[0]).toMatchObject({ type: 'product_input', width: 64, height: 64 });
+  });
+
+  it('generates a script and marks the project scripted', async () => {
+    const { status, body } = await client.request('POST', `/api/scripts/${projectId}/generate`, { token, body: {} });
+
+    expect(status).toBe(200);
+    expect(body.sections).toHaveLength(4);
+    expect(body.sections[0].title).toBe('卖点标题 1');
+
+    const project = await client.request('GET', `/api/projects/${projectId}`, { token });
+    expect(project.body.status).toBe('scripted');
+  });
+
+  it('generates one selected image per section in a background job', async () => {
+    const started = await client.request('POST', `/api/generate/${projectId}/images`, { token, body: {} });
+    expect(started.status).toBe(202);
+
+    const job = await waitForJob(client, token, started.body.jobId);
+    expect(job.status).toBe('completed');
+    expect(job.items.map((item: { status: string }) => item.status)).toEqual(['uploaded', 'uploaded', 'uploaded', 'uploaded']);
+
+    const project = await client.request('GET', `/api/projects/${projectId}`, { token });
+    expect(project.body.status).toBe('generated');
+    const generated = project.body.images.filter((img: { type: string }) => img.type === 'generated_output');
+    expect(generated).toHaveLength(4);
+    expect(generated.every((img: { selected: boolean }) => img.selected)).toBe(true);
+  });
+
+  it('rejects a second job while one is starting or running', async () => {
+    const responses = await Promise.all([1, 2, 3].map(() => client.request('POST', `/api/generate/${projectId}/images`, { token, body: {} })));
+    const statuses = responses.map((r) => r.status).sort();
+    expect(statuses).toEqual([202, 409, 409]);
+
+    await waitForJob(client, token, responses.find((r) => r.status === 202)!.body.jobId);
+  });
+
+  it('downloads the selected images as a zip', async () => {
+    const { status, headers, body } = await client.request('GET', `/api/generate/${projectId}/download`, { token });
+
+    expect(status).toBe(200);
+    expect(headers.get('content-type')).toBe('application/zip');
+    // ZIP 文件头
+    expect((body as Buffer).subarray(0, 4).toString('hex')).toBe('504b0304');
+  });
+});
@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { aiUsage, users } from '../src/utils/d1Client.js';
+import { createProject, registerUser, startServer, type TestClient } from './helpers.js';
+
+// 直接写入用量记录，模拟已经消耗的额度
+const consume = (userId: number, data: { totalTokens?: number; imageCount?: number }) =>
+  aiUsage.create({
+    userId,
+    projectId: null,
+    kind: data.imageCount ? 'image' : 'script',
+    model: 'mock',
+    promptTokens: 0,
+    completionTokens: data.totalTokens ?? 0,
+    totalTokens: data.totalTokens ?? 0,
+    imageCount: data.imageCount ?? 0,
+    prompt: null,
+  });
+
+describe('AI usage quotas', () => {
+  let client: TestClient;
+
+  beforeAll(async () => {
+    client = await startServer();
+  });
+
+  afterAll(() => client.close());
+
+  it('records the usage of each generation', async () => {
+    const { token } = await registerUser(client);
+    const project = await createProject(client, token);
+
+    await client.request('POST', `/api/scripts/${project.id}/generate`, { token, body: {} });
+
+    const { body } = await client.request('GET', '/api/usage', { token });
+    expect(body.plan.name).toBe('free');
+    expect(body.daily.used.totalTokens).toBeGreaterThan(0);
+    expect(body.daily.remaining.tokens).toBe(200_000 - body.daily.used.totalTokens);
+  });
+
+  it('rejects generation with 429 once the daily token quota is used up', async () => {
+    const { token, user } = await registerUser(client);
+    const project = await createProject(client, token);
+    await consume(user.id, { totalTokens: 200_000 });
+
+    const { status, headers, body } = await client.request('POST', `/api/scripts/${project.id}/generate`, { token, body: {} });
+
+    expect(status).toBe(429);
+    expect(body).toMatchObject({ code: 'quota_exceeded', period: 'daily', metric: 'tokens', limit: 200_000 });
+    expect(Number(headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('rejects generation with 402 once the monthly quota is used up', async () => {
+    const { token, user } = await registerUser(client);
+    const project = await createProject(client, token);
+    await consume(user.id, { totalTokens: 2_000_000 });
+
+    const { status, body } = await client.request('POST', `/api/scripts/${project.id}/generate`, { token, body: {} });
+
+    expect(status).toBe(402);
+    expect(body).toMatchObject({ period: 'monthly', metric: 'tokens' });
+  });
+
+  it('requires enough image quota for every requested image', async () => {
+    const { token, user } = await registerUser(client);
+    const project = await createProject(client, token);
+    await client.request('POST', `/api/scripts/${project.id}/generate`, { token, body: {} });
+    await consume(user.id, { imageCount: 17 });
+
+    // 4 个段落各 1 张，超出每日 20 张
+    const { status, body } = await client.request('POST', `/api/generate/${project.id}/images`, { token, body: {} });
+
+    expect(status).toBe(429);
+    expect(body).toMatchObject({ metric: 'images', limit: 20, used: 17, requested: 4 });
+  });
+
+  it('does not limit the unlimited plan', async () => {
+    const { token, user } = await registerUser(client);
+    const project = await createProject(client, token);
+    await consume(user.id, { totalTokens: 5_000_000 });
+    await users.updatePlan(user.id, 'unlimited');
+
+    const { status } = await client.request('POST', `/api/scripts/${project.id}/generate`, { token, body: {} });
+    expect(status).toBe(200);
+  });
+});
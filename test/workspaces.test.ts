@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mailer } from '../src/utils/mailer.js';
+import { createProject, registerUser, startServer, type TestClient } from './helpers.js';
+
+// 邀请成员并用邮件中的令牌接受邀请
+async function addMember(client: TestClient, ownerToken: string, workspaceId: number, memberToken: string, email: string, role: string) {
+  const send = vi.spyOn(mailer, 'send').mockResolvedValue();
+  const invited = await client.request('POST', `/api/workspaces/${workspaceId}/invitations`, { token: ownerToken, body: { email, role } });
+  expect(invited.status).toBe(201);
+
+  const link = send.mock.calls[0][0].text.match(/token=([^\s]+)/)![1];
+  send.mockRestore();
+
+  const accepted = await client.request('POST', '/api/workspaces/invitations/accept', { token: memberToken, body: { token: decodeURIComponent(link) } });
+  expect(accepted.status).toBe(200);
+  expect(accepted.body.role).toBe(role);
+}
+
+describe('workspace permissions', () => {
+  let client: TestClient;
+  let owner: string;
+  let editor: string;
+  let viewer: string;
+  let outsider: string;
+  let projectId: number;
+  let sectionId: number;
+
+  beforeAll(async () => {
+    client = await startServer();
+    owner = (await registerUser(client, 'owner@example.com')).token;
+    editor = (await registerUser(client, 'editor@example.com')).token;
+    viewer = (await registerUser(client, 'viewer@example.com')).token;
+    outsider = (await registerUser(client, 'outsider@example.com')).token;
+
+    const project = await createProject(client, owner);
+    projectId = project.id;
+    await addMember(client, owner, project.workspaceId!, editor, 'editor@example.com', 'editor');
+    await addMember(client, owner, project.workspaceId!, viewer, 'viewer@example.com', 'viewer');
+
+    const script = await client.request('POST', `/api/scripts/${projectId}/generate`, { token: owner, body: {} });
+    sectionId = script.body.sections[0].id;
+  });
+
+  afterAll(() => client.close());
+
+  it('lists the project for every member but not for outsiders', async () => {
+    for (const token of [owner, editor, viewer]) {
+      const { body } = await client.request('GET', '/api/projects', { token });
+      expect(body.map((p: { id: number }) => p.id)).toContain(projectId);
+    }
+    const { body } = await client.request('GET', '/api/projects', { token: outsider });
+    expect(body).toEqual([]);
+  });
+
+  it('lets viewers read but not edit', async () => {
+    expect((await client.request('GET', `/api/projects/${projectId}`, { token: viewer })).status).toBe(200);
+    expect((await client.request('GET', `/api/scripts/${projectId}`, { token: viewer })).status).toBe(200);
+
+    expect((await client.request('PUT', `/api/projects/${projectId}`, { token: viewer, body: { productName: '改名' } })).status).toBe(403);
+    // 段落接口对无权限的用户与不存在的段落同样返回 404
+    expect((await client.request('PUT', `/api/scripts/section/${sectionId}`, { token: viewer, body: { title: '改标题' } })).status).toBe(404);
+  });
+
+  it('lets editors edit content but not delete the project', async () => {
+    const updated = await client.request('PUT', `/api/scripts/section/${sectionId}`, { token: editor, body: { title: '编辑后的标题' } });
+    expect(updated.status).toBe(200);
+    expect(updated.body.title).toBe('编辑后的标题');
+
+    expect((await client.request('DELETE', `/api/projects/${projectId}`, { token: editor })).status).toBe(403);
+  });
+
+  it('hides the project from outsiders', async () => {
+    expect((await client.request('GET', `/api/projects/${projectId}`, { token: outsider })).status).toBe(403);
+    expect((await client.request('GET', `/api/scripts/${projectId}`, { token: outsider })).status).toBe(403);
+    expect((await client.request('PUT', `/api/scripts/section/${sectionId}`, { token: outsider, body: { title: 'x' } })).status).toBe(404);
+  });
+
+  it('lets only the owner delete the project', async () => {
+    expect((await client.request('DELETE', `/api/projects/${projectId}`, { token: owner })).status).toBe(200);
+    expect((await client.request('GET', `/api/projects/${projectId}`, { token: owner })).status).toBe(404);
+  });
+});
@@ -0,0 +1,20 @@
+import os from 'os';
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // 每个测试文件独立加载模块，各自使用一个内存 SQLite 数据库和 mock AI 服务商
+    env: {
+      DB_DRIVER: 'sqlite',
+      SQLITE_PATH: ':memory:',
+      AI_PROVIDER: 'mock',
+      STORAGE_DRIVER: 'local',
+      LOCAL_STORAGE_DIR: path.join(os.tmpdir(), `ecommerce-detail-test-${process.pid}`),
+      JWT_SECRET: 'test-secret',
+      MAIL_DRIVER: 'console',
+    },
+    testTimeout: 20000,
+  },
+});